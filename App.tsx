@@ -1,16 +1,91 @@
 
-import React, { useState, useEffect } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useEffect, useRef } from 'react';
 import { StoryGeneratorForm } from './components/StoryGeneratorForm';
 import { StorybookView } from './components/StorybookView';
+import { StoryLibrary } from './components/StoryLibrary';
 import LoadingIndicator from './components/LoadingIndicator';
-import { generateTitleFromPlot, generateStoryContent, generateImage, generateSpeech, generateStoryVideo } from './services/geminiService';
-import type { StoryPageData, GenerationStatus, UploadedImage } from './types';
+import { ModerationNotice } from './components/ModerationNotice';
+import BookIcon from './components/icons/BookIcon';
+import SparklesIcon from './components/icons/SparklesIcon';
+import { generateTitleFromPlot, generateStoryContent, designSoundscape, generateImage, generateSpeech, generateSceneVideo, getActiveProvider, setActiveProvider, AI_PROVIDERS } from './services/aiProvider';
+import type { AIProviderId } from './services/aiProvider';
+import { createStoryId, saveStory, listStories } from './services/libraryService';
+import { withRetry } from './services/retry';
+import { applyBibleToImagePrompt, imageReferencesForPage } from './services/storyBible';
+import { createScheduler, loadGenerationSettings } from './services/generationScheduler';
+import type { GenerationSettings } from './services/generationScheduler';
+import { exportStoryBundle, BUNDLE_EXTENSION } from './services/bundleService';
+import { downloadBlob, toFileName } from './services/fileUtils';
+import { DEFAULT_BOOK_LANGUAGE } from './services/languages';
+import { pageDialogue, listSpeakers, speakerVoices } from './services/dialogue';
+import { createSoundscape } from './services/soundLibrary';
+import { narrateDialogue } from './services/dialogueNarration';
+import { stitchStoryVideo } from './services/storyVideoService';
+import { assertAllowed, findModerationBlock, loadModerationSettings } from './services/moderation';
+import type { StoryPageData, GenerationStatus, GenerationCheckpoint, PageGenerationProgress, PageJobState, CastMember, StoryBible, StoryRequest, IllustrationStyle, ReadingLevel, BookLanguage, PrebuiltVoice, StoredStory, StoryStatus, ModerationIssue, VoiceCast, BackgroundMusic, VideoClipProgress } from './types';
+
+// Intervalo para agrupar várias alterações seguidas em um único salvamento na biblioteca
+const AUTOSAVE_DELAY_MS = 800;
+
+// Quantas alterações do livro aberto o "Desfazer" consegue voltar
+const MAX_UNDO_STEPS = 50;
+
+// Cada passo guarda a lista de páginas inteira; como as páginas são imutáveis, os passos compartilham
+// as páginas que não mudaram
+interface PageUndoStacks {
+  past: StoryPageData[][];
+  future: StoryPageData[][];
+}
+
+const EMPTY_UNDO_STACKS: PageUndoStacks = { past: [], future: [] };
+
+type PageJob = 'image' | 'audio' | 'secondaryAudio';
+
+const pageJobLabels: Record<PageJob, string> = {
+  image: 'a imagem',
+  audio: 'a narração',
+  secondaryAudio: 'a narração no segundo idioma',
+};
+
+// Um clipe só serve enquanto a ilustração e o texto da página continuam os mesmos
+const videoClipKey = (page: StoryPageData) => `${page.imageUrl}\n${page.text}`;
+
+interface GenerationJob {
+  plot: string;
+  cast: CastMember[];
+  bible: StoryBible | null;
+  illustrationStyle: IllustrationStyle | null;
+  readingLevel: ReadingLevel | null;
+  language: BookLanguage;
+  voice: PrebuiltVoice;
+  voiceCast: VoiceCast;
+  // Título e páginas já concluídos; vazios em uma geração nova
+  title: string;
+  pages: StoryPageData[];
+  checkpoint: GenerationCheckpoint;
+}
 
 function App() {
+  const [view, setView] = useState<'create' | 'library'>('create');
+  const [currentStoryId, setCurrentStoryId] = useState<string | null>(null);
+  const [storyCreatedAt, setStoryCreatedAt] = useState<number>(0);
+  const [storyStatus, setStoryStatus] = useState<StoryStatus>('in-progress');
+  const [generationCheckpoint, setGenerationCheckpoint] = useState<GenerationCheckpoint | null>(null);
+  const [storyPlot, setStoryPlot] = useState<string>('');
   const [storyPages, setStoryPages] = useState<StoryPageData[]>([]);
+  const [pageUndo, setPageUndo] = useState<PageUndoStacks>(EMPTY_UNDO_STACKS);
   const [storyTitle, setStoryTitle] = useState<string>('');
-  const [characterImageForStory, setCharacterImageForStory] = useState<UploadedImage | null>(null);
+  const [storyCast, setStoryCast] = useState<CastMember[]>([]);
+  const [storyBible, setStoryBible] = useState<StoryBible | null>(null);
+  const [illustrationStyle, setIllustrationStyle] = useState<IllustrationStyle | null>(null);
+  const [readingLevel, setReadingLevel] = useState<ReadingLevel | null>(null);
+  const [storyLanguage, setStoryLanguage] = useState<BookLanguage>(DEFAULT_BOOK_LANGUAGE);
+  const [narrationVoice, setNarrationVoice] = useState<PrebuiltVoice>('Kore');
+  const [voiceCast, setVoiceCast] = useState<VoiceCast>({});
+  const [coverAudioData, setCoverAudioData] = useState<string | null>(null);
+  const [backgroundMusic, setBackgroundMusic] = useState<BackgroundMusic | null>(null);
+  const [storyVideo, setStoryVideo] = useState<Blob | null>(null);
+  const [storyProvider, setStoryProvider] = useState<string | null>(null);
   const [generationStatus, setGenerationStatus] = useState<GenerationStatus>({
     isLoading: false,
     message: ''
@@ -21,10 +96,17 @@ function App() {
     message: ''
   });
   const [error, setError] = useState<string | null>(null);
+  const [moderationIssues, setModerationIssues] = useState<ModerationIssue[] | null>(null);
+  const [providerId, setProviderId] = useState<AIProviderId>(() => getActiveProvider().id);
+  const [unfinishedStories, setUnfinishedStories] = useState<StoredStory[]>([]);
+
+  // A URL em uso, para quem termina depois de um render e precisa liberar a anterior
+  const videoUrlRef = useRef<string | null>(null);
 
   // Efeito para limpar a URL do objeto de vídeo para evitar vazamentos de memória
   useEffect(() => {
     const currentVideoUrl = videoUrl;
+    videoUrlRef.current = videoUrl;
     return () => {
       if (currentVideoUrl && currentVideoUrl.startsWith('blob:')) {
         URL.revokeObjectURL(currentVideoUrl);
@@ -32,113 +114,529 @@ function App() {
     };
   }, [videoUrl]);
 
-  const handleGenerateStory = async (plot: string, numPages: number, characterImage: UploadedImage | null) => {
-    setGenerationStatus({ isLoading: true, message: 'Invocando um título encantado...' });
+  // Alterações vindas de respostas assíncronas partem sempre da lista mais recente, e não da que
+  // existia quando a chamada começou
+  const storyPagesRef = useRef(storyPages);
+  useEffect(() => {
+    storyPagesRef.current = storyPages;
+  }, [storyPages]);
+
+  // Clipes do desenho animado já gerados para o livro aberto, por página
+  const videoClipsRef = useRef(new Map<string, Blob>());
+
+  // Livros cuja geração foi interrompida, oferecidos no formulário para continuar de onde pararam
+  useEffect(() => {
+    if (view !== 'create' || generationStatus.isLoading) return;
+    let cancelled = false;
+    listStories()
+      .then(stories => {
+        if (!cancelled) setUnfinishedStories(stories.filter(story => story.generation));
+      })
+      .catch(err => console.error("Falha ao procurar livros inacabados", err));
+    return () => { cancelled = true; };
+  }, [view, generationStatus.isLoading]);
+
+  const buildCurrentStory = (id: string): StoredStory => ({
+    id,
+    title: storyTitle,
+    plot: storyPlot,
+    pages: storyPages,
+    cast: storyCast,
+    bible: storyBible ?? undefined,
+    illustrationStyle: illustrationStyle ?? undefined,
+    readingLevel: readingLevel ?? undefined,
+    language: storyLanguage,
+    voice: narrationVoice,
+    voiceCast,
+    music: backgroundMusic,
+    coverAudioData,
+    video: storyVideo,
+    provider: storyProvider ?? undefined,
+    status: storyStatus,
+    generation: generationCheckpoint ?? undefined,
+    createdAt: storyCreatedAt,
+    updatedAt: Date.now(),
+  });
+
+  // Efeito para salvar automaticamente a história aberta na biblioteca local
+  useEffect(() => {
+    if (!currentStoryId) return;
+
+    const story = buildCurrentStory(currentStoryId);
+    const timeoutId = setTimeout(() => {
+      saveStory(story).catch(err => console.error("Falha ao salvar a história na biblioteca", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [currentStoryId, storyTitle, storyPlot, storyPages, storyCast, storyBible, illustrationStyle, readingLevel, storyLanguage, narrationVoice, voiceCast, backgroundMusic, coverAudioData, storyVideo, storyProvider, storyStatus, generationCheckpoint, storyCreatedAt]);
+
+  // Conduz a geração a partir do ponto salvo: cada etapa concluída fica registrada no checkpoint,
+  // que é salvo na biblioteca junto com o livro para que a geração possa ser retomada depois
+  const runGeneration = async (run: GenerationJob, generationSettings: GenerationSettings) => {
+    const { plot, cast, bible, illustrationStyle, readingLevel, language, voice, voiceCast, checkpoint } = run;
+    const numPages = checkpoint.numPages;
+    const candidateCount = checkpoint.imageCandidates ?? 1;
+    const saveCheckpoint = () => setGenerationCheckpoint({ ...checkpoint, assets: { ...checkpoint.assets } });
+    const moderationSettings = loadModerationSettings();
     setError(null);
-    setStoryPages([]);
-    setStoryTitle('');
-    if (videoUrl) {
-      URL.revokeObjectURL(videoUrl); // Limpa a URL do vídeo anterior
-    }
-    setVideoUrl(null);
-    setVideoGenerationStatus({ isLoading: false, message: '' });
-    setCharacterImageForStory(characterImage);
+    setModerationIssues(null);
 
     try {
+      const retryStatus = (message: string) => (attempt: number) =>
+        setGenerationStatus({ isLoading: true, message: `${message} (nova tentativa ${attempt})` });
+
       // 1. Generate title from plot
-      const title = await generateTitleFromPlot(plot, characterImage);
-      setStoryTitle(title);
-      
-      setGenerationStatus({ isLoading: true, message: 'Tecendo os fios da sua aventura...' });
+      if (!run.title) {
+        setGenerationStatus({ isLoading: true, message: 'Invocando um título encantado...' });
+        const title = await withRetry(
+          () => generateTitleFromPlot(plot, cast, language.primary),
+          { onRetry: retryStatus('Invocando um título encantado...') }
+        );
+        assertAllowed(title, moderationSettings, readingLevel);
+        setStoryTitle(title);
+      }
 
       // 2. Generate story text and image prompts from plot
-      const storyContent = await generateStoryContent(plot, numPages, characterImage);
-      
-      const pagesWithPrompts: Omit<StoryPageData, 'imageUrl' | 'audioData'>[] = storyContent.map((page, index) => ({
+      if (!checkpoint.content) {
+        setGenerationStatus({ isLoading: true, message: 'Tecendo os fios da sua aventura...' });
+        const content = await withRetry(
+          () => generateStoryContent({ plot, numPages, cast, bible, readingLevel, language }),
+          { onRetry: retryStatus('Tecendo os fios da sua aventura...') }
+        );
+        // Texto barrado não entra no checkpoint, para que "Continuar geração" escreva a história de novo
+        assertAllowed(content.flatMap(page => [page.storyText, page.imagePrompt, page.secondaryStoryText ?? '']), moderationSettings, readingLevel);
+        checkpoint.content = content;
+        saveCheckpoint();
+      }
+
+      // 3. Choose ambient sounds for each page; without them the book is just quieter, so a failure doesn't stop it
+      if (checkpoint.content.some(page => !page.soundEffects)) {
+        setGenerationStatus({ isLoading: true, message: 'Escolhendo os sons de cada cena...' });
+        const content = checkpoint.content;
+        try {
+          const effects = await withRetry(
+            () => designSoundscape(content.map(page => ({ text: page.storyText, imagePrompt: page.imagePrompt }))),
+            { onRetry: retryStatus('Escolhendo os sons de cada cena...') }
+          );
+          checkpoint.content = content.map((page, index) => ({ ...page, soundEffects: effects[index] ?? [] }));
+          saveCheckpoint();
+        } catch (err) {
+          console.error("Falha ao escolher os sons das páginas", err);
+        }
+      }
+
+      const pagesWithPrompts: Omit<StoryPageData, 'imageUrl' | 'audioData'>[] = checkpoint.content.map((page, index) => ({
         pageNumber: index + 1,
         text: page.storyText,
-        imagePrompt: page.imagePrompt
+        imagePrompt: page.imagePrompt,
+        characters: page.characters,
+        secondaryText: language.secondary ? page.secondaryStoryText : undefined,
+        dialogue: page.dialogue,
+        soundscape: page.soundEffects && createSoundscape(page.soundEffects),
       }));
 
-      const generatedPages: StoryPageData[] = [];
-      for (let i = 0; i < pagesWithPrompts.length; i++) {
-        const page = pagesWithPrompts[i];
-        
-        // 3. Generate image
-        setGenerationStatus({ 
-          isLoading: true, 
-          message: `Pintando a magia na página ${i + 1} de ${numPages}...` 
-        });
-        const imageUrl = await generateImage(page.imagePrompt, characterImage);
-
-        // 4. Generate audio
-         setGenerationStatus({ 
-          isLoading: true, 
-          message: `Dando voz à história na página ${i + 1} de ${numPages}...` 
-        });
-        const audioData = await generateSpeech(page.text);
-
-        generatedPages.push({ ...page, imageUrl, audioData });
-        setStoryPages([...generatedPages]); // Update state incrementally
-      }
+      // Cada personagem fala com a sua voz; a tradução, em livros bilíngues, fica toda com o narrador
+      const castNames = cast.map(member => member.name);
+      const dialogues = pagesWithPrompts.map(page => pageDialogue(page, castNames));
+      const voices = speakerVoices(listSpeakers(castNames, dialogues), voiceCast, voice);
+
+      // Imagens e narrações são geradas em paralelo, dentro dos limites escolhidos no formulário.
+      // Uma falha em uma página não descarta o livro: a página fica marcada e pode ser refeita depois
+      const scheduler = createScheduler(generationSettings);
+      const generatedPages: (StoryPageData | undefined)[] = new Array(pagesWithPrompts.length);
+      run.pages.forEach((page, index) => { generatedPages[index] = page; });
+      const progress: PageGenerationProgress[] = pagesWithPrompts.map(page => {
+        const saved = checkpoint.assets[page.pageNumber];
+        const done = Boolean(generatedPages[page.pageNumber - 1]);
+        return {
+          pageNumber: page.pageNumber,
+          image: done || saved?.imageUrl ? 'ready' : 'queued',
+          audio: done || saved?.audioData ? 'ready' : 'queued',
+          secondaryAudio: page.secondaryText ? (done || saved?.secondaryAudioData ? 'ready' : 'queued') : undefined,
+        };
+      });
+      let completedPages = run.pages.length;
+      let failedPages = 0;
+
+      const progressMessage = () => `Pintando e narrando as páginas... ${completedPages} de ${numPages} prontas`;
+      const updateProgress = (index: number, job: PageJob, state: PageJobState) => {
+        progress[index] = { ...progress[index], [job]: state };
+        setGenerationStatus({ isLoading: true, message: progressMessage(), pages: [...progress] });
+      };
 
+      const settleJob = async (index: number, job: PageJob, run: () => Promise<string>): Promise<string> => {
+        try {
+          const result = await run();
+          updateProgress(index, job, 'ready');
+          return result;
+        } catch (err) {
+          console.error(`Falha ao gerar ${pageJobLabels[job]} da página ${index + 1}`, err);
+          updateProgress(index, job, 'failed');
+          return '';
+        }
+      };
+
+      // Cada tentativa volta para a fila, para que as novas tentativas também respeitem os limites
+      const runJob = (index: number, job: PageJob, task: () => Promise<string>): Promise<string> => settleJob(index, job, () => withRetry(
+        () => scheduler.run(() => {
+          updateProgress(index, job, 'running');
+          return task();
+        }),
+        { onRetry: () => updateProgress(index, job, 'queued') }
+      ));
+
+      const saveAsset = (pageNumber: number, asset: GenerationCheckpoint['assets'][number]) => {
+        checkpoint.assets[pageNumber] = { ...checkpoint.assets[pageNumber], ...asset };
+        saveCheckpoint();
+      };
+
+      // Com várias opções por página, cada uma é uma chamada própria na fila; a página só falha se nenhuma sair
+      const illustrate = async (index: number, page: typeof pagesWithPrompts[number]): Promise<string[]> => {
+        const urls = await Promise.all(Array.from({ length: candidateCount }, (_, variation) => runJob(index, 'image', () => generateImage(
+          applyBibleToImagePrompt(page.imagePrompt, bible, cast, page.characters),
+          imageReferencesForPage(cast, bible, page.characters),
+          illustrationStyle,
+          variation
+        ))));
+        const ready = urls.filter(Boolean);
+        if (candidateCount > 1) updateProgress(index, 'image', ready.length > 0 ? 'ready' : 'failed');
+        return ready;
+      };
+
+      setGenerationStatus({ isLoading: true, message: progressMessage(), pages: [...progress] });
+      await Promise.all(pagesWithPrompts.map(async (page, index) => {
+        if (generatedPages[index]) return;
+
+        const saved = checkpoint.assets[page.pageNumber];
+        const { secondaryText } = page;
+        const secondaryLanguage = language.secondary;
+        const [[imageUrl = '', ...candidateUrls], audioData, secondaryAudioData] = await Promise.all([
+          saved?.imageUrl ? [saved.imageUrl, ...(saved.imageCandidates ?? [])] : illustrate(index, page).then(urls => {
+            if (urls.length > 0) saveAsset(page.pageNumber, { imageUrl: urls[0], imageCandidates: urls.slice(1) });
+            return urls;
+          }),
+          // Com várias vozes, cada grupo de falas é uma chamada própria na fila e é repetido sozinho
+          saved?.audioData ?? settleJob(index, 'audio', () => narrateDialogue(dialogues[index], voice, voices, language.primary, {
+            scheduler,
+            onStart: () => updateProgress(index, 'audio', 'running'),
+            onRetry: () => updateProgress(index, 'audio', 'queued'),
+          })).then(audioData => {
+            if (audioData) saveAsset(page.pageNumber, { audioData });
+            return audioData;
+          }),
+          !secondaryText || !secondaryLanguage ? '' : saved?.secondaryAudioData ?? runJob(index, 'secondaryAudio', () => generateSpeech(secondaryText, voice, secondaryLanguage)).then(secondaryAudioData => {
+            if (secondaryAudioData) saveAsset(page.pageNumber, { secondaryAudioData });
+            return secondaryAudioData;
+          }),
+        ]);
+
+        if (!imageUrl || !audioData || (secondaryText && !secondaryAudioData)) failedPages++;
+        completedPages++;
+        generatedPages[index] = {
+          ...page,
+          imageUrl,
+          audioData,
+          imageStatus: imageUrl ? 'ready' : 'failed',
+          audioStatus: audioData ? 'ready' : 'failed',
+          ...(candidateUrls.length > 0 && {
+            imageCandidates: candidateUrls.map(url => ({ imageUrl: url, prompt: page.imagePrompt, createdAt: Date.now() })),
+          }),
+          ...(secondaryText ? {
+            secondaryAudioData,
+            secondaryAudioStatus: secondaryAudioData ? 'ready' : 'failed',
+          } : {}),
+        };
+        setGenerationStatus({ isLoading: true, message: progressMessage(), pages: [...progress] });
+
+        // O livro só mostra páginas em sequência: uma página pronta espera as anteriores terminarem.
+        // As que entram no livro deixam o checkpoint, já que passam a ser salvas com as páginas
+        const firstMissing = generatedPages.findIndex(p => !p);
+        const readyCount = firstMissing === -1 ? generatedPages.length : firstMissing;
+        for (let pageNumber = 1; pageNumber <= readyCount; pageNumber++) {
+          delete checkpoint.assets[pageNumber];
+        }
+        setStoryPages(generatedPages.slice(0, readyCount) as StoryPageData[]);
+        saveCheckpoint();
+      }));
+
+      if (failedPages > 0) {
+        setError(`${failedPages} ${failedPages === 1 ? 'página ficou' : 'páginas ficaram'} sem ilustração ou narração. Use o botão "Tentar novamente" nessas páginas.`);
+      }
+      setGenerationCheckpoint(null);
+      setStoryStatus('complete');
       setGenerationStatus({ isLoading: false, message: '' });
     } catch (err) {
       console.error(err);
-      setError('Ocorreu um erro ao gerar a história. Por favor, tente novamente.');
+      const blocked = findModerationBlock(err);
+      if (blocked) {
+        setModerationIssues(blocked.issues);
+        setGenerationStatus({ isLoading: false, message: '' });
+        return;
+      }
+      setError('Ocorreu um erro ao gerar a história. O que já ficou pronto foi guardado: use "Continuar geração" para tentar de novo de onde parou.');
       setGenerationStatus({ isLoading: false, message: '' });
     }
   };
 
-  const handleGenerateVideo = async () => {
-    if (!storyPages.length) return;
+  const handleGenerateStory = async ({ plot, numPages, cast, bible, illustrationStyle, imageCandidates, readingLevel, language }: StoryRequest, generationSettings: GenerationSettings) => {
+    const checkpoint: GenerationCheckpoint = { numPages, imageCandidates, content: null, assets: {} };
+    setCurrentStoryId(createStoryId());
+    setStoryCreatedAt(Date.now());
+    setStoryStatus('in-progress');
+    setGenerationCheckpoint(checkpoint);
+    setStoryPlot(plot);
+    setStoryPages([]);
+    setPageUndo(EMPTY_UNDO_STACKS);
+    setStoryTitle('');
+    setCoverAudioData(null);
+    setBackgroundMusic(null);
+    setStoryVideo(null);
+    setStoryProvider(getActiveProvider().id);
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl); // Limpa a URL do vídeo anterior
+    }
+    setVideoUrl(null);
+    setVideoGenerationStatus({ isLoading: false, message: '' });
+    videoClipsRef.current.clear();
+    setStoryCast(cast);
+    setStoryBible(bible);
+    setIllustrationStyle(illustrationStyle);
+    setReadingLevel(readingLevel);
+    setStoryLanguage(language);
+
+    setVoiceCast({});
+
+    await runGeneration({ plot, cast, bible, illustrationStyle, readingLevel, language, voice: narrationVoice, voiceCast: {}, title: '', pages: [], checkpoint }, generationSettings);
+  };
+
+  const handleResumeGeneration = async (story: StoredStory, generationSettings: GenerationSettings) => {
+    if (!story.generation) return;
+    // Cópia própria, para não alterar o objeto que veio da biblioteca
+    const checkpoint: GenerationCheckpoint = { ...story.generation, assets: { ...story.generation.assets } };
+    handleOpenStory(story);
+    // As páginas que faltam saem do mesmo provedor que começou o livro, para o registro valer para o livro todo.
+    // Livros sem provedor registrado (ou de um provedor que não existe mais) continuam no provedor atual
+    if (story.provider && story.provider in AI_PROVIDERS) {
+      setActiveProvider(story.provider as AIProviderId);
+      setProviderId(story.provider as AIProviderId);
+    }
+    setStoryProvider(getActiveProvider().id);
+
+    await runGeneration({
+      plot: story.plot,
+      cast: story.cast,
+      bible: story.bible ?? null,
+      illustrationStyle: story.illustrationStyle ?? null,
+      readingLevel: story.readingLevel ?? null,
+      language: story.language ?? DEFAULT_BOOK_LANGUAGE,
+      voice: story.voice,
+      voiceCast: story.voiceCast ?? {},
+      title: story.title,
+      pages: story.pages,
+      checkpoint,
+    }, generationSettings);
+  };
+
+  // Cada página escolhida vira um clipe animado a partir da sua ilustração; os clipes são juntados na ordem
+  // do livro, com a narração da página por cima. Clipes prontos ficam guardados, então uma nova tentativa
+  // depois de uma falha só refaz os que faltam
+  const handleGenerateVideo = async (pageNumbers: number[]) => {
+    const scenePages = storyPages.filter(page => pageNumbers.includes(page.pageNumber) && page.imageUrl);
+    if (scenePages.length === 0) {
+      setError('Escolha ao menos uma página com ilustração para animar.');
+      return;
+    }
     
     if (videoUrl) {
       URL.revokeObjectURL(videoUrl);
     }
     setVideoUrl(null);
+    setStoryVideo(null);
     setError(null);
 
+    const clips: VideoClipProgress[] = scenePages.map(page => ({
+      pageNumber: page.pageNumber,
+      state: videoClipsRef.current.has(videoClipKey(page)) ? 'ready' : 'queued',
+      message: '',
+    }));
+    const progressMessage = () => `Animando as cenas... ${clips.filter(clip => clip.state === 'ready').length} de ${clips.length} prontas`;
+    const updateClip = (index: number, state: PageJobState, message = '') => {
+      clips[index] = { ...clips[index], state, message };
+      setVideoGenerationStatus({ isLoading: true, message: progressMessage(), clips: [...clips] });
+    };
+
     try {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        if (!hasKey) {
-            await window.aistudio.openSelectKey();
-            // Fix: Per guidelines, assume key selection was successful and proceed.
-            // If user cancels or key is invalid, the API call will fail and be caught by the catch block.
+        setVideoGenerationStatus({ isLoading: true, message: progressMessage(), clips: [...clips] });
+        // O Veo usa a chave escolhida pelo usuário: ela é pedida uma vez, antes de as cenas começarem juntas.
+        // Se a escolha for cancelada ou a chave não servir, as chamadas falham e o erro é tratado abaixo
+        if (getActiveProvider().id === 'gemini' && !(await window.aistudio.hasSelectedApiKey())) {
+          await window.aistudio.openSelectKey();
         }
+        const scheduler = createScheduler(loadGenerationSettings());
+        const errors: unknown[] = [];
+        const clipBlobs = await Promise.all(scenePages.map(async (page, index) => {
+          const key = videoClipKey(page);
+          const cached = videoClipsRef.current.get(key);
+          if (cached) return cached;
+          try {
+            // Sem repetição aqui: refazer o pedido geraria (e cobraria) outro vídeo; o provedor repete só a consulta e o download
+            const clip = await scheduler.run(() => {
+              updateClip(index, 'running', 'Começando a animação...');
+              return generateSceneVideo(storyTitle, page, message => updateClip(index, 'running', message));
+            });
+            videoClipsRef.current.set(key, clip);
+            updateClip(index, 'ready');
+            return clip;
+          } catch (err) {
+            console.error(`Falha ao animar a página ${page.pageNumber}`, err);
+            errors.push(err);
+            updateClip(index, 'failed', err instanceof Error ? err.message : 'Falha ao animar a cena');
+            return null;
+          }
+        }));
 
-        setVideoGenerationStatus({ isLoading: true, message: 'Preparando a animação mágica...' });
-        
-        const aiInstance = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        const url = await generateStoryVideo(
-            aiInstance,
-            storyTitle,
-            storyPages[0],
-            (message: string) => setVideoGenerationStatus({ isLoading: true, message })
+        // Um desenho com cenas faltando pularia partes da história, então só é montado com todos os clipes
+        if (errors.length > 0) {
+          throw errors.length === scenePages.length ? errors[0] : new Error(`${errors.length} cena(s) não foram animadas`, { cause: errors[0] });
+        }
+
+        const video = await stitchStoryVideo(
+          scenePages.map((page, index) => ({ clip: clipBlobs[index]!, audioData: page.audioData })),
+          message => setVideoGenerationStatus({ isLoading: true, message, clips: [...clips] })
         );
-        
-        setVideoUrl(url);
+        // A montagem leva minutos; a URL aberta nesse meio tempo é liberada antes de dar lugar à nova
+        if (videoUrlRef.current) {
+          URL.revokeObjectURL(videoUrlRef.current);
+        }
+        setVideoUrl(URL.createObjectURL(video));
+        setStoryVideo(video);
         setVideoGenerationStatus({ isLoading: false, message: 'Seu desenho animado está pronto!' });
     } catch (err: any) {
         console.error("Erro ao gerar vídeo:", err);
-        const errorString = JSON.stringify(err);
+        // Com várias cenas, o erro do Veo chega como causa do erro que resume as falhas
+        const errorString = `${JSON.stringify(err)} ${err?.message} ${err?.cause?.message}`;
         if (errorString.includes("Requested entity was not found")) {
             setError("Sua chave de API pode não ter acesso ao Veo. Por favor, selecione uma chave diferente e tente novamente. Visite ai.google.dev/gemini-api/docs/billing para mais informações.");
             // Per guidelines, prompt the user to select a new key.
             window.aistudio.openSelectKey();
+        } else if (clips.some(clip => clip.state === 'failed')) {
+            const failed = clips.filter(clip => clip.state === 'failed').map(clip => clip.pageNumber);
+            setError(`Não foi possível animar ${failed.length > 1 ? 'as páginas' : 'a página'} ${failed.join(', ')}. As cenas que ficaram prontas foram guardadas: tente de novo para refazer só as que faltam.`);
         } else {
             setError('Ocorreu um erro ao gerar o vídeo. Por favor, tente novamente.');
         }
-        setVideoGenerationStatus({ isLoading: false, message: '' });
+        setVideoGenerationStatus({ isLoading: false, message: '', clips: clips.some(clip => clip.state === 'failed') ? clips : undefined });
     }
 };
 
 
-  const handleUpdatePage = (updatedPage: StoryPageData) => {
-    setStoryPages(prevPages => 
-      prevPages.map(p => p.pageNumber === updatedPage.pageNumber ? updatedPage : p)
-    );
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value as AIProviderId;
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const commitPages = (pages: StoryPageData[]) => {
+    const previous = storyPagesRef.current;
+    storyPagesRef.current = pages;
+    setStoryPages(pages);
+    setPageUndo(stacks => ({ past: [...stacks.past, previous].slice(-MAX_UNDO_STEPS), future: [] }));
+  };
+
+  // A alteração parte da versão mais recente da página, para que tarefas que terminam juntas não se sobrescrevam
+  const handleUpdatePage = (pageNumber: number, update: (current: StoryPageData) => StoryPageData) => {
+    commitPages(storyPagesRef.current.map(p => p.pageNumber === pageNumber ? update(p) : p));
+  };
+
+  // As marcações são derivadas do áudio: se a narração mudou nesse meio tempo, elas são descartadas
+  const handleStoreWordTimings = (page: StoryPageData, timings: Pick<StoryPageData, 'wordTimings' | 'secondaryWordTimings'>) => {
+    const next = storyPagesRef.current.map(p => p.pageNumber === page.pageNumber && p.audioData === page.audioData && p.secondaryAudioData === page.secondaryAudioData
+      ? { ...p, ...timings }
+      : p);
+    storyPagesRef.current = next;
+    setStoryPages(next);
+  };
+
+  const handleUndo = () => {
+    const previous = pageUndo.past[pageUndo.past.length - 1];
+    if (!previous) return;
+    setPageUndo({ past: pageUndo.past.slice(0, -1), future: [storyPagesRef.current, ...pageUndo.future] });
+    storyPagesRef.current = previous;
+    setStoryPages(previous);
+  };
+
+  const handleRedo = () => {
+    const [next, ...future] = pageUndo.future;
+    if (!next) return;
+    setPageUndo({ past: [...pageUndo.past, storyPagesRef.current], future });
+    storyPagesRef.current = next;
+    setStoryPages(next);
+  };
+
+  const handleExportBundle = async () => {
+    const bundle = await exportStoryBundle(buildCurrentStory(currentStoryId ?? createStoryId()));
+    downloadBlob(bundle, toFileName(storyTitle, 'storybook', BUNDLE_EXTENSION));
+  };
+
+  const handleOpenStory = (story: StoredStory) => {
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl);
+    }
+    setError(null);
+    setModerationIssues(null);
+    setCurrentStoryId(story.id);
+    setStoryCreatedAt(story.createdAt);
+    setStoryStatus(story.status);
+    setGenerationCheckpoint(story.generation ?? null);
+    setStoryPlot(story.plot);
+    setStoryTitle(story.title);
+    setStoryPages(story.pages);
+    setPageUndo(EMPTY_UNDO_STACKS);
+    setStoryCast(story.cast);
+    setStoryBible(story.bible ?? null);
+    setIllustrationStyle(story.illustrationStyle ?? null);
+    setReadingLevel(story.readingLevel ?? null);
+    setStoryLanguage(story.language ?? DEFAULT_BOOK_LANGUAGE);
+    setNarrationVoice(story.voice);
+    setVoiceCast(story.voiceCast ?? {});
+    setCoverAudioData(story.coverAudioData);
+    setBackgroundMusic(story.music ?? null);
+    setStoryProvider(story.provider ?? null);
+    setStoryVideo(story.video);
+    setVideoUrl(story.video ? URL.createObjectURL(story.video) : null);
+    setVideoGenerationStatus({ isLoading: false, message: '' });
+    videoClipsRef.current.clear();
+    setView('create');
+  };
+
+  const handleStoryRenamed = (story: StoredStory) => {
+    if (story.id === currentStoryId) {
+      setStoryTitle(story.title);
+    }
+  };
+
+  const handleStoryDeleted = (id: string) => {
+    if (id !== currentStoryId) return;
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl);
+    }
+    setCurrentStoryId(null);
+    setGenerationCheckpoint(null);
+    setStoryPlot('');
+    setStoryTitle('');
+    setStoryPages([]);
+    setPageUndo(EMPTY_UNDO_STACKS);
+    setStoryCast([]);
+    setStoryBible(null);
+    setIllustrationStyle(null);
+    setReadingLevel(null);
+    setStoryLanguage(DEFAULT_BOOK_LANGUAGE);
+    setVoiceCast({});
+    setCoverAudioData(null);
+    setBackgroundMusic(null);
+    setStoryVideo(null);
+    setStoryProvider(null);
+    setVideoUrl(null);
+    videoClipsRef.current.clear();
   };
 
   return (
@@ -150,11 +648,50 @@ function App() {
         <p className="mt-4 text-lg text-gray-300">
           Onde a imaginação dos seus filhos ganha vida. Crie, ilustre e narre fábulas mágicas e personalizadas em minutos.
         </p>
+        <nav className="mt-6 flex justify-center space-x-3">
+          <button
+            onClick={() => setView('create')}
+            className={`flex items-center space-x-2 font-semibold py-2 px-4 rounded-lg transition duration-200 ${view === 'create' ? 'bg-purple-600 text-white' : 'bg-gray-700/80 hover:bg-gray-700 text-gray-200'}`}
+          >
+            <SparklesIcon />
+            <span>Criar</span>
+          </button>
+          {/* Abrir outro livro no meio de uma geração faria os resultados caírem nele */}
+          <button
+            onClick={() => setView('library')}
+            disabled={generationStatus.isLoading || videoGenerationStatus.isLoading}
+            className={`flex items-center space-x-2 font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${view === 'library' ? 'bg-purple-600 text-white' : 'bg-gray-700/80 hover:bg-gray-700 text-gray-200'}`}
+            title={generationStatus.isLoading || videoGenerationStatus.isLoading ? 'Espere a geração terminar para abrir a biblioteca' : undefined}
+          >
+            <BookIcon />
+            <span>Minha Biblioteca</span>
+          </button>
+        </nav>
       </header>
       
       <main className="w-full max-w-5xl flex-grow">
+        {view === 'library' ? (
+          <div className="glass-card p-6 sm:p-8 rounded-2xl mb-8 fade-in-up">
+            <h2 className="text-2xl font-lora font-bold text-purple-300 mb-6">Minha Biblioteca</h2>
+            <StoryLibrary
+              currentStoryId={currentStoryId}
+              onOpenStory={handleOpenStory}
+              onStoryRenamed={handleStoryRenamed}
+              onStoryDeleted={handleStoryDeleted}
+            />
+          </div>
+        ) : (
+        <>
         <div className="glass-card p-6 sm:p-8 rounded-2xl mb-8 fade-in-up delay-1">
-          <StoryGeneratorForm onGenerate={handleGenerateStory} isLoading={generationStatus.isLoading} />
+          <StoryGeneratorForm
+            onGenerate={handleGenerateStory}
+            onResume={handleResumeGeneration}
+            unfinishedStories={[
+              ...(currentStoryId && generationCheckpoint ? [buildCurrentStory(currentStoryId)] : []),
+              ...unfinishedStories.filter(story => story.id !== currentStoryId),
+            ]}
+            isLoading={generationStatus.isLoading}
+          />
         </div>
 
         {error && (
@@ -163,24 +700,67 @@ function App() {
           </div>
         )}
 
-        {generationStatus.isLoading && <LoadingIndicator message={generationStatus.message} />}
+        {moderationIssues && (
+          <div className="mb-8 fade-in-up">
+            <ModerationNotice issues={moderationIssues} onDismiss={() => setModerationIssues(null)} />
+          </div>
+        )}
+
+        {generationStatus.isLoading && <LoadingIndicator message={generationStatus.message} pages={generationStatus.pages} />}
 
         {storyPages.length > 0 && (
           <div id="storybook-container" className="fade-in-up delay-2">
             <StorybookView 
+              key={currentStoryId}
               title={storyTitle} 
+              plot={storyPlot}
               pages={storyPages} 
               onUpdatePage={handleUpdatePage}
-              characterImage={characterImageForStory}
+              onStoreWordTimings={handleStoreWordTimings}
+              onPagesChange={commitPages}
+              isGenerating={generationStatus.isLoading || Boolean(generationCheckpoint)}
+              cast={storyCast}
+              bible={storyBible}
+              illustrationStyle={illustrationStyle}
+              readingLevel={readingLevel}
+              language={storyLanguage}
+              voice={narrationVoice}
+              onVoiceChange={setNarrationVoice}
+              voiceCast={voiceCast}
+              onVoiceCastChange={setVoiceCast}
+              coverAudioData={coverAudioData}
+              onCoverAudioChange={setCoverAudioData}
+              backgroundMusic={backgroundMusic}
+              onBackgroundMusicChange={setBackgroundMusic}
               videoUrl={videoUrl}
               videoGenerationStatus={videoGenerationStatus}
               onGenerateVideo={handleGenerateVideo}
+              onExportBundle={handleExportBundle}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={pageUndo.past.length > 0 && !generationStatus.isLoading}
+              canRedo={pageUndo.future.length > 0 && !generationStatus.isLoading}
             />
           </div>
         )}
+        </>
+        )}
       </main>
       <footer className="w-full max-w-4xl text-center mt-12 text-gray-500 text-sm fade-in-up delay-2">
-        <p>Desenvolvido com Google Gemini</p>
+        <p>Desenvolvido com {AI_PROVIDERS[providerId].name}</p>
+        <label className="inline-flex items-center space-x-2 mt-2">
+          <span>Motor de IA:</span>
+          <select
+            value={providerId}
+            onChange={handleProviderChange}
+            disabled={generationStatus.isLoading || videoGenerationStatus.isLoading}
+            className="bg-gray-800 border-gray-700 text-gray-300 text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-1.5"
+          >
+            {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => (
+              <option key={id} value={id}>{AI_PROVIDERS[id].name}</option>
+            ))}
+          </select>
+        </label>
       </footer>
     </div>
   );
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { BackgroundMusic, StoryPageData, UploadedImage } from '../types';
+import { buildAudiobookWav, buildAudiobookMp3, DEFAULT_AUDIOBOOK_OPTIONS } from '../services/audiobookService';
+import type { AudiobookOptions } from '../services/audiobookService';
+import { downloadBlob, toFileName } from '../services/fileUtils';
+import DownloadIcon from './icons/DownloadIcon';
+import XIcon from './icons/XIcon';
+
+interface AudiobookExportPanelProps {
+  title: string;
+  pages: StoryPageData[];
+  coverAudioData: string | null;
+  characterImage: UploadedImage | null;
+  music: BackgroundMusic | null;
+  onClose: () => void;
+}
+
+type AudiobookFormat = 'wav' | 'mp3';
+
+export const AudiobookExportPanel: React.FC<AudiobookExportPanelProps> = ({ title, pages, coverAudioData, characterImage, music, onClose }) => {
+  const [options, setOptions] = useState<AudiobookOptions>(DEFAULT_AUDIOBOOK_OPTIONS);
+  const [exportingFormat, setExportingFormat] = useState<AudiobookFormat | null>(null);
+
+  const handleExport = async (format: AudiobookFormat) => {
+    setExportingFormat(format);
+    // Cede o controle ao navegador para o indicador aparecer antes da codificação
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      const source = { title, pages, coverAudioData, characterImage, music };
+      const audio = format === 'mp3'
+        ? await buildAudiobookMp3(source, options)
+        : buildAudiobookWav(source, options);
+      downloadBlob(audio, toFileName(title, 'storybook', format));
+    } catch (error) {
+      console.error("Falha ao gerar audiolivro", error);
+      alert(error instanceof Error ? error.message : "Ocorreu um erro ao gerar o audiolivro.");
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const renderButton = (format: AudiobookFormat, label: string) => (
+    <button
+      onClick={() => handleExport(format)}
+      disabled={exportingFormat !== null}
+      className="flex-1 flex items-center justify-center space-x-2 bg-green-600 hover:bg-green-500 text-white font-semibold py-2 px-3 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {exportingFormat === format ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <DownloadIcon />}
+      <span>{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-72 bg-gray-900/95 border border-gray-700 rounded-xl p-4 shadow-2xl shadow-black/50 z-20 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-purple-300">Baixar audiolivro</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Fechar">
+          <XIcon />
+        </button>
+      </div>
+      {!coverAudioData && (
+        <p className="text-xs text-gray-400">Dica: gere a narração da capa para incluir a introdução no audiolivro.</p>
+      )}
+      <label className="block text-xs text-gray-400">
+        Pausa entre páginas: {options.gapSeconds.toLocaleString('pt-BR')} s
+        <input
+          type="range"
+          min="0"
+          max="5"
+          step="0.5"
+          value={options.gapSeconds}
+          onChange={(e) => setOptions({ ...options, gapSeconds: Number(e.target.value) })}
+          disabled={exportingFormat !== null}
+          className="w-full mt-1 accent-purple-500"
+        />
+      </label>
+      <label className="flex items-center space-x-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={options.chime}
+          onChange={(e) => setOptions({ ...options, chime: e.target.checked })}
+          disabled={exportingFormat !== null}
+          className="accent-purple-500"
+        />
+        <span>Sininho ao virar a página</span>
+      </label>
+      {music && (
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={options.music}
+            onChange={(e) => setOptions({ ...options, music: e.target.checked })}
+            disabled={exportingFormat !== null}
+            className="accent-purple-500"
+          />
+          <span>Música de fundo</span>
+        </label>
+      )}
+      <div className="flex space-x-2">
+        {renderButton('mp3', 'MP3')}
+        {renderButton('wav', 'WAV')}
+      </div>
+    </div>
+  );
+};
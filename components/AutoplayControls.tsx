@@ -0,0 +1,66 @@
+import React, { useState, useEffect } from 'react';
+import PlayIcon from './icons/PlayIcon';
+import PauseIcon from './icons/PauseIcon';
+import SkipIcon from './icons/SkipIcon';
+import MoonIcon from './icons/MoonIcon';
+import XIcon from './icons/XIcon';
+
+interface AutoplayControlsProps {
+  isPaused: boolean;
+  onPauseResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+  // Momento em que o timer de dormir vence, ou nulo para ler até o fim do livro
+  sleepTimerEndsAt: number | null;
+  onSleepTimerChange: (minutes: number | null) => void;
+}
+
+const SLEEP_TIMER_OPTIONS = [5, 10, 15, 30];
+
+const controlButtonClassName = "p-2 bg-indigo-800/80 hover:bg-indigo-600 text-white rounded-full transition-colors";
+
+export const AutoplayControls: React.FC<AutoplayControlsProps> = ({ isPaused, onPauseResume, onSkip, onStop, sleepTimerEndsAt, onSleepTimerChange }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Só redesenha a contagem enquanto há um timer ligado
+  useEffect(() => {
+    if (sleepTimerEndsAt === null) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [sleepTimerEndsAt]);
+
+  const remainingMinutes = sleepTimerEndsAt === null ? null : Math.max(0, Math.ceil((sleepTimerEndsAt - now) / 60000));
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-between gap-3 bg-indigo-950/70 border border-indigo-500/30 rounded-xl px-4 py-2">
+      <div className="flex items-center gap-2 text-indigo-200 text-sm font-semibold">
+        <MoonIcon />
+        <span>{isPaused ? 'Leitura pausada' : 'Lendo o livro sozinho...'}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <button type="button" onClick={onPauseResume} className={controlButtonClassName} aria-label={isPaused ? 'Continuar' : 'Pausar'}>
+          {isPaused ? <PlayIcon /> : <PauseIcon />}
+        </button>
+        <button type="button" onClick={onSkip} className={controlButtonClassName} aria-label="Pular para a próxima página">
+          <SkipIcon />
+        </button>
+        <select
+          value={sleepTimerEndsAt === null ? '' : 'active'}
+          onChange={(e) => onSleepTimerChange(e.target.value ? Number(e.target.value) : null)}
+          className="bg-indigo-900/80 border border-indigo-500/40 text-white text-sm rounded-lg p-1.5 focus:ring-indigo-400 focus:border-indigo-400"
+          aria-label="Timer de dormir"
+        >
+          <option value="">Até o fim do livro</option>
+          {remainingMinutes !== null && <option value="active" disabled>Dormir em {remainingMinutes} min</option>}
+          {SLEEP_TIMER_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>Parar em {minutes} min</option>
+          ))}
+        </select>
+        <button type="button" onClick={onStop} className={controlButtonClassName} aria-label="Encerrar a leitura automática">
+          <XIcon />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useRef } from 'react';
+import type { CastMember, UploadedImage } from '../types';
+import { createCastMember } from '../services/cast';
+import UploadIcon from './icons/UploadIcon';
+import XIcon from './icons/XIcon';
+import PlusIcon from './icons/PlusIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface CastEditorProps {
+  cast: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+  // Avisa quando o primeiro personagem (o protagonista) ganha uma imagem nova
+  onHeroImageAdded?: (cast: CastMember[]) => void;
+  disabled: boolean;
+}
+
+const MAX_CAST_SIZE = 6;
+const namePlaceholders = ['Herói (ex.: Quindim)', 'Parceiro de aventura', 'Vilão'];
+
+const fileToUploadedImage = (file: File): Promise<UploadedImage> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({ base64: dataUrl.split(',')[1], mimeType: file.type });
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+const CastMemberCard: React.FC<{
+  member: CastMember;
+  index: number;
+  onUpdate: (changes: Partial<CastMember>) => void;
+  onRemove: () => void;
+  disabled: boolean;
+}> = ({ member, index, onUpdate, onRemove, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onUpdate({ image: await fileToUploadedImage(file) });
+  };
+
+  const removeImage = () => {
+    onUpdate({ image: null });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="relative bg-gray-900/50 border border-gray-600 rounded-lg p-3 flex space-x-3">
+      <div
+        className="relative group flex-shrink-0 w-20 h-20 flex justify-center items-center border-2 border-gray-600 border-dashed rounded-full cursor-pointer hover:border-purple-500 transition-colors"
+        onClick={() => !member.image && fileInputRef.current?.click()}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="sr-only"
+          accept="image/png, image/jpeg, image/webp"
+          onChange={handleImageChange}
+          disabled={disabled}
+          aria-label={`Imagem de referência de ${member.name || `personagem ${index + 1}`}`}
+        />
+        {member.image ? (
+          <>
+            <img src={`data:${member.image.mimeType};base64,${member.image.base64}`} alt={`Pré-visualização de ${member.name || 'personagem'}`} className="h-full w-full object-cover rounded-full" />
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                removeImage();
+              }}
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-red-600/80 text-white rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+              aria-label="Remover imagem"
+              disabled={disabled}
+            >
+              <XIcon />
+            </button>
+          </>
+        ) : (
+          <UploadIcon />
+        )}
+      </div>
+      <div className="flex-grow min-w-0 space-y-2">
+        <input
+          type="text"
+          value={member.name}
+          onChange={(e) => onUpdate({ name: e.target.value })}
+          placeholder={namePlaceholders[index] ?? 'Nome do personagem'}
+          className="w-full bg-gray-800/70 border border-gray-600 text-white text-sm rounded-lg p-2 pr-8 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 placeholder-gray-500"
+          disabled={disabled}
+        />
+        <textarea
+          value={member.description}
+          onChange={(e) => onUpdate({ description: e.target.value })}
+          placeholder="Quem é, como é e o que gosta de fazer"
+          className="w-full h-16 bg-gray-800/70 border border-gray-600 text-white text-sm rounded-lg p-2 resize-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 placeholder-gray-500"
+          disabled={disabled}
+        />
+      </div>
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={disabled}
+        className="absolute top-3 right-3 text-gray-500 hover:text-red-400 disabled:opacity-50 transition-colors"
+        aria-label="Remover personagem"
+        title="Remover personagem"
+      >
+        <TrashIcon />
+      </button>
+    </div>
+  );
+};
+
+export const CastEditor: React.FC<CastEditorProps> = ({ cast, onChange, onHeroImageAdded, disabled }) => {
+  const updateMember = (id: string, changes: Partial<CastMember>) => {
+    const updated = cast.map(member => member.id === id ? { ...member, ...changes } : member);
+    onChange(updated);
+    if (changes.image && cast[0]?.id === id) {
+      onHeroImageAdded?.(updated);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {cast.map((member, index) => (
+          <CastMemberCard
+            key={member.id}
+            member={member}
+            index={index}
+            onUpdate={changes => updateMember(member.id, changes)}
+            onRemove={() => onChange(cast.filter(m => m.id !== member.id))}
+            disabled={disabled}
+          />
+        ))}
+      </div>
+      {cast.length < MAX_CAST_SIZE && (
+        <button
+          type="button"
+          onClick={() => onChange([...cast, createCastMember()])}
+          disabled={disabled}
+          className="flex items-center space-x-2 text-sm font-semibold text-purple-300 hover:text-purple-200 disabled:opacity-50 transition-colors"
+        >
+          <PlusIcon />
+          <span>Adicionar personagem</span>
+        </button>
+      )}
+    </div>
+  );
+};
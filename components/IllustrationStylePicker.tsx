@@ -0,0 +1,49 @@
+import React from 'react';
+import type { IllustrationStyle, IllustrationStyleId } from '../types';
+import { ILLUSTRATION_STYLE_PRESETS } from '../services/illustrationStyles';
+
+interface IllustrationStylePickerProps {
+  style: IllustrationStyle;
+  onChange: (style: IllustrationStyle) => void;
+  disabled: boolean;
+}
+
+const styleOptions: { id: IllustrationStyleId; name: string }[] = [
+  ...(Object.keys(ILLUSTRATION_STYLE_PRESETS) as Exclude<IllustrationStyleId, 'custom'>[]).map(id => ({
+    id,
+    name: ILLUSTRATION_STYLE_PRESETS[id].name,
+  })),
+  { id: 'custom', name: 'Personalizado' },
+];
+
+export const IllustrationStylePicker: React.FC<IllustrationStylePickerProps> = ({ style, onChange, disabled }) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Estilo das ilustrações">
+        {styleOptions.map(option => (
+          <button
+            key={option.id}
+            type="button"
+            role="radio"
+            aria-checked={style.id === option.id}
+            onClick={() => onChange({ ...style, id: option.id })}
+            disabled={disabled}
+            className={`text-sm font-semibold py-2 px-4 rounded-full border transition duration-200 disabled:opacity-50 ${style.id === option.id ? 'bg-purple-600 border-purple-400 text-white' : 'bg-gray-900/50 border-gray-600 text-gray-300 hover:border-purple-500'}`}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+      {style.id === 'custom' && (
+        <input
+          type="text"
+          value={style.custom ?? ''}
+          onChange={(e) => onChange({ ...style, custom: e.target.value })}
+          placeholder="Descreva o estilo, ex.: xilogravura de cordel em preto e vermelho"
+          className="w-full bg-gray-900/50 border border-gray-600 text-white text-sm rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 placeholder-gray-500"
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
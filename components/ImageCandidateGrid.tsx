@@ -0,0 +1,78 @@
+import React from 'react';
+import type { StoryPageData } from '../types';
+import { MAX_IMAGE_CANDIDATES } from '../services/pageHistory';
+import SparklesIcon from './icons/SparklesIcon';
+import XIcon from './icons/XIcon';
+
+interface ImageCandidateGridProps {
+  page: StoryPageData;
+  // Índice da opção escolhida, ou nulo para manter a ilustração atual
+  onChoose: (index: number | null) => void;
+  onGenerate: (count: number) => void;
+  onClose: () => void;
+  isGenerating: boolean;
+  disabled: boolean;
+}
+
+const chooseButtonClassName = "w-full text-sm font-semibold py-1.5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+export const ImageCandidateGrid: React.FC<ImageCandidateGridProps> = ({ page, onChoose, onGenerate, onClose, isGenerating, disabled }) => {
+  const candidates = page.imageCandidates ?? [];
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-sm font-semibold text-purple-300">Opções de ilustração da página {page.pageNumber}</p>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-400">Gerar mais:</span>
+          {Array.from({ length: MAX_IMAGE_CANDIDATES - 1 }, (_, i) => i + 2).map(count => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => onGenerate(count)}
+              disabled={disabled || isGenerating}
+              className="text-xs font-semibold bg-gray-700/80 hover:bg-purple-600 text-white py-1 px-2.5 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {count}
+            </button>
+          ))}
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar opções">
+            <XIcon />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+        {page.imageUrl && (
+          <figure className="bg-gray-800/80 border border-green-600/60 rounded-lg p-2 space-y-2">
+            <img src={page.imageUrl} alt="Ilustração atual" className="w-full aspect-video object-contain bg-black rounded" />
+            <button type="button" onClick={() => onChoose(null)} disabled={disabled || candidates.length === 0} className={`${chooseButtonClassName} bg-green-600/80 hover:bg-green-600 text-white`}>
+              Manter a atual
+            </button>
+          </figure>
+        )}
+        {candidates.map((candidate, index) => (
+          <figure key={index} className="bg-gray-800/80 border border-gray-700 rounded-lg p-2 space-y-2">
+            <img src={candidate.imageUrl} alt={`Opção ${index + 1}`} className="w-full aspect-video object-contain bg-black rounded" />
+            <button type="button" onClick={() => onChoose(index)} disabled={disabled} className={`${chooseButtonClassName} bg-purple-600/80 hover:bg-purple-600 text-white`}>
+              Escolher opção {index + 1}
+            </button>
+          </figure>
+        ))}
+        {isGenerating && (
+          <div className="flex flex-col items-center justify-center aspect-video bg-gray-800/50 border border-dashed border-gray-600 rounded-lg text-gray-400 text-sm">
+            <div className="w-6 h-6 border-2 border-t-purple-400 border-gray-600 rounded-full animate-spin mb-2"></div>
+            Pintando opções...
+          </div>
+        )}
+        {candidates.length === 0 && !isGenerating && (
+          <div className="flex flex-col items-center justify-center gap-2 text-center text-sm text-gray-500 p-4">
+            <SparklesIcon />
+            Gere algumas opções para comparar com a ilustração atual.
+          </div>
+        )}
+      </div>
+      <p className="mt-3 text-xs text-gray-500">As opções que não forem escolhidas continuam guardadas nas versões da página.</p>
+    </div>
+  );
+};
@@ -1,11 +1,26 @@
-
 import React from 'react';
+import type { PageGenerationProgress, PageJobState } from '../types';
 
 interface LoadingIndicatorProps {
   message: string;
+  pages?: PageGenerationProgress[];
 }
 
-const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ message }) => {
+const jobStateClasses: Record<PageJobState, string> = {
+  queued: 'bg-gray-600',
+  running: 'bg-purple-400 animate-pulse',
+  ready: 'bg-green-500',
+  failed: 'bg-red-500',
+};
+
+const jobStateLabels: Record<PageJobState, string> = {
+  queued: 'na fila',
+  running: 'em andamento',
+  ready: 'pronta',
+  failed: 'falhou',
+};
+
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ message, pages }) => {
   return (
     <div className="flex flex-col items-center justify-center p-8 text-center my-8">
       <div className="relative w-20 h-20">
@@ -32,8 +47,26 @@ const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ message }) => {
         </div>
       </div>
       <p className="mt-4 text-lg text-gray-300">{message}</p>
+      {pages && pages.length > 0 && (
+        <ul className="mt-6 flex flex-wrap justify-center gap-2 max-w-2xl">
+          {pages.map(page => (
+            <li
+              key={page.pageNumber}
+              className="flex items-center space-x-1.5 bg-gray-800/70 border border-white/10 rounded-lg px-2.5 py-1.5 text-xs text-gray-300"
+              title={`Página ${page.pageNumber}: ilustração ${jobStateLabels[page.image]}, narração ${jobStateLabels[page.audio]}${page.secondaryAudio ? `, narração no segundo idioma ${jobStateLabels[page.secondaryAudio]}` : ''}`}
+            >
+              <span className="font-semibold">{page.pageNumber}</span>
+              <span className={`w-2.5 h-2.5 rounded-sm ${jobStateClasses[page.image]}`} aria-hidden="true"></span>
+              <span className={`w-2.5 h-2.5 rounded-full ${jobStateClasses[page.audio]}`} aria-hidden="true"></span>
+              {page.secondaryAudio && (
+                <span className={`w-2.5 h-2.5 rounded-full ring-1 ring-white/40 ${jobStateClasses[page.secondaryAudio]}`} aria-hidden="true"></span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
 
-export default LoadingIndicator;
\ No newline at end of file
+export default LoadingIndicator;
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ModerationIssue } from '../types';
+import { MODERATION_TOPICS, explainModeration } from '../services/moderation';
+import XIcon from './icons/XIcon';
+
+interface ModerationNoticeProps {
+  issues: ModerationIssue[];
+  onDismiss?: () => void;
+}
+
+// A explicação é escrita para a criança; os detalhes, com as palavras encontradas, ficam recolhidos para os pais
+export const ModerationNotice: React.FC<ModerationNoticeProps> = ({ issues, onDismiss }) => {
+  const terms = issues.filter(issue => issue.term);
+  const topicLabels = [...new Set(issues.map(issue => MODERATION_TOPICS[issue.topic].label))];
+
+  return (
+    <div className="relative bg-amber-900/40 border border-amber-600/60 text-amber-100 px-4 py-3 rounded-lg" role="alert">
+      {onDismiss && (
+        <button type="button" onClick={onDismiss} className="absolute top-2 right-2 text-amber-300 hover:text-white transition-colors" aria-label="Fechar aviso">
+          <XIcon />
+        </button>
+      )}
+      <p className="pr-6">{explainModeration(issues)}</p>
+      <details className="mt-2 text-xs text-amber-200/80">
+        <summary className="cursor-pointer font-semibold">Para os pais</summary>
+        <p className="mt-1">
+          {topicLabels.length > 0 ? `Temas: ${topicLabels.join(', ')}.` : 'Bloqueado pelos filtros de segurança do modelo de IA.'}
+          {terms.length > 0 && ` Palavras encontradas: ${terms.map(issue => `"${issue.term}"`).join(', ')}.`}
+          {' '}O nível de proteção pode ser ajustado em "Controle dos Pais".
+        </p>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import type { BackgroundMusic } from '../types';
+import { MUSIC_LOOPS, DEFAULT_MUSIC_VOLUME, MAX_UPLOAD_SECONDS, decodeMusicUpload } from '../services/musicBed';
+import XIcon from './icons/XIcon';
+
+interface MusicPanelProps {
+  music: BackgroundMusic | null;
+  onChange: (music: BackgroundMusic | null) => void;
+  onClose: () => void;
+}
+
+const optionClassName = (selected: boolean) =>
+  `w-full text-left rounded-lg p-2 border transition-colors ${selected ? 'bg-purple-600/30 border-purple-500' : 'bg-gray-800/80 border-gray-700 hover:border-purple-500'}`;
+
+export const MusicPanel: React.FC<MusicPanelProps> = ({ music, onChange, onClose }) => {
+  const [isDecoding, setIsDecoding] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const volume = music?.volume ?? DEFAULT_MUSIC_VOLUME;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsDecoding(true);
+    try {
+      const uploadAudioData = await decodeMusicUpload(file);
+      onChange({ source: 'upload', uploadAudioData, uploadName: file.name, volume });
+    } catch (error) {
+      console.error("Falha ao ler a música enviada", error);
+      alert("Não foi possível ler este arquivo de áudio. Tente um MP3 ou WAV.");
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-sm font-semibold text-purple-300">Música de fundo</p>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar música de fundo">
+          <XIcon />
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <button type="button" onClick={() => onChange(null)} className={optionClassName(!music)}>
+          <span className="block text-sm text-gray-200 font-semibold">Sem música</span>
+          <span className="block text-xs text-gray-500">Só a narração</span>
+        </button>
+        {MUSIC_LOOPS.map(loop => (
+          <button key={loop.id} type="button" onClick={() => onChange({ source: loop.id, volume })} className={optionClassName(music?.source === loop.id)}>
+            <span className="block text-sm text-gray-200 font-semibold">{loop.name}</span>
+            <span className="block text-xs text-gray-500">{loop.description}</span>
+          </button>
+        ))}
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isDecoding} className={`${optionClassName(music?.source === 'upload')} disabled:opacity-50`}>
+          <span className="block text-sm text-gray-200 font-semibold">{isDecoding ? 'Lendo o áudio...' : 'Enviar uma música'}</span>
+          <span className="block text-xs text-gray-500 truncate">
+            {music?.source === 'upload' && music.uploadName ? music.uploadName : `Até ${MAX_UPLOAD_SECONDS / 60} minutos, tocada em laço`}
+          </span>
+        </button>
+        <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+      </div>
+      <label className="block mt-3 text-xs text-gray-400">
+        Volume da música: {Math.round(volume * 100)}%
+        <input
+          type="range"
+          min="0.05"
+          max="1"
+          step="0.05"
+          value={volume}
+          onChange={(e) => music && onChange({ ...music, volume: Number(e.target.value) })}
+          disabled={!music}
+          className="w-full mt-1 accent-purple-500 disabled:opacity-50"
+        />
+      </label>
+      <p className="mt-2 text-xs text-gray-500">A música abaixa sozinha quando alguém fala e também entra no audiolivro e no EPUB.</p>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { StoryPageData } from '../types';
+import { canSplitPage } from '../services/pageStructure';
+import PlusIcon from './icons/PlusIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface PageOrganizerProps {
+  pages: StoryPageData[];
+  currentPageIndex: number | null;
+  onSelect: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  // A página nova ocupa a posição `index`
+  onInsert: (index: number) => void;
+  onDelete: (index: number) => void;
+  onSplit: (index: number) => void;
+  // Une a página com a seguinte
+  onMerge: (index: number) => void;
+  insertingIndex: number | null;
+  disabled: boolean;
+}
+
+const smallButtonClassName = "text-xs font-semibold text-gray-300 hover:text-purple-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+export const PageOrganizer: React.FC<PageOrganizerProps> = ({ pages, currentPageIndex, onSelect, onMove, onInsert, onDelete, onSplit, onMerge, insertingIndex, disabled }) => {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (draggedIndex !== null && draggedIndex !== index) {
+      onMove(draggedIndex, index);
+    }
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  const renderInsertButton = (index: number) => (
+    <button
+      type="button"
+      onClick={() => onInsert(index)}
+      disabled={disabled}
+      className="flex-shrink-0 self-center w-8 h-8 flex items-center justify-center rounded-full border border-dashed border-gray-600 text-gray-400 hover:text-purple-300 hover:border-purple-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      title="Inserir uma página nova escrita pela IA aqui"
+      aria-label={`Inserir página na posição ${index + 1}`}
+    >
+      {insertingIndex === index ? <div className="w-4 h-4 border-2 border-t-purple-300 border-gray-600 rounded-full animate-spin"></div> : <PlusIcon />}
+    </button>
+  );
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <p className="text-xs text-gray-400 mb-3">Arraste as páginas para mudar a ordem. Use + para inserir uma página nova entre duas existentes.</p>
+      <div className="flex items-stretch gap-2 overflow-x-auto pb-2">
+        {renderInsertButton(0)}
+        {pages.map((page, index) => (
+          <React.Fragment key={index}>
+            <div
+              draggable={!disabled}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragLeave={() => setDropIndex(current => current === index ? null : current)}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => {
+                setDraggedIndex(null);
+                setDropIndex(null);
+              }}
+              className={`flex-shrink-0 w-40 bg-gray-800/80 border rounded-lg p-2 space-y-2 ${disabled ? '' : 'cursor-grab'} ${index === currentPageIndex ? 'border-purple-400' : 'border-gray-700'} ${dropIndex === index && draggedIndex !== index ? 'ring-2 ring-purple-500' : ''} ${draggedIndex === index ? 'opacity-50' : ''}`}
+            >
+              <button type="button" onClick={() => onSelect(index)} className="block w-full text-left">
+                <div className="w-full aspect-video rounded bg-gray-700 overflow-hidden">
+                  {page.imageUrl && <img src={page.imageUrl} alt="" className="w-full h-full object-cover" draggable={false} />}
+                </div>
+                <p className="mt-1 text-xs font-semibold text-purple-300">Página {page.pageNumber}</p>
+                <p className="text-xs text-gray-400 line-clamp-2">{page.text}</p>
+              </button>
+              <div className="flex items-center justify-between">
+                <button type="button" onClick={() => onSplit(index)} disabled={disabled || !canSplitPage(page)} className={smallButtonClassName} title="Dividir o texto desta página em duas">
+                  Dividir
+                </button>
+                <button type="button" onClick={() => onMerge(index)} disabled={disabled || index === pages.length - 1} className={smallButtonClassName} title="Unir com a página seguinte">
+                  Unir →
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(index)}
+                  disabled={disabled || pages.length === 1}
+                  className="text-gray-500 hover:text-red-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Excluir página"
+                  aria-label={`Excluir página ${page.pageNumber}`}
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+            {renderInsertButton(index + 1)}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { StoryPageData } from '../types';
+import { generateStoryPdf, PDF_PAGE_SIZES, DEFAULT_PDF_OPTIONS } from '../services/pdfService';
+import type { PdfOptions, PdfPageSize } from '../services/pdfService';
+import { downloadBlob, toFileName } from '../services/fileUtils';
+import DownloadIcon from './icons/DownloadIcon';
+import XIcon from './icons/XIcon';
+
+interface PdfExportPanelProps {
+  title: string;
+  pages: StoryPageData[];
+  onClose: () => void;
+}
+
+export const PdfExportPanel: React.FC<PdfExportPanelProps> = ({ title, pages, onClose }) => {
+  const [options, setOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const pdf = await generateStoryPdf(title, pages, options);
+      downloadBlob(pdf, toFileName(title, 'storybook', 'pdf'));
+      onClose();
+    } catch (error) {
+      console.error("Falha ao gerar PDF", error);
+      alert("Ocorreu um erro ao gerar o PDF. Por favor, tente novamente.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const inputClassName = "w-full bg-gray-700 border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2";
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-72 bg-gray-900/95 border border-gray-700 rounded-xl p-4 shadow-2xl shadow-black/50 z-20 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-purple-300">Livro em PDF</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Fechar">
+          <XIcon />
+        </button>
+      </div>
+      <label className="block text-xs text-gray-400">
+        Tamanho da página
+        <select
+          value={options.pageSize}
+          onChange={(e) => setOptions({ ...options, pageSize: e.target.value as PdfPageSize })}
+          disabled={isGenerating}
+          className={`${inputClassName} mt-1`}
+        >
+          {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(size => (
+            <option key={size} value={size}>{PDF_PAGE_SIZES[size].label}</option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-xs text-gray-400">
+          Margem (mm)
+          <input
+            type="number"
+            min="0"
+            max="40"
+            value={options.marginMm}
+            onChange={(e) => setOptions({ ...options, marginMm: Math.min(40, Math.max(0, Number(e.target.value) || 0)) })}
+            disabled={isGenerating}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Sangria (mm)
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.5"
+            value={options.bleedMm}
+            onChange={(e) => setOptions({ ...options, bleedMm: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+            disabled={isGenerating}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+      </div>
+      <button
+        onClick={handleGenerate}
+        disabled={isGenerating}
+        className="w-full flex items-center justify-center space-x-2 bg-green-600 hover:bg-green-500 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isGenerating ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <DownloadIcon />}
+        <span>{isGenerating ? 'Montando o PDF...' : 'Baixar PDF'}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import type { AudioEngine, PlaybackSettings, PlaybackState } from '../services/audioEngine';
+import { PLAYBACK_RATES } from '../services/audioEngine';
+import MusicIcon from './icons/MusicIcon';
+
+interface PlaybackBarProps {
+  // Nulo até a primeira narração tocar
+  engine: AudioEngine | null;
+  playback: PlaybackState;
+  settings: PlaybackSettings;
+  onSettingsChange: (settings: PlaybackSettings) => void;
+  hasMusic: boolean;
+  isMusicPanelOpen: boolean;
+  onToggleMusicPanel: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export const PlaybackBar: React.FC<PlaybackBarProps> = ({ engine, playback, settings, onSettingsChange, hasMusic, isMusicPanelOpen, onToggleMusicPanel }) => {
+  const [position, setPosition] = useState(0);
+  const isLoaded = Boolean(engine) && playback.status !== 'idle';
+  const duration = isLoaded && engine ? engine.getDuration() : 0;
+
+  // Só acompanha a posição enquanto a narração anda
+  useEffect(() => {
+    if (!engine || playback.status === 'idle') {
+      setPosition(0);
+      return;
+    }
+    setPosition(engine.getPosition());
+    if (playback.status !== 'playing') return;
+    const interval = window.setInterval(() => setPosition(engine.getPosition()), 250);
+    return () => window.clearInterval(interval);
+  }, [engine, playback]);
+
+  const handleSeek = (seconds: number) => {
+    engine?.seek(seconds);
+    setPosition(seconds);
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 bg-gray-900/60 border border-white/10 rounded-xl px-4 py-2">
+      <span className="font-mono text-xs text-gray-400 w-10 text-right">{formatTime(position)}</span>
+      <input
+        type="range"
+        min="0"
+        max={duration || 1}
+        step="0.1"
+        value={Math.min(position, duration || 1)}
+        onChange={(e) => handleSeek(Number(e.target.value))}
+        disabled={!isLoaded}
+        className="flex-1 min-w-[8rem] accent-purple-500 disabled:opacity-50"
+        aria-label="Posição da narração"
+      />
+      <span className="font-mono text-xs text-gray-400 w-10">{formatTime(duration)}</span>
+      <select
+        value={settings.rate}
+        onChange={(e) => onSettingsChange({ ...settings, rate: Number(e.target.value) })}
+        className="bg-gray-700 border-gray-600 text-white text-sm rounded-lg p-1.5 focus:ring-purple-500 focus:border-purple-500"
+        aria-label="Velocidade da narração"
+      >
+        {PLAYBACK_RATES.map(rate => (
+          <option key={rate} value={rate}>{rate.toLocaleString('pt-BR')}x</option>
+        ))}
+      </select>
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.05"
+        value={settings.volume}
+        onChange={(e) => onSettingsChange({ ...settings, volume: Number(e.target.value) })}
+        className="w-24 accent-purple-500"
+        aria-label="Volume"
+        title={`Volume: ${Math.round(settings.volume * 100)}%`}
+      />
+      <button
+        type="button"
+        onClick={onToggleMusicPanel}
+        className={`p-2 rounded-lg transition duration-200 ${isMusicPanelOpen ? 'bg-purple-600 text-white' : hasMusic ? 'bg-gray-700 text-purple-300 hover:bg-purple-500 hover:text-white' : 'bg-gray-700 text-gray-300 hover:bg-purple-500 hover:text-white'}`}
+        title={hasMusic ? 'Música de fundo ligada' : 'Escolher uma música de fundo'}
+      >
+        <MusicIcon />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { tokenizeWords } from '../services/readAlong';
+
+interface ReadAlongTextProps {
+  text: string;
+  className: string;
+  // Palavra sendo narrada, ou -1 quando nenhuma está
+  activeWordIndex: number;
+  // Ausente quando a página não tem marcações válidas: o texto aparece sem destaque
+  onWordClick?: (index: number) => void;
+}
+
+export const ReadAlongText: React.FC<ReadAlongTextProps> = ({ text, className, activeWordIndex, onWordClick }) => {
+  const tokens = useMemo(() => tokenizeWords(text), [text]);
+
+  if (!onWordClick) {
+    return <p className={`leading-relaxed font-lora ${className}`}>{text}</p>;
+  }
+
+  return (
+    <p className={`leading-relaxed font-lora ${className}`}>
+      {text.slice(0, tokens[0]?.start ?? text.length)}
+      {tokens.map((token, index) => (
+        <React.Fragment key={index}>
+          <span
+            role="button"
+            tabIndex={0}
+            onClick={() => onWordClick(index)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                onWordClick(index);
+              }
+            }}
+            className={`cursor-pointer rounded px-0.5 -mx-0.5 transition-colors duration-150 ${index === activeWordIndex ? 'bg-purple-500/70 text-white' : 'hover:text-purple-200'}`}
+            title="Ouvir a partir daqui"
+          >
+            {token.word}
+          </span>
+          {text.slice(token.end, tokens[index + 1]?.start ?? text.length)}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+};
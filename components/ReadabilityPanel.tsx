@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import type { ReadingLevel } from '../types';
+import { analyzeReadability, describeFleschIndex, readingLevelIssues } from '../services/readability';
+import { READING_LEVELS } from '../services/readingLevels';
+import SparklesIcon from './icons/SparklesIcon';
+
+interface ReadabilityPanelProps {
+  text: string;
+  readingLevel: ReadingLevel | null;
+  onSimplify: () => void;
+  isSimplifying: boolean;
+  disabled: boolean;
+}
+
+export const ReadabilityPanel: React.FC<ReadabilityPanelProps> = ({ text, readingLevel, onSimplify, isSimplifying, disabled }) => {
+  const analysis = useMemo(() => analyzeReadability(text), [text]);
+  const issues = readingLevel ? readingLevelIssues(analysis, readingLevel) : [];
+
+  return (
+    <div className="mt-6 flex flex-col items-center text-xs text-gray-400 space-y-2">
+      <p>
+        Leitura {describeFleschIndex(analysis.fleschIndex)} (índice {Math.round(analysis.fleschIndex)})
+        {' · '}{analysis.words} palavras
+        {' · '}{analysis.wordsPerSentence.toFixed(1)} palavras por frase
+        {' · '}{Math.round(analysis.longWordRatio * 100)}% de palavras longas
+      </p>
+      {readingLevel && issues.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-amber-300">
+          <span>Acima do nível "{READING_LEVELS[readingLevel].label}": {issues.join(', ')}.</span>
+          <button
+            onClick={onSimplify}
+            disabled={disabled || isSimplifying}
+            className="flex items-center space-x-1.5 bg-amber-500/20 hover:bg-amber-500/30 border border-amber-400/40 text-amber-200 font-semibold py-1 px-3 rounded-full transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSimplifying ? <div className="w-4 h-4 border-2 border-t-amber-200 border-amber-700 rounded-full animate-spin"></div> : <SparklesIcon />}
+            <span>Simplificar</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
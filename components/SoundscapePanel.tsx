@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import type { PageSoundscape, SoundEffectId } from '../types';
+import { SOUND_EFFECTS, MAX_EFFECTS_PER_PAGE, createSoundscape } from '../services/soundLibrary';
+import SparklesIcon from './icons/SparklesIcon';
+import XIcon from './icons/XIcon';
+
+interface SoundscapePanelProps {
+  pageNumber: number;
+  // Ausente em páginas que ainda não passaram pela sonoplastia
+  soundscape: PageSoundscape | undefined;
+  onChange: (soundscape: PageSoundscape) => void;
+  onSuggest: () => void;
+  isSuggesting: boolean;
+  onClose: () => void;
+  disabled: boolean;
+}
+
+export const SoundscapePanel: React.FC<SoundscapePanelProps> = ({ pageNumber, soundscape, onChange, onSuggest, isSuggesting, onClose, disabled }) => {
+  const current = soundscape ?? { ...createSoundscape([]), enabled: false };
+  // O volume só é salvo ao soltar o controle, para arrastar não encher o histórico de desfazer
+  const [volume, setVolume] = useState(current.volume);
+  useEffect(() => setVolume(current.volume), [current.volume]);
+
+  const toggleEffect = (id: SoundEffectId) => {
+    const effects = current.effects.includes(id) ? current.effects.filter(effect => effect !== id) : [...current.effects, id];
+    onChange({ ...current, effects, enabled: effects.length > 0 });
+  };
+
+  const commitVolume = () => {
+    if (volume !== current.volume) onChange({ ...current, volume });
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-sm font-semibold text-purple-300">Sons da página {pageNumber}</p>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={current.enabled}
+              onChange={(e) => onChange({ ...current, enabled: e.target.checked })}
+              disabled={disabled || current.effects.length === 0}
+              className="accent-purple-500"
+            />
+            <span>Tocar com a narração</span>
+          </label>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar sons da página">
+            <XIcon />
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {SOUND_EFFECTS.map(effect => {
+          const selected = current.effects.includes(effect.id);
+          return (
+            <button
+              key={effect.id}
+              type="button"
+              onClick={() => toggleEffect(effect.id)}
+              disabled={disabled || (!selected && current.effects.length >= MAX_EFFECTS_PER_PAGE)}
+              className={`text-sm py-1 px-3 rounded-full border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${selected ? 'bg-purple-600/40 border-purple-400 text-white' : 'bg-gray-800/80 border-gray-600 text-gray-300 hover:border-purple-500'}`}
+            >
+              {effect.name}
+            </button>
+          );
+        })}
+      </div>
+      <label className="block mt-3 text-xs text-gray-400">
+        Volume dos sons: {Math.round(volume * 100)}%
+        <input
+          type="range"
+          min="0.05"
+          max="1"
+          step="0.05"
+          value={volume}
+          onChange={(e) => setVolume(Number(e.target.value))}
+          onPointerUp={commitVolume}
+          onKeyUp={commitVolume}
+          disabled={disabled || current.effects.length === 0}
+          className="w-full mt-1 accent-purple-500 disabled:opacity-50"
+        />
+      </label>
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">Até {MAX_EFFECTS_PER_PAGE} sons por página, que abaixam sozinhos quando alguém fala.</p>
+        <button
+          type="button"
+          onClick={onSuggest}
+          disabled={disabled || isSuggesting}
+          className="flex-shrink-0 flex items-center space-x-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSuggesting ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <SparklesIcon />}
+          <span>Sugerir sons</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import type { CastMember, CharacterBibleEntry, StoryBible, IllustrationStyle } from '../types';
+import { generateCharacterSheet } from '../services/aiProvider';
+import { withRetry } from '../services/retry';
+import RefreshIcon from './icons/RefreshIcon';
+import XIcon from './icons/XIcon';
+
+interface StoryBibleEditorProps {
+  bible: StoryBible;
+  cast: CastMember[];
+  illustrationStyle: IllustrationStyle;
+  onChange: (bible: StoryBible) => void;
+  disabled: boolean;
+}
+
+const fieldClassName = "w-full bg-gray-800/70 border border-gray-600 text-white text-sm rounded-lg p-2 resize-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 placeholder-gray-500";
+
+const characterFields: { key: keyof Omit<CharacterBibleEntry, 'name'>; label: string }[] = [
+  { key: 'appearance', label: 'Aparência' },
+  { key: 'outfit', label: 'Roupa' },
+  { key: 'palette', label: 'Cores' },
+];
+
+export const StoryBibleEditor: React.FC<StoryBibleEditorProps> = ({ bible, cast, illustrationStyle, onChange, disabled }) => {
+  const [isGeneratingSheet, setIsGeneratingSheet] = useState(false);
+
+  const updateCharacter = (index: number, changes: Partial<CharacterBibleEntry>) => {
+    onChange({
+      ...bible,
+      characters: bible.characters.map((entry, i) => i === index ? { ...entry, ...changes } : entry),
+    });
+  };
+
+  const handleGenerateSheet = async () => {
+    setIsGeneratingSheet(true);
+    try {
+      const characterSheet = await withRetry(() => generateCharacterSheet(bible, cast, illustrationStyle));
+      onChange({ ...bible, characterSheet });
+    } catch (error) {
+      console.error("Falha ao gerar a folha de personagens", error);
+      alert("Ocorreu um erro ao gerar a folha de personagens. Por favor, tente novamente.");
+    } finally {
+      setIsGeneratingSheet(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {bible.characters.map((entry, index) => (
+          <div key={index} className="bg-gray-900/50 border border-gray-600 rounded-lg p-3 space-y-2">
+            <input
+              type="text"
+              value={entry.name}
+              onChange={(e) => updateCharacter(index, { name: e.target.value })}
+              className={`${fieldClassName} font-semibold`}
+              aria-label="Nome do personagem"
+              disabled={disabled}
+            />
+            {characterFields.map(({ key, label }) => (
+              <label key={key} className="block">
+                <span className="block text-xs text-gray-400 mb-1">{label}</span>
+                <textarea
+                  value={entry[key]}
+                  onChange={(e) => updateCharacter(index, { [key]: e.target.value })}
+                  className={`${fieldClassName} h-14`}
+                  disabled={disabled}
+                />
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Paleta da história</span>
+          <textarea
+            value={bible.palette}
+            onChange={(e) => onChange({ ...bible, palette: e.target.value })}
+            className={`${fieldClassName} h-16`}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Cenário e detalhes do mundo</span>
+          <textarea
+            value={bible.setting}
+            onChange={(e) => onChange({ ...bible, setting: e.target.value })}
+            className={`${fieldClassName} h-16`}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4">
+        {bible.characterSheet && (
+          <div className="relative group w-40 aspect-video rounded-lg overflow-hidden border border-gray-600 bg-white">
+            <img src={bible.characterSheet} alt="Folha de personagens" className="w-full h-full object-contain" />
+            <button
+              type="button"
+              onClick={() => onChange({ ...bible, characterSheet: null })}
+              disabled={disabled}
+              className="absolute top-1 right-1 bg-red-600/80 text-white rounded-full p-1.5 opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label="Remover folha de personagens"
+            >
+              <XIcon />
+            </button>
+          </div>
+        )}
+        <div>
+          <button
+            type="button"
+            onClick={handleGenerateSheet}
+            disabled={disabled || isGeneratingSheet}
+            className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGeneratingSheet ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <RefreshIcon />}
+            <span>{bible.characterSheet ? 'Refazer folha de personagens' : 'Gerar folha de personagens'}</span>
+          </button>
+          <p className="mt-1 text-xs text-gray-500">Opcional: a folha vira a referência visual de todas as ilustrações.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,81 +1,145 @@
 
 import React, { useState, useRef } from 'react';
-import type { UploadedImage } from '../types';
-import UploadIcon from './icons/UploadIcon';
-import XIcon from './icons/XIcon';
+import type { CastMember, StoredStory, StoryBible, StoryRequest, IllustrationStyle, ReadingLevel, BookLanguage, StoryLanguage, ModerationIssue, ModerationStrictness } from '../types';
 import SparklesIcon from './icons/SparklesIcon';
 import FileUploadIcon from './icons/FileUploadIcon';
-import { suggestPlot } from '../services/geminiService';
+import { suggestPlot, generateStoryBible } from '../services/aiProvider';
+import { withRetry } from '../services/retry';
+import { createCastMember, normalizeCharacterName } from '../services/cast';
+import { describeBible } from '../services/storyBible';
+import { CastEditor } from './CastEditor';
+import { ModerationNotice } from './ModerationNotice';
+import { StoryBibleEditor } from './StoryBibleEditor';
+import { IllustrationStylePicker } from './IllustrationStylePicker';
+import { DEFAULT_ILLUSTRATION_STYLE } from '../services/illustrationStyles';
+import { READING_LEVELS, DEFAULT_READING_LEVEL } from '../services/readingLevels';
+import { STORY_LANGUAGES, DEFAULT_BOOK_LANGUAGE } from '../services/languages';
+import { MAX_IMAGE_CANDIDATES } from '../services/pageHistory';
+import { moderateText, assertAllowed, findModerationBlock, loadModerationSettings, saveModerationSettings, STRICTNESS_LEVELS } from '../services/moderation';
+import type { ModerationSettings } from '../services/moderation';
+import { loadGenerationSettings, saveGenerationSettings, MAX_CONCURRENCY } from '../services/generationScheduler';
+import type { GenerationSettings } from '../services/generationScheduler';
 
 interface StoryGeneratorFormProps {
-  onGenerate: (plot: string, numPages: number, characterImage: UploadedImage | null) => void;
+  onGenerate: (request: StoryRequest, generationSettings: GenerationSettings) => void;
+  onResume: (story: StoredStory, generationSettings: GenerationSettings) => void;
+  unfinishedStories: StoredStory[];
   isLoading: boolean;
 }
 
-const fileToUrlAndBase64 = (file: File): Promise<{ url: string; base64: string; mimeType: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const dataUrl = reader.result as string;
-      const base64 = dataUrl.split(',')[1];
-      resolve({ url: dataUrl, base64, mimeType: file.type });
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
-
-
-export const StoryGeneratorForm: React.FC<StoryGeneratorFormProps> = ({ onGenerate, isLoading }) => {
+// Personagens sem nome nem imagem são ignorados; os sem nome ganham um nome genérico
+const completeCast = (cast: CastMember[]): CastMember[] =>
+  cast
+    .filter(member => member.name.trim() || member.image)
+    .map((member, index) => ({
+      ...member,
+      name: member.name.trim() || `Personagem ${index + 1}`,
+      description: member.description.trim(),
+    }));
+
+export const StoryGeneratorForm: React.FC<StoryGeneratorFormProps> = ({ onGenerate, onResume, unfinishedStories, isLoading }) => {
   const [plot, setPlot] = useState('Quindim, uma quokka curiosa, encontra um mapa cintilante que leva a uma cachoeira escondida. No caminho, ele ajuda um passarinho com a asa machucada e compartilha suas nozes com um esquilo faminto. Ao chegar à cachoeira, ele descobre que a verdadeira magia não estava no destino, mas na bondade que ele espalhou pelo caminho.');
   const [numPages, setNumPages] = useState(5);
-  const [characterImage, setCharacterImage] = useState<{ url: string; base64: string; mimeType: string } | null>(null);
+  const [cast, setCast] = useState<CastMember[]>(() => [createCastMember()]);
   const [isSuggesting, setIsSuggesting] = useState(false);
+  const [bible, setBible] = useState<StoryBible | null>(null);
+  const [illustrationStyle, setIllustrationStyle] = useState<IllustrationStyle>(DEFAULT_ILLUSTRATION_STYLE);
+  const [imageCandidates, setImageCandidates] = useState(1);
+  const [readingLevel, setReadingLevel] = useState<ReadingLevel>(DEFAULT_READING_LEVEL);
+  const [language, setLanguage] = useState<BookLanguage>(DEFAULT_BOOK_LANGUAGE);
+  const [isCreatingBible, setIsCreatingBible] = useState(false);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [moderationSettings, setModerationSettings] = useState<ModerationSettings>(loadModerationSettings);
+  // Texto livre da lista de palavras, para não reformatar enquanto os pais digitam
+  const [blockedTermsText, setBlockedTermsText] = useState(() => moderationSettings.blockedTerms.join(', '));
+  const [moderationIssues, setModerationIssues] = useState<ModerationIssue[] | null>(null);
   
-  const characterFileInputRef = useRef<HTMLInputElement>(null);
   const scriptFileInputRef = useRef<HTMLInputElement>(null);
 
+  // Textos sugeridos pela IA passam pela mesma moderação do que os pais digitam
+  const showModerationBlock = (error: unknown) => {
+    const blocked = findModerationBlock(error);
+    if (blocked) {
+      setModerationIssues(blocked.issues);
+    }
+    return Boolean(blocked);
+  };
+
   const handleSuggestPlot = async () => {
     setIsSuggesting(true);
     try {
-      const imageToPass = characterImage ? { base64: characterImage.base64, mimeType: characterImage.mimeType } : null;
-      const suggestedPlot = await suggestPlot(imageToPass);
+      const suggestedPlot = await suggestPlot(completeCast(cast), language.primary);
+      assertAllowed(suggestedPlot, moderationSettings, readingLevel);
       setPlot(suggestedPlot);
     } catch (error) {
       console.error("Falha ao sugerir enredo", error);
+      if (showModerationBlock(error)) return;
       alert("Não foi possível sugerir um enredo. Por favor, verifique sua conexão ou tente novamente.");
     } finally {
       setIsSuggesting(false);
     }
   };
   
-  const handleCharacterImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const imageData = await fileToUrlAndBase64(file);
-      setCharacterImage(imageData);
-      
-      setIsSuggesting(true);
-      try {
-        const suggestedPlot = await suggestPlot({ base64: imageData.base64, mimeType: imageData.mimeType });
-        setPlot(suggestedPlot);
-      } catch (error) {
-        console.error("Falha ao auto-sugerir enredo", error);
-        alert("Não foi possível sugerir um enredo para a imagem. Por favor, insira um manualmente.");
-        setPlot('Uma aventura com o personagem da imagem.');
-      } finally {
-        setIsSuggesting(false);
-      }
+  const handleHeroImageAdded = async (updatedCast: CastMember[]) => {
+    setIsSuggesting(true);
+    try {
+      const suggestedPlot = await suggestPlot(completeCast(updatedCast), language.primary);
+      assertAllowed(suggestedPlot, moderationSettings, readingLevel);
+      setPlot(suggestedPlot);
+    } catch (error) {
+      console.error("Falha ao auto-sugerir enredo", error);
+      if (showModerationBlock(error)) return;
+      alert("Não foi possível sugerir um enredo para a imagem. Por favor, insira um manualmente.");
+      setPlot('Uma aventura com o personagem da imagem.');
+    } finally {
+      setIsSuggesting(false);
     }
   };
 
-  const removeCharacterImage = () => {
-    setCharacterImage(null);
-    if (characterFileInputRef.current) {
-        characterFileInputRef.current.value = "";
+  const handleCreateBible = async () => {
+    setIsCreatingBible(true);
+    try {
+      const generated = await withRetry(() => generateStoryBible(plot, completeCast(cast)));
+      assertAllowed(describeBible({ ...generated, characterSheet: null }), moderationSettings, readingLevel);
+      setBible({ ...generated, characterSheet: null });
+    } catch (error) {
+      console.error("Falha ao criar a bíblia de personagens", error);
+      if (showModerationBlock(error)) return;
+      alert("Não foi possível criar a bíblia de personagens. Por favor, tente novamente.");
+    } finally {
+      setIsCreatingBible(false);
     }
   };
 
+  // O idioma secundário nunca repete o principal
+  const handlePrimaryLanguageChange = (primary: StoryLanguage) => {
+    setLanguage(current => ({ primary, secondary: current.secondary === primary ? null : current.secondary }));
+  };
+
+  const updateGenerationSettings = (changes: Partial<GenerationSettings>) => {
+    const updated = { ...generationSettings, ...changes };
+    setGenerationSettings(updated);
+    saveGenerationSettings(updated);
+  };
+
+  const updateModerationSettings = (changes: Partial<ModerationSettings>) => {
+    const updated = { ...moderationSettings, ...changes };
+    setModerationSettings(updated);
+    saveModerationSettings(updated);
+  };
+
+  const handleBlockedTermsChange = (text: string) => {
+    setBlockedTermsText(text);
+    updateModerationSettings({ blockedTerms: text.split(/[,\n]/).map(term => term.trim()).filter(Boolean) });
+  };
+
+  // O roteiro entra no campo mesmo se for barrado, para que os pais possam corrigir o trecho
+  const applyScript = (script: string) => {
+    setPlot(script);
+    const result = moderateText(script, moderationSettings, readingLevel);
+    setModerationIssues(result.allowed ? null : result.issues);
+  };
+
   const handleScriptFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -83,7 +147,7 @@ export const StoryGeneratorForm: React.FC<StoryGeneratorFormProps> = ({ onGenera
     if (file.type === 'text/plain') {
         const reader = new FileReader();
         reader.onload = (event) => {
-            setPlot(event.target?.result as string);
+            applyScript(event.target?.result as string);
         };
         reader.readAsText(file);
     } else if (file.name.endsWith('.docx')) {
@@ -93,7 +157,7 @@ export const StoryGeneratorForm: React.FC<StoryGeneratorFormProps> = ({ onGenera
             if (arrayBuffer) {
                 window.mammoth.extractRawText({ arrayBuffer: arrayBuffer })
                     .then((result: { value: string; }) => {
-                        setPlot(result.value);
+                        applyScript(result.value);
                     })
                     .catch((err: any) => {
                         console.error("Erro ao ler docx:", err);
@@ -110,13 +174,51 @@ export const StoryGeneratorForm: React.FC<StoryGeneratorFormProps> = ({ onGenera
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (plot.trim() && numPages > 0) {
-      const imageToPass = characterImage ? { base64: characterImage.base64, mimeType: characterImage.mimeType } : null;
-      onGenerate(plot, numPages, imageToPass);
+      const completedCast = completeCast(cast);
+      // Cada personagem é reconhecido pelo nome nas falas e nas ilustrações, então nomes não podem se repetir
+      const names = completedCast.map(member => normalizeCharacterName(member.name));
+      const repeated = completedCast.find((member, index) => names.indexOf(names[index]) !== index);
+      if (repeated) {
+        alert(`Há mais de um personagem chamado "${repeated.name}". Dê um nome diferente para cada um.`);
+        return;
+      }
+      // A bíblia também pode ter sido editada à mão, então entra na conferência junto com o enredo
+      const result = moderateText([plot, ...completedCast.flatMap(member => [member.name, member.description]), bible ? describeBible(bible) : ''], moderationSettings, readingLevel);
+      if (!result.allowed) {
+        setModerationIssues(result.issues);
+        return;
+      }
+      setModerationIssues(null);
+      onGenerate({ plot, numPages, cast: completedCast, bible, illustrationStyle, imageCandidates, readingLevel, language }, generationSettings);
     }
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {unfinishedStories.length > 0 && !isLoading && (
+        <div className="bg-purple-900/30 border border-purple-700/50 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-purple-200">Estes livros ficaram pela metade. Continue de onde a magia parou:</p>
+          {unfinishedStories.map(story => {
+            const checkpoint = story.generation!;
+            const readyPages = story.pages.length;
+            return (
+              <div key={story.id} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-white font-semibold truncate">{story.title || 'Livro sem título'}</p>
+                  <p className="text-xs text-gray-400">{readyPages} de {checkpoint.numPages} páginas prontas</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onResume(story, generationSettings)}
+                  className="flex-shrink-0 bg-purple-600 hover:bg-purple-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  Continuar geração
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
       <div className="relative">
         <label htmlFor="plot" className="block text-sm font-semibold text-purple-300 mb-2">
           Qual é a Aventura de Hoje?
@@ -161,69 +263,202 @@ export const StoryGeneratorForm: React.FC<StoryGeneratorFormProps> = ({ onGenera
                 onChange={handleScriptFileChange}
             />
         </div>
+        {moderationIssues && (
+          <div className="mt-3">
+            <ModerationNotice issues={moderationIssues} onDismiss={() => setModerationIssues(null)} />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-semibold text-purple-300 mb-2">
+          Elenco da Aventura (Opcional)
+        </label>
+        <CastEditor cast={cast} onChange={setCast} onHeroImageAdded={handleHeroImageAdded} disabled={isLoading} />
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
-        <div className="md:col-span-1">
-          <label htmlFor="character-upload" className="block text-sm font-semibold text-purple-300 mb-2">
-            Seu Herói (Opcional)
+      <div>
+        <label className="block text-sm font-semibold text-purple-300 mb-2">
+          Estilo das Ilustrações
+        </label>
+        <IllustrationStylePicker style={illustrationStyle} onChange={setIllustrationStyle} disabled={isLoading} />
+        <label className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          <span>Opções de ilustração por página:</span>
+          <select
+            value={imageCandidates}
+            onChange={(e) => setImageCandidates(parseInt(e.target.value, 10))}
+            className="bg-gray-900/50 border border-gray-600 text-white text-sm rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            disabled={isLoading}
+          >
+            {Array.from({ length: MAX_IMAGE_CANDIDATES }, (_, i) => i + 1).map(count => (
+              <option key={count} value={count}>{count === 1 ? '1 (sem escolha)' : count}</option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500">Com mais de uma, você escolhe a favorita de cada página depois. Gasta mais chamadas de imagem.</span>
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-semibold text-purple-300">
+            Bíblia de Personagens (Opcional)
           </label>
-           <div 
-                className="relative mt-1 group w-full aspect-square flex justify-center items-center p-2 border-2 border-gray-600 border-dashed rounded-full cursor-pointer hover:border-purple-500 transition-colors bg-gray-900/50"
-                onClick={() => !characterImage && characterFileInputRef.current?.click()}
+          {bible && (
+            <button
+              type="button"
+              onClick={() => setBible(null)}
+              disabled={isLoading}
+              className="text-xs text-gray-400 hover:text-red-400 disabled:opacity-50 transition-colors"
             >
-                <input
-                    id="character-upload"
-                    ref={characterFileInputRef}
-                    type="file"
-                    className="sr-only"
-                    accept="image/png, image/jpeg, image/webp"
-                    onChange={handleCharacterImageChange}
-                    disabled={isLoading}
-                />
-                {characterImage ? (
-                    <>
-                        <img src={characterImage.url} alt="Pré-visualização do personagem" className="h-full w-full object-cover rounded-full" />
-                        <button
-                            type="button"
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                removeCharacterImage();
-                            }}
-                            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-red-600/80 text-white rounded-full p-3 opacity-0 group-hover:opacity-100 transition-opacity z-10"
-                            aria-label="Remover imagem"
-                            disabled={isLoading}
-                        >
-                            <XIcon />
-                        </button>
-                        <div className="absolute inset-0 rounded-full bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity"></div>
-                    </>
-                ) : (
-                    <div className="text-center">
-                        <UploadIcon />
-                        <p className="mt-2 text-xs text-gray-400">
-                            <span className="font-semibold text-purple-400">Clique para enviar</span>
-                        </p>
-                    </div>
-                )}
-            </div>
+              Descartar bíblia
+            </button>
+          )}
         </div>
-        <div className="md:col-span-2">
-          <label htmlFor="numPages" className="block text-sm font-semibold text-purple-300 mb-2">
-            Capítulos da Aventura
-          </label>
-          <input
-            id="numPages"
-            type="number"
-            value={numPages}
-            onChange={(e) => setNumPages(Math.max(1, parseInt(e.target.value, 10)) || 1)}
-            min="1"
-            max="50"
-            className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition duration-200 mt-1 placeholder-gray-500"
-            required
-            disabled={isLoading}
-          />
+        <p className="text-xs text-gray-400 mb-3">
+          Descreve a aparência, as roupas e as cores de cada personagem e do mundo, para que as ilustrações fiquem iguais em todas as páginas. Revise à vontade antes de criar o livro.
+        </p>
+        {bible ? (
+          <StoryBibleEditor bible={bible} cast={completeCast(cast)} illustrationStyle={illustrationStyle} onChange={setBible} disabled={isLoading} />
+        ) : (
+          <button
+            type="button"
+            onClick={handleCreateBible}
+            disabled={isLoading || isCreatingBible || !plot.trim()}
+            className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isCreatingBible ? <div className="w-5 h-5 border-2 border-t-purple-400 border-gray-600 rounded-full animate-spin"></div> : <SparklesIcon />}
+            <span>Criar Bíblia de Personagens</span>
+          </button>
+        )}
+      </div>
+
+      <div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="numPages" className="block text-sm font-semibold text-purple-300 mb-2">
+              Capítulos da Aventura
+            </label>
+            <input
+              id="numPages"
+              type="number"
+              value={numPages}
+              onChange={(e) => setNumPages(Math.max(1, parseInt(e.target.value, 10)) || 1)}
+              min="1"
+              max="50"
+              className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition duration-200 mt-1 placeholder-gray-500"
+              required
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <label htmlFor="readingLevel" className="block text-sm font-semibold text-purple-300 mb-2">
+              Idade do Leitor
+            </label>
+            <select
+              id="readingLevel"
+              value={readingLevel}
+              onChange={(e) => setReadingLevel(e.target.value as ReadingLevel)}
+              className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition duration-200 mt-1"
+              disabled={isLoading}
+            >
+              {(Object.keys(READING_LEVELS) as ReadingLevel[]).map(level => (
+                <option key={level} value={level}>{READING_LEVELS[level].label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="primaryLanguage" className="block text-sm font-semibold text-purple-300 mb-2">
+              Idioma do Livro
+            </label>
+            <select
+              id="primaryLanguage"
+              value={language.primary}
+              onChange={(e) => handlePrimaryLanguageChange(e.target.value as StoryLanguage)}
+              className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition duration-200 mt-1"
+              disabled={isLoading}
+            >
+              {(Object.keys(STORY_LANGUAGES) as StoryLanguage[]).map(code => (
+                <option key={code} value={code}>{STORY_LANGUAGES[code].label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="secondaryLanguage" className="block text-sm font-semibold text-purple-300 mb-2">
+              Edição Bilíngue
+            </label>
+            <select
+              id="secondaryLanguage"
+              value={language.secondary ?? ''}
+              onChange={(e) => setLanguage({ ...language, secondary: (e.target.value || null) as StoryLanguage | null })}
+              className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition duration-200 mt-1"
+              disabled={isLoading}
+            >
+              <option value="">Só um idioma</option>
+              {(Object.keys(STORY_LANGUAGES) as StoryLanguage[]).filter(code => code !== language.primary).map(code => (
+                <option key={code} value={code}>Com {STORY_LANGUAGES[code].label}</option>
+              ))}
+            </select>
+          </div>
         </div>
+        <details className="mt-4 text-sm text-gray-300">
+          <summary className="cursor-pointer font-semibold text-purple-300">Velocidade da Magia</summary>
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Páginas criadas ao mesmo tempo: {generationSettings.concurrency}</span>
+              <input
+                type="range"
+                min="1"
+                max={MAX_CONCURRENCY}
+                value={generationSettings.concurrency}
+                onChange={(e) => updateGenerationSettings({ concurrency: parseInt(e.target.value, 10) })}
+                className="w-full accent-purple-500"
+                disabled={isLoading}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Pedidos por minuto (0 = sem limite)</span>
+              <input
+                type="number"
+                min="0"
+                value={generationSettings.requestsPerMinute}
+                onChange={(e) => updateGenerationSettings({ requestsPerMinute: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                disabled={isLoading}
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Se a sua chave de API tiver uma cota baixa, diminua os valores para evitar erros.</p>
+        </details>
+        <details className="mt-4 text-sm text-gray-300">
+          <summary className="cursor-pointer font-semibold text-purple-300">Controle dos Pais</summary>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Nível de proteção</span>
+              <select
+                value={moderationSettings.strictness}
+                onChange={(e) => updateModerationSettings({ strictness: e.target.value as ModerationStrictness })}
+                className="w-full bg-gray-900/50 border border-gray-600 text-white rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                disabled={isLoading}
+              >
+                {(Object.keys(STRICTNESS_LEVELS) as ModerationStrictness[]).map(level => (
+                  <option key={level} value={level}>{STRICTNESS_LEVELS[level].label}</option>
+                ))}
+              </select>
+              <span className="block mt-1 text-xs text-gray-500">{STRICTNESS_LEVELS[moderationSettings.strictness].description}</span>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Outras palavras a evitar (separadas por vírgula)</span>
+              <textarea
+                value={blockedTermsText}
+                onChange={(e) => handleBlockedTermsChange(e.target.value)}
+                className="w-full h-20 bg-gray-900/50 border border-gray-600 text-white rounded-lg p-2 resize-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 placeholder-gray-500"
+                placeholder="ex.: bruxa, escuro"
+                disabled={isLoading}
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">O enredo, os roteiros carregados e todo texto criado pela IA passam por essa verificação antes de entrar no livro.</p>
+        </details>
       </div>
       <button
         type="submit"
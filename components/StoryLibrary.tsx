@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { StoredStory } from '../types';
+import { listStories, renameStory, duplicateStory, deleteStory, saveStory } from '../services/libraryService';
+import { importStoryBundle, BUNDLE_EXTENSION } from '../services/bundleService';
+import BookIcon from './icons/BookIcon';
+import PencilIcon from './icons/PencilIcon';
+import DuplicateIcon from './icons/DuplicateIcon';
+import TrashIcon from './icons/TrashIcon';
+import FileUploadIcon from './icons/FileUploadIcon';
+
+interface StoryLibraryProps {
+  currentStoryId: string | null;
+  onOpenStory: (story: StoredStory) => void;
+  onStoryRenamed: (story: StoredStory) => void;
+  onStoryDeleted: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+export const StoryLibrary: React.FC<StoryLibraryProps> = ({ currentStoryId, onOpenStory, onStoryRenamed, onStoryDeleted }) => {
+  const [stories, setStories] = useState<StoredStory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyStoryId, setBusyStoryId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshStories = useCallback(async () => {
+    try {
+      setStories(await listStories());
+    } catch (error) {
+      console.error("Falha ao carregar a biblioteca", error);
+      alert("Não foi possível abrir a sua biblioteca de histórias.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStories();
+  }, [refreshStories]);
+
+  const handleRename = async (story: StoredStory) => {
+    const newTitle = prompt("Novo título do livro:", story.title)?.trim();
+    if (!newTitle || newTitle === story.title) return;
+
+    setBusyStoryId(story.id);
+    try {
+      const renamed = await renameStory(story.id, newTitle);
+      onStoryRenamed(renamed);
+      await refreshStories();
+    } catch (error) {
+      console.error("Falha ao renomear história", error);
+      alert("Ocorreu um erro ao renomear o livro.");
+    } finally {
+      setBusyStoryId(null);
+    }
+  };
+
+  const handleDuplicate = async (story: StoredStory) => {
+    setBusyStoryId(story.id);
+    try {
+      await duplicateStory(story.id);
+      await refreshStories();
+    } catch (error) {
+      console.error("Falha ao duplicar história", error);
+      alert("Ocorreu um erro ao duplicar o livro.");
+    } finally {
+      setBusyStoryId(null);
+    }
+  };
+
+  const handleDelete = async (story: StoredStory) => {
+    if (!confirm(`Excluir "${story.title}" da sua biblioteca? Esta ação não pode ser desfeita.`)) return;
+
+    setBusyStoryId(story.id);
+    try {
+      await deleteStory(story.id);
+      onStoryDeleted(story.id);
+      await refreshStories();
+    } catch (error) {
+      console.error("Falha ao excluir história", error);
+      alert("Ocorreu um erro ao excluir o livro.");
+    } finally {
+      setBusyStoryId(null);
+    }
+  };
+
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const story = await importStoryBundle(file);
+      await saveStory(story);
+      await refreshStories();
+    } catch (error) {
+      console.error("Falha ao importar livro", error);
+      alert(error instanceof Error ? error.message : "Não foi possível importar o livro.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const importToolbar = (
+    <div className="flex justify-end mb-6">
+      <button
+        onClick={() => importInputRef.current?.click()}
+        disabled={isImporting}
+        className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isImporting ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <FileUploadIcon />}
+        <span>Importar Livro</span>
+      </button>
+      <input
+        type="file"
+        ref={importInputRef}
+        className="sr-only"
+        accept={`.${BUNDLE_EXTENSION},.zip`}
+        onChange={handleImportFileChange}
+      />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="w-8 h-8 border-4 border-t-purple-400 border-gray-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (stories.length === 0) {
+    return (
+      <>
+        {importToolbar}
+        <div className="text-center text-gray-400 p-8">
+          <p className="text-lg">Sua estante ainda está vazia.</p>
+          <p className="mt-2 text-sm">Os livros que você criar serão guardados aqui automaticamente.</p>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+    {importToolbar}
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      {stories.map(story => {
+        const coverUrl = story.pages.find(page => page.imageUrl)?.imageUrl;
+        const isBusy = busyStoryId === story.id;
+        return (
+          <div key={story.id} className="bg-gray-900/50 border border-gray-700 rounded-xl overflow-hidden flex flex-col">
+            <button
+              onClick={() => onOpenStory(story)}
+              className="relative aspect-video bg-gray-800 group"
+              title="Abrir livro"
+            >
+              {coverUrl ? (
+                <img src={coverUrl} alt={story.title} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-500">
+                  <BookIcon />
+                </div>
+              )}
+              {story.status === 'in-progress' && (
+                <span className="absolute top-2 left-2 bg-yellow-600/90 text-white text-xs font-semibold px-2 py-1 rounded-full">
+                  Inacabado
+                </span>
+              )}
+            </button>
+            <div className="p-4 flex flex-col flex-grow">
+              <h3 className="font-lora font-bold text-lg text-white">
+                {story.title || 'Livro sem título'}
+                {story.id === currentStoryId && <span className="ml-2 text-xs text-purple-300 font-nunito">(aberto)</span>}
+              </h3>
+              <p className="text-xs text-gray-400 mt-1">
+                {story.pages.length} {story.pages.length === 1 ? 'página' : 'páginas'} · {formatDate(story.updatedAt)}
+              </p>
+              <div className="flex items-center space-x-2 mt-auto pt-4">
+                <button
+                  onClick={() => handleRename(story)}
+                  disabled={isBusy}
+                  className="p-2 bg-gray-700 rounded-lg hover:bg-purple-500 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Renomear"
+                >
+                  <PencilIcon />
+                </button>
+                <button
+                  onClick={() => handleDuplicate(story)}
+                  disabled={isBusy}
+                  className="p-2 bg-gray-700 rounded-lg hover:bg-purple-500 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Duplicar"
+                >
+                  <DuplicateIcon />
+                </button>
+                <button
+                  onClick={() => handleDelete(story)}
+                  disabled={isBusy}
+                  className="p-2 bg-gray-700 rounded-lg hover:bg-red-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Excluir"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+    </>
+  );
+};
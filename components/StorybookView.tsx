@@ -1,7 +1,12 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { StoryPageData, PrebuiltVoice, GenerationStatus, UploadedImage } from '../types';
-import { generateSpeech, generateImage, generateCoverAudio } from '../services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { StoryPageData, PrebuiltVoice, GenerationStatus, CastMember, StoryBible, IllustrationStyle, ReadingLevel, AssetStatus, BookLanguage, NarrationTimings, VoiceCast, DialogueSegment, BackgroundMusic } from '../types';
+import { generateSpeech, generateImage, generateCoverAudio, simplifyPageText, generateInsertedPage, designSoundscape } from '../services/aiProvider';
+import { decode, pcmToFloat32, TTS_SAMPLE_RATE } from '../services/audioUtils';
+import { createAudioEngine, loadPlaybackSettings, savePlaybackSettings, IDLE_PLAYBACK } from '../services/audioEngine';
+import type { AudioEngine, PlaybackSettings, PlaybackState } from '../services/audioEngine';
+import { musicSamples } from '../services/musicBed';
+import { soundscapeSamples, createSoundscape, DEFAULT_SOUNDSCAPE_VOLUME } from '../services/soundLibrary';
 import ChevronLeftIcon from './icons/ChevronLeftIcon';
 import ChevronRightIcon from './icons/ChevronRightIcon';
 import PrinterIcon from './icons/PrinterIcon';
@@ -11,93 +16,159 @@ import PauseIcon from './icons/PauseIcon';
 import VideoIcon from './icons/VideoIcon';
 import DownloadIcon from './icons/DownloadIcon';
 import RefreshIcon from './icons/RefreshIcon';
+import PencilIcon from './icons/PencilIcon';
+import DuplicateIcon from './icons/DuplicateIcon';
 import SpeakerIcon from './icons/SpeakerIcon';
+import ArchiveIcon from './icons/ArchiveIcon';
+import BookIcon from './icons/BookIcon';
+import SparklesIcon from './icons/SparklesIcon';
+import HistoryIcon from './icons/HistoryIcon';
+import UndoIcon from './icons/UndoIcon';
+import RedoIcon from './icons/RedoIcon';
+import { PdfExportPanel } from './PdfExportPanel';
+import { AudiobookExportPanel } from './AudiobookExportPanel';
+import { ReadabilityPanel } from './ReadabilityPanel';
+import { PageOrganizer } from './PageOrganizer';
+import { VersionGallery } from './VersionGallery';
+import { ImageCandidateGrid } from './ImageCandidateGrid';
+import { ReadAlongText } from './ReadAlongText';
+import { AutoplayControls } from './AutoplayControls';
+import { VoiceCastingPanel } from './VoiceCastingPanel';
+import { PlaybackBar } from './PlaybackBar';
+import { MusicPanel } from './MusicPanel';
+import { SoundscapePanel } from './SoundscapePanel';
+import { VideoScenesPanel } from './VideoScenesPanel';
+import WavesIcon from './icons/WavesIcon';
+import MoonIcon from './icons/MoonIcon';
+import { buildEpub } from '../services/epubService';
+import { downloadBlob, toFileName } from '../services/fileUtils';
+import { withRetry } from '../services/retry';
+import { applyBibleToImagePrompt, imageReferencesForPage } from '../services/storyBible';
+import { STORY_LANGUAGES } from '../services/languages';
+import { recordPageChange, countPageVersions, chooseImageCandidate } from '../services/pageHistory';
+import { AVAILABLE_VOICES, VOICE_NAMES } from '../services/voices';
+import { pageDialogue, listSpeakers, speakerVoices } from '../services/dialogue';
+import { narrateDialogue } from '../services/dialogueNarration';
+import { estimateWordTimings, timingsMatch, wordIndexAt, tokenizeWords } from '../services/readAlong';
+import { moderateText, assertAllowed, findModerationBlock, loadModerationSettings, explainModeration } from '../services/moderation';
+import { movePage, removePage, insertPage, splitPage, mergePages, renumberPages, hasPendingAssets } from '../services/pageStructure';
 
 interface StorybookViewProps {
   title: string;
+  plot: string;
   pages: StoryPageData[];
-  onUpdatePage: (updatedPage: StoryPageData) => void;
-  characterImage: UploadedImage | null;
+  onUpdatePage: (pageNumber: number, update: (current: StoryPageData) => StoryPageData) => void;
+  // Guarda as marcações da leitura acompanhada, calculadas a partir do áudio, sem criar um passo de desfazer
+  onStoreWordTimings: (page: StoryPageData, timings: Pick<StoryPageData, 'wordTimings' | 'secondaryWordTimings'>) => void;
+  // Substitui a lista inteira, já renumerada, depois de uma mudança de estrutura
+  onPagesChange: (pages: StoryPageData[]) => void;
+  // Durante a geração (ou com uma geração interrompida por retomar) as páginas ainda estão chegando,
+  // então a estrutura não pode mudar
+  isGenerating: boolean;
+  cast: CastMember[];
+  bible: StoryBible | null;
+  illustrationStyle: IllustrationStyle | null;
+  readingLevel: ReadingLevel | null;
+  language: BookLanguage;
+  voice: PrebuiltVoice;
+  onVoiceChange: (voice: PrebuiltVoice) => void;
+  voiceCast: VoiceCast;
+  onVoiceCastChange: (voiceCast: VoiceCast) => void;
+  coverAudioData: string | null;
+  onCoverAudioChange: (audioData: string) => void;
+  backgroundMusic: BackgroundMusic | null;
+  onBackgroundMusicChange: (music: BackgroundMusic | null) => void;
   videoUrl: string | null;
   videoGenerationStatus: GenerationStatus;
-  onGenerateVideo: () => void;
+  onGenerateVideo: (pageNumbers: number[]) => void;
+  onExportBundle: () => Promise<void>;
+  // Desfazer e refazer valem para o livro inteiro, não só para a página aberta
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
-const availableVoices: PrebuiltVoice[] = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
-const voiceNames: Record<PrebuiltVoice, string> = {
-  Kore: 'Coreia',
-  Puck: 'Puck',
-  Charon: 'Caronte',
-  Fenrir: 'Fenrir',
-  Zephyr: 'Zéfiro',
-}
+// Faixas de narração de uma página: a do idioma principal e, em livros bilíngues, a do secundário
+type NarrationTrack = 'primary' | 'secondary';
 
-// Helpers para decodificar áudio
-function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
+// Texto de onde a narração em uso foi gravada, que pode ser anterior a uma edição da página
+const narrationText = (page: StoryPageData, track: NarrationTrack) => track === 'primary'
+  ? page.history?.current.narration?.text ?? page.text
+  : page.history?.current.secondaryNarration?.text ?? page.secondaryText ?? '';
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
+const trackAudio = (page: StoryPageData, track: NarrationTrack) => track === 'primary' ? page.audioData : page.secondaryAudioData;
+
+// Campos editáveis da página enquanto o modo de edição está aberto
+interface PageDraft {
+  text: string;
+  secondaryText?: string;
+  imagePrompt: string;
 }
 
+// Tempos do modo hora de dormir, em segundos: capa sem narração, ilustração e respiro antes de virar a página
+const AUTOPLAY_COVER_SECONDS = 4;
+const AUTOPLAY_ILLUSTRATION_SECONDS = 5;
+const AUTOPLAY_PAGE_TURN_SECONDS = 1.5;
+// Páginas sem narração ficam na tela o tempo de uma leitura em voz alta
+const AUTOPLAY_SECONDS_PER_WORD = 0.5;
+
+// Voz de cada trecho, para saber quais páginas mudam de som quando as vozes são trocadas
+const segmentVoices = (segments: DialogueSegment[], narrator: PrebuiltVoice, voices: Record<string, PrebuiltVoice>) =>
+  segments.map(segment => segment.speaker ? voices[segment.speaker] ?? narrator : narrator).join(',');
+
+const editorClassName = "w-full bg-gray-900/70 border border-gray-600 text-white rounded-lg p-3 resize-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
 
-export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUpdatePage, characterImage, videoUrl, videoGenerationStatus, onGenerateVideo }) => {
+const countStaleAssets = (pages: StoryPageData[]) =>
+  pages.reduce((total, p) => total
+    + (p.imageStatus === 'stale' ? 1 : 0)
+    + (p.audioStatus === 'stale' ? 1 : 0)
+    + (p.secondaryAudioStatus === 'stale' ? 1 : 0), 0);
+
+export const StorybookView: React.FC<StorybookViewProps> = ({ title, plot, pages, onUpdatePage, onStoreWordTimings, onPagesChange, isGenerating, cast, bible, illustrationStyle, readingLevel, language, voice: selectedVoice, onVoiceChange, voiceCast, onVoiceCastChange, coverAudioData, onCoverAudioChange, backgroundMusic, onBackgroundMusicChange, videoUrl, videoGenerationStatus, onGenerateVideo, onExportBundle, onUndo, onRedo, canUndo, canRedo }) => {
   const [currentViewIndex, setCurrentViewIndex] = useState(0); // 0: Capa, 1: Imagem P1, 2: Texto P1, 3: Imagem P2, ...
   const [direction, setDirection] = useState<'next' | 'prev' | null>(null);
   const [copyStatus, setCopyStatus] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState<PrebuiltVoice>('Kore');
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  const [isExportingEpub, setIsExportingEpub] = useState(false);
+  const [isPdfPanelOpen, setIsPdfPanelOpen] = useState(false);
+  const [isAudiobookPanelOpen, setIsAudiobookPanelOpen] = useState(false);
+  // O que o motor de áudio está tocando: uma faixa da página ou a capa
+  const [playback, setPlayback] = useState<PlaybackState>(IDLE_PLAYBACK);
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [isMusicPanelOpen, setIsMusicPanelOpen] = useState(false);
+  const [isSoundscapePanelOpen, setIsSoundscapePanelOpen] = useState(false);
+  const [isVideoPanelOpen, setIsVideoPanelOpen] = useState(false);
+  const [isSuggestingSounds, setIsSuggestingSounds] = useState(false);
+  const [readAlongTimings, setReadAlongTimings] = useState<Partial<Record<NarrationTrack, NarrationTimings>>>({});
+  const [activeWordIndex, setActiveWordIndex] = useState(-1);
+  // Modo hora de dormir: o livro se lê sozinho, virando as páginas quando cada narração termina
+  const [isAutoplaying, setIsAutoplaying] = useState(false);
+  const [isAutoplayPaused, setIsAutoplayPaused] = useState(false);
+  const [sleepTimerEndsAt, setSleepTimerEndsAt] = useState<number | null>(null);
   const [isRegeneratingAudio, setIsRegeneratingAudio] = useState(false);
   const [isRegeneratingImage, setIsRegeneratingImage] = useState<number | null>(null);
+  const [isSimplifying, setIsSimplifying] = useState(false);
+  const [draft, setDraft] = useState<PageDraft | null>(null);
+  const [isRefreshingStale, setIsRefreshingStale] = useState(false);
+  const [isOrganizerOpen, setIsOrganizerOpen] = useState(false);
+  const [isRestructuring, setIsRestructuring] = useState(false);
+  const [insertingIndex, setInsertingIndex] = useState<number | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCandidateGridOpen, setIsCandidateGridOpen] = useState(false);
+  const [isVoicePanelOpen, setIsVoicePanelOpen] = useState(false);
+  const [isGeneratingCandidates, setIsGeneratingCandidates] = useState(false);
 
   // Áudio da capa
-  const [coverAudioData, setCoverAudioData] = useState<string | null>(null);
   const [isGeneratingCoverAudio, setIsGeneratingCoverAudio] = useState(false);
-  const [isCoverAudioPlaying, setIsCoverAudioPlaying] = useState(false);
-  
-  // Refs de áudio da página
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
-  
-  // Refs de áudio da capa
-  const coverAudioContextRef = useRef<AudioContext | null>(null);
-  const coverAudioSourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const coverAudioBufferRef = useRef<AudioBuffer | null>(null);
 
-  // Efeito para limpar o AudioContext ao desmontar o componente para evitar vazamentos de recursos
-  useEffect(() => {
-    return () => {
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close().catch(console.error);
-      }
-      if (coverAudioContextRef.current && coverAudioContextRef.current.state !== 'closed') {
-        coverAudioContextRef.current.close().catch(console.error);
-      }
-    };
-  }, []);
+  // Um só motor toca a capa e as páginas, então tocar uma coisa sempre interrompe a outra
+  const engineRef = useRef<AudioEngine | null>(null);
+  // Avisado quando uma narração termina sozinha, com a faixa da página ou nulo para a capa
+  const onNarrationEndRef = useRef<((track: NarrationTrack | null) => void) | null>(null);
+  // Espelhos lidos pelos temporizadores do modo hora de dormir, que não devem reiniciar a página ao mudar
+  const isAutoplayPausedRef = useRef(false);
+  const sleepTimerEndsAtRef = useRef<number | null>(null);
 
   const totalPages = pages.length;
   const totalViews = 1 + totalPages * 2;
@@ -108,46 +179,126 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
   const pageIndex = isCover ? -1 : Math.floor((currentViewIndex - 1) / 2);
   const page = pages[pageIndex] ?? null;
 
-  // Efeito para redefinir o áudio da capa quando uma nova história é carregada
+  const music = useMemo(() => backgroundMusic ? musicSamples(backgroundMusic) : null, [backgroundMusic]);
+  // Os sons ambientes acompanham a página aberta, na ilustração e no texto
+  const soundscape = page?.soundscape;
+  const ambience = useMemo(() => soundscape ? soundscapeSamples(soundscape) : null, [soundscape]);
+
+  const getEngine = () => {
+    if (!engineRef.current) {
+      engineRef.current = createAudioEngine(setPlayback);
+      engineRef.current.setSettings(playbackSettings);
+      engineRef.current.setMusic(music, backgroundMusic?.volume ?? 0);
+      engineRef.current.setAmbience(ambience, soundscape?.volume ?? 0);
+    }
+    return engineRef.current;
+  };
+
+  // Efeito para liberar o motor de áudio ao desmontar o componente para evitar vazamentos de recursos
+  useEffect(() => {
+    return () => engineRef.current?.dispose();
+  }, []);
+
+  useEffect(() => {
+    engineRef.current?.setMusic(music, backgroundMusic?.volume ?? 0);
+  }, [music, backgroundMusic?.volume]);
+
+  useEffect(() => {
+    engineRef.current?.setAmbience(ambience, soundscape?.volume ?? 0);
+  }, [ambience, soundscape?.volume]);
+
+  const playingTrack = playback.status === 'playing' && playback.clip !== 'cover' ? playback.clip as NarrationTrack | null : null;
+  const isCoverAudioPlaying = playback.status === 'playing' && playback.clip === 'cover';
+
+  // Falas de cada página e a voz de cada personagem, para a narração e o painel de vozes
+  const castNames = useMemo(() => cast.map(member => member.name), [cast]);
+  const pageDialogues = useMemo(() => pages.map(p => pageDialogue(p, castNames)), [pages, castNames]);
+  const speakers = useMemo(() => listSpeakers(castNames, pageDialogues), [castNames, pageDialogues]);
+  const voices = speakerVoices(speakers, voiceCast, selectedVoice);
+
+  // Páginas excluídas ou unidas podem deixar a visualização atual além do fim do livro
+  useEffect(() => {
+    setCurrentViewIndex(index => Math.min(index, totalViews - 1));
+  }, [totalViews]);
+
+  // Uma nova narração da capa (inclusive ao reabrir um livro da biblioteca) interrompe a antiga
   useEffect(() => {
-    setCoverAudioData(null);
-    setIsCoverAudioPlaying(false);
-    if (coverAudioSourceNodeRef.current) {
-      coverAudioSourceNodeRef.current.stop();
-      coverAudioSourceNodeRef.current = null;
+    if (engineRef.current?.getState().clip === 'cover') {
+      engineRef.current.stop();
     }
-    coverAudioBufferRef.current = null;
-  }, [pages]);
+  }, [coverAudioData]);
 
   useEffect(() => {
     // Para qualquer mudança de visualização, pare o áudio
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current.disconnect();
-      sourceNodeRef.current = null;
-    }
-    setIsPlaying(false);
-    audioBufferRef.current = null;
-    
-    // Para o áudio da capa se não estivermos na capa
-    if (!isCover && coverAudioSourceNodeRef.current) {
-        coverAudioSourceNodeRef.current.stop();
-    }
-
-    // Se for uma visualização de texto, prepare o novo áudio
-    if (isTextView && page?.audioData) {
-      if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    engineRef.current?.stop();
+    setReadAlongTimings({});
+
+    // Se for uma visualização de texto, prepare as marcações da leitura acompanhada
+    if (!isTextView || !page) return;
+    const timingsByTrack: Partial<Record<NarrationTrack, NarrationTimings>> = {};
+    (['primary', 'secondary'] as NarrationTrack[]).forEach(track => {
+      const audioData = trackAudio(page, track);
+      if (!audioData) return;
+      const samples = pcmToFloat32(decode(audioData));
+      const stored = track === 'primary' ? page.wordTimings : page.secondaryWordTimings;
+      const text = narrationText(page, track);
+      const timings = timingsMatch(stored, text, samples.length / TTS_SAMPLE_RATE) ? stored : estimateWordTimings(text, samples, TTS_SAMPLE_RATE);
+      if (timings !== stored) {
+        onStoreWordTimings(page, track === 'primary' ? { wordTimings: timings } : { secondaryWordTimings: timings });
       }
-      const ctx = audioContextRef.current;
-      decodeAudioData(decode(page.audioData), ctx, 24000, 1)
-        .then(buffer => {
-          audioBufferRef.current = buffer;
-        })
-        .catch(err => console.error("Falha ao decodificar áudio", err));
+      timingsByTrack[track] = timings;
+    });
+    setReadAlongTimings(timingsByTrack);
+  // Só a troca de visualização ou de áudio reinicia a narração; editar o texto mantém o que já foi preparado
+  }, [currentViewIndex, page?.audioData, page?.secondaryAudioData, isCover]);
+
+  // Acompanha a narração quadro a quadro para acender a palavra sendo falada; na pausa a palavra fica acesa
+  useEffect(() => {
+    const track = playback.clip === 'cover' ? null : playback.clip as NarrationTrack | null;
+    const timings = track && readAlongTimings[track];
+    if (!timings || playback.status === 'idle') {
+      setActiveWordIndex(-1);
+      return;
     }
+    if (playback.status === 'paused') return;
+    let frame = 0;
+    const tick = () => {
+      if (engineRef.current) {
+        setActiveWordIndex(wordIndexAt(timings, engineRef.current.getPosition()));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playback, readAlongTimings]);
+
+  // Tarefas de uma página aplicam o resultado pelo número da página, que não pode mudar enquanto elas rodam
+  const isPageJobRunning = isRegeneratingAudio || isRegeneratingImage !== null || isSimplifying || isGeneratingCandidates || isSuggestingSounds;
 
-  }, [currentViewIndex, page, isCover]);
+  // Enquanto o livro é gerado, cada página que fica pronta substitui a lista inteira e levaria junto o que fosse mudado aqui
+  const isPageLocked = isGenerating || isPageJobRunning;
+
+  // Enquanto recursos estão sendo refeitos, voltar a lista faria as respostas caírem em páginas trocadas
+  // e a tarefa, ao terminar, desfaria em silêncio o que acabou de ser desfeito ou refeito
+  const isUndoLocked = isRestructuring || isRefreshingStale || isPageLocked;
+
+  // Atalhos de desfazer e refazer; dentro de campos de texto ficam com o navegador
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || draft || isUndoLocked) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && canUndo) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'y' || (key === 'z' && e.shiftKey)) && canRedo) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draft, isUndoLocked, canUndo, canRedo, onUndo, onRedo]);
 
   const goToPrevious = useCallback(() => {
     setDirection('prev');
@@ -159,55 +310,83 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
     setCurrentViewIndex((prev) => (prev < totalViews - 1 ? prev + 1 : 0));
   }, [totalViews]);
 
-  const handlePrint = () => {
-    window.print();
-  };
-
   const handleCopyAllText = () => {
     const header = `Título: ${title}\n\n---\n\n`;
-    const allText = pages.map(p => `Página ${p.pageNumber}\n\n${p.text}`).join('\n\n---\n\n');
+    const allText = pages.map(p => `Página ${p.pageNumber}\n\n${p.text}${p.secondaryText ? `\n\n${p.secondaryText}` : ''}`).join('\n\n---\n\n');
     navigator.clipboard.writeText(header + allText).then(() => {
         setCopyStatus(true);
         setTimeout(() => setCopyStatus(false), 2000);
     });
   };
 
-  const handlePlayPause = () => {
-    if (!audioContextRef.current || !audioBufferRef.current || !isTextView) return;
+  const handleExportBundle = async () => {
+    setIsExportingBundle(true);
+    try {
+      await onExportBundle();
+    } catch (error) {
+      console.error("Falha ao exportar livro", error);
+      alert("Ocorreu um erro ao exportar o livro. Por favor, tente novamente.");
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
 
-    if (isPlaying) {
-      if (sourceNodeRef.current) {
-        sourceNodeRef.current.stop();
-      }
+  const handleExportEpub = async () => {
+    setIsExportingEpub(true);
+    // Cede o controle ao navegador para o indicador aparecer antes da codificação dos áudios
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      const epub = buildEpub({ title, pages, coverAudioData, language, music: backgroundMusic });
+      downloadBlob(epub, toFileName(title, 'storybook', 'epub'));
+    } catch (error) {
+      console.error("Falha ao gerar EPUB", error);
+      alert("Ocorreu um erro ao gerar o livro digital (EPUB). Por favor, tente novamente.");
+    } finally {
+      setIsExportingEpub(false);
+    }
+  };
+
+  // Só uma faixa toca por vez: tocar uma interrompe a outra
+  const startNarration = (track: NarrationTrack, offset: number) => {
+    const audioData = page && trackAudio(page, track);
+    if (!audioData || !isTextView) return;
+    getEngine().play(track, audioData, { offset, onEnded: () => onNarrationEndRef.current?.(track) });
+  };
+
+  // O mesmo botão pausa e continua o que está carregado; na leitura automática ele pausa a leitura inteira
+  const togglePlayback = (clip: string, start: () => void) => {
+    if (isAutoplaying) {
+      handleAutoplayPauseResume();
+    } else if (playback.clip === clip && playback.status === 'playing') {
+      getEngine().pause();
+    } else if (playback.clip === clip && playback.status === 'paused') {
+      getEngine().resume();
     } else {
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBufferRef.current;
-      source.connect(audioContextRef.current.destination);
-      source.start();
-
-      source.onended = () => {
-        setIsPlaying(false);
-        if (sourceNodeRef.current === source) {
-           sourceNodeRef.current.disconnect();
-           sourceNodeRef.current = null;
-        }
-      };
+      start();
+    }
+  };
+
+  const handlePlayPause = (track: NarrationTrack) => togglePlayback(track, () => startNarration(track, 0));
 
-      sourceNodeRef.current = source;
-      setIsPlaying(true);
+  const handlePlaybackSettingsChange = (settings: PlaybackSettings) => {
+    setPlaybackSettings(settings);
+    savePlaybackSettings(settings);
+    engineRef.current?.setSettings(settings);
+  };
+
+  // Tocar em uma palavra leva a narração até ela, esteja tocando ou não
+  const handleWordClick = (track: NarrationTrack, index: number) => {
+    const word = readAlongTimings[track]?.words[index];
+    if (word) {
+      startNarration(track, word.start);
     }
   };
   
   const handleGenerateCoverAudio = async () => {
     setIsGeneratingCoverAudio(true);
     try {
-        const audioData = await generateCoverAudio(title);
-        setCoverAudioData(audioData);
-        if (!coverAudioContextRef.current || coverAudioContextRef.current.state === 'closed') {
-            coverAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        }
-        const buffer = await decodeAudioData(decode(audioData), coverAudioContextRef.current, 24000, 1);
-        coverAudioBufferRef.current = buffer;
+        const audioData = await generateCoverAudio(title, language.primary);
+        onCoverAudioChange(audioData);
     } catch (error) {
         console.error("Falha ao gerar áudio da capa", error);
         alert("Ocorreu um erro ao gerar a narração da capa.");
@@ -216,40 +395,159 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
     }
   };
 
-  const handlePlayPauseCoverAudio = () => {
-      if (!coverAudioContextRef.current || !coverAudioBufferRef.current) return;
+  const playCoverAudio = () => {
+      if (!coverAudioData) return;
+      getEngine().play('cover', coverAudioData, { onEnded: () => onNarrationEndRef.current?.(null) });
+  };
 
-      if (isCoverAudioPlaying) {
-          if (coverAudioSourceNodeRef.current) {
-              coverAudioSourceNodeRef.current.stop();
-          }
+  const handlePlayPauseCoverAudio = () => togglePlayback('cover', playCoverAudio);
+
+  const handleSleepTimerChange = (minutes: number | null) => {
+    const endsAt = minutes === null ? null : Date.now() + minutes * 60000;
+    sleepTimerEndsAtRef.current = endsAt;
+    setSleepTimerEndsAt(endsAt);
+  };
+
+  const startAutoplay = () => {
+    setIsHistoryOpen(false);
+    setIsCandidateGridOpen(false);
+    isAutoplayPausedRef.current = false;
+    setIsAutoplayPaused(false);
+    // O clique libera o áudio no navegador antes de a primeira narração começar; música e sons ambientes seguem entre as páginas
+    const engine = getEngine();
+    engine.resume();
+    engine.setBackgroundHeld(true);
+    setIsAutoplaying(true);
+  };
+
+  const stopAutoplay = () => {
+    onNarrationEndRef.current = null;
+    engineRef.current?.setBackgroundHeld(false);
+    engineRef.current?.stop();
+    isAutoplayPausedRef.current = false;
+    setIsAutoplayPaused(false);
+    handleSleepTimerChange(null);
+    setIsAutoplaying(false);
+  };
+
+  const handleAutoplayPauseResume = () => {
+    const paused = !isAutoplayPaused;
+    isAutoplayPausedRef.current = paused;
+    setIsAutoplayPaused(paused);
+    // A narração continua do mesmo ponto e o destaque das palavras acompanha
+    if (paused) {
+      getEngine().pause();
+    } else {
+      getEngine().resume();
+    }
+  };
+
+  // Pular leva à ilustração da próxima página
+  const handleAutoplaySkip = () => {
+    const nextImageView = isCover ? 1 : isImageView ? currentViewIndex + 2 : currentViewIndex + 1;
+    if (nextImageView >= totalViews) {
+      stopAutoplay();
+      return;
+    }
+    setDirection('next');
+    setCurrentViewIndex(nextImageView);
+  };
+
+  // Conduz o modo hora de dormir a cada visualização: a capa é narrada, a ilustração fica alguns segundos
+  // na tela e o texto espera as narrações da página terminarem antes de virar para a próxima
+  useEffect(() => {
+    if (!isAutoplaying || draft) return;
+    let timer: number | undefined;
+    // Os segundos não correm enquanto a leitura está pausada
+    const wait = (seconds: number, then: () => void) => {
+      let remaining = seconds * 1000;
+      timer = window.setInterval(() => {
+        if (isAutoplayPausedRef.current) return;
+        remaining -= 250;
+        if (remaining <= 0) {
+          window.clearInterval(timer);
+          then();
+        }
+      }, 250);
+    };
+    // O timer de dormir só encerra a leitura na virada de página, nunca no meio de uma frase
+    const advance = () => {
+      const sleepTimerEndsAt = sleepTimerEndsAtRef.current;
+      if (currentViewIndex >= totalViews - 1 || (sleepTimerEndsAt !== null && Date.now() >= sleepTimerEndsAt)) {
+        stopAutoplay();
       } else {
-          const source = coverAudioContextRef.current.createBufferSource();
-          source.buffer = coverAudioBufferRef.current;
-          source.connect(coverAudioContextRef.current.destination);
-          source.start();
-
-          source.onended = () => {
-              setIsCoverAudioPlaying(false);
-              if (coverAudioSourceNodeRef.current === source) {
-                  coverAudioSourceNodeRef.current.disconnect();
-                  coverAudioSourceNodeRef.current = null;
-              }
-          };
-          coverAudioSourceNodeRef.current = source;
-          setIsCoverAudioPlaying(true);
+        goToNext();
       }
+    };
+
+    if (isCover) {
+      if (coverAudioData) {
+        onNarrationEndRef.current = (track) => {
+          if (track === null) advance();
+        };
+        // Se a introdução já estava tocando, o modo só espera ela terminar
+        const state = getEngine().getState();
+        if (state.clip !== 'cover' || state.status === 'idle') {
+          playCoverAudio();
+        }
+      } else {
+        wait(AUTOPLAY_COVER_SECONDS, advance);
+      }
+    } else if (isImageView) {
+      wait(AUTOPLAY_ILLUSTRATION_SECONDS, advance);
+    } else if (isTextView && page) {
+      const tracks = pageTracks(page).filter(track => trackAudio(page, track));
+      if (tracks.length === 0) {
+        wait(Math.max(AUTOPLAY_ILLUSTRATION_SECONDS, tokenizeWords(page.text).length * AUTOPLAY_SECONDS_PER_WORD), advance);
+      } else {
+        // Em livros bilíngues as duas narrações tocam uma depois da outra
+        onNarrationEndRef.current = (track) => {
+          if (!track || !tracks.includes(track)) return;
+          const nextTrack = tracks[tracks.indexOf(track) + 1];
+          if (nextTrack) {
+            startNarration(nextTrack, 0);
+          } else {
+            wait(AUTOPLAY_PAGE_TURN_SECONDS, advance);
+          }
+        };
+        startNarration(tracks[0], 0);
+      }
+    }
+
+    return () => {
+      window.clearInterval(timer);
+      onNarrationEndRef.current = null;
+    };
+  }, [isAutoplaying, draft, currentViewIndex]);
+
+  // Toda alteração feita a partir do livro passa por aqui, para que as versões substituídas entrem no histórico da página.
+  // Só os campos alterados são aplicados, sobre a versão atual da página: outra tarefa pode ter mudado o resto enquanto esta esperava
+  const commitPage = (target: StoryPageData, changes: Partial<StoryPageData> | ((current: StoryPageData) => Partial<StoryPageData>), voice: PrebuiltVoice = selectedVoice) => {
+    onUpdatePage(target.pageNumber, current => recordPageChange(current, { ...current, ...(typeof changes === 'function' ? changes(current) : changes) }, voice));
+  };
+
+  const narrateTrack = async (target: StoryPageData, track: NarrationTrack, voice: PrebuiltVoice): Promise<Partial<StoryPageData>> => {
+    if (track === 'secondary' && language.secondary) {
+      const secondaryLanguage = language.secondary;
+      const secondaryAudioData = await withRetry(() => generateSpeech(target.secondaryText ?? '', voice, secondaryLanguage));
+      return { secondaryAudioData, secondaryAudioStatus: 'ready' };
+    }
+    const audioData = await narrateDialogue(pageDialogue(target, castNames), voice, speakerVoices(speakers, voiceCast, voice), language.primary);
+    return { audioData, audioStatus: 'ready' };
   };
 
+  const pageTracks = (target: StoryPageData): NarrationTrack[] =>
+    language.secondary && target.secondaryText !== undefined ? ['primary', 'secondary'] : ['primary'];
+
   const handleVoiceChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newVoice = e.target.value as PrebuiltVoice;
-    setSelectedVoice(newVoice);
+    onVoiceChange(newVoice);
 
     if (isTextView && page) {
       setIsRegeneratingAudio(true);
       try {
-        const newAudioData = await generateSpeech(page.text, newVoice);
-        onUpdatePage({ ...page, audioData: newAudioData });
+        const updates = await Promise.all(pageTracks(page).map(track => narrateTrack(page, track, newVoice)));
+        commitPage(page, Object.assign({}, ...updates), newVoice);
       } catch (error) {
         console.error("Falha ao regenerar áudio com nova voz", error);
         alert("Ocorreu um erro ao alterar a voz da narração. Por favor, tente novamente.");
@@ -259,12 +557,33 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
     }
   };
   
-  const handleRegenerateNarration = async () => {
+  // Trocar vozes não regrava nada na hora: as páginas afetadas ficam desatualizadas para "Atualizar"
+  const handleSaveVoiceCast = (narrator: PrebuiltVoice, newVoiceCast: VoiceCast) => {
+    const newVoices = speakerVoices(speakers, newVoiceCast, narrator);
+    const next = pages.map((p, index) => {
+      const updated = { ...p };
+      if (p.audioData && segmentVoices(pageDialogues[index], selectedVoice, voices) !== segmentVoices(pageDialogues[index], narrator, newVoices)) {
+        updated.audioStatus = 'stale';
+      }
+      if (p.secondaryAudioData && narrator !== selectedVoice) {
+        updated.secondaryAudioStatus = 'stale';
+      }
+      return updated.audioStatus !== p.audioStatus || updated.secondaryAudioStatus !== p.secondaryAudioStatus ? updated : p;
+    });
+    if (next.some((p, index) => p !== pages[index])) {
+      onPagesChange(next);
+    }
+    onVoiceChange(narrator);
+    onVoiceCastChange(newVoiceCast);
+    setIsVoicePanelOpen(false);
+  };
+
+  const handleRegenerateNarration = async (tracks?: NarrationTrack[]) => {
     if (isTextView && page) {
       setIsRegeneratingAudio(true);
       try {
-        const newAudioData = await generateSpeech(page.text, selectedVoice);
-        onUpdatePage({ ...page, audioData: newAudioData });
+        const updates = await Promise.all((tracks ?? pageTracks(page)).map(track => narrateTrack(page, track, selectedVoice)));
+        commitPage(page, Object.assign({}, ...updates));
       } catch (error) {
         console.error("Falha ao regenerar narração", error);
         alert("Ocorreu um erro ao regenerar a narração. Por favor, tente novamente.");
@@ -274,13 +593,89 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
     }
   };
 
+  const handleSuggestSounds = async () => {
+    if (!page) return;
+    setIsSuggestingSounds(true);
+    try {
+      const [effects] = await withRetry(() => designSoundscape([{ text: page.text, imagePrompt: page.imagePrompt }]));
+      commitPage(page, current => ({ soundscape: { ...createSoundscape(effects ?? []), volume: current.soundscape?.volume ?? DEFAULT_SOUNDSCAPE_VOLUME } }));
+    } catch (error) {
+      console.error("Falha ao sugerir sons", error);
+      alert("Ocorreu um erro ao sugerir os sons da página. Por favor, tente novamente.");
+    } finally {
+      setIsSuggestingSounds(false);
+    }
+  };
+
+  // Texto digitado ou gerado dentro do livro passa pela mesma moderação do formulário
+  const isBlockedByModeration = (texts: string[]) => {
+    const result = moderateText(texts, loadModerationSettings(), readingLevel);
+    if (!result.allowed) {
+      alert(explainModeration(result.issues));
+    }
+    return !result.allowed;
+  };
+
+  const alertModerationBlock = (error: unknown) => {
+    const blocked = findModerationBlock(error);
+    if (blocked) {
+      alert(blocked.message);
+    }
+    return Boolean(blocked);
+  };
+
+  const handleSimplifyText = async () => {
+    if (!page || !readingLevel) return;
+
+    setIsSimplifying(true);
+    try {
+      const text = await withRetry(() => simplifyPageText(page.text, readingLevel, language.primary));
+      assertAllowed(text, loadModerationSettings(), readingLevel);
+      // A narração antiga não corresponde mais ao texto, então é refeita junto
+      let audioData = '';
+      let audioStatus: AssetStatus = 'failed';
+      setIsRegeneratingAudio(true);
+      try {
+        audioData = await narrateDialogue(pageDialogue({ text }, castNames), selectedVoice, voices, language.primary);
+        audioStatus = 'ready';
+      } catch (error) {
+        console.error("Falha ao narrar o texto simplificado", error);
+      } finally {
+        setIsRegeneratingAudio(false);
+      }
+      commitPage(page, {
+        text,
+        audioData,
+        audioStatus,
+        // A tradução continua contando a versão antiga, até alguém ajustá-la
+        ...(page.secondaryText !== undefined && {
+          secondaryTextStatus: 'stale' as const,
+          ...(page.secondaryAudioData && { secondaryAudioStatus: 'stale' as const }),
+        }),
+      });
+    } catch (error) {
+      console.error("Falha ao simplificar o texto", error);
+      if (alertModerationBlock(error)) return;
+      alert("Ocorreu um erro ao simplificar o texto. Por favor, tente novamente.");
+    } finally {
+      setIsSimplifying(false);
+    }
+  };
+
+  const illustratePage = (target: StoryPageData, variation = 0) => withRetry(() => generateImage(
+    applyBibleToImagePrompt(target.imagePrompt, bible, cast, target.characters),
+    imageReferencesForPage(cast, bible, target.characters),
+    illustrationStyle,
+    variation
+  ));
+
   const handleRegenerateImage = async () => {
     if (!page) return;
 
     setIsRegeneratingImage(page.pageNumber);
     try {
-      const newImageUrl = await generateImage(page.imagePrompt, characterImage);
-      onUpdatePage({ ...page, imageUrl: newImageUrl });
+      const newImageUrl = await illustratePage(page);
+      commitPage(page, { imageUrl: newImageUrl, imageStatus: 'ready' });
     } catch (error) {
       console.error("Falha ao regenerar imagem", error);
       alert("Ocorreu um erro ao regenerar a imagem. Por favor, tente novamente.");
@@ -289,8 +684,221 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
     }
   };
 
+  // As opções novas se juntam às que já esperavam a escolha; as que falharem são só descartadas
+  const handleGenerateCandidates = async (count: number) => {
+    if (!page) return;
+
+    setIsGeneratingCandidates(true);
+    try {
+      const existing = page.imageCandidates ?? [];
+      const results = await Promise.allSettled(Array.from({ length: count }, (_, i) => illustratePage(page, existing.length + i + 1)));
+      const generated = results.flatMap(result => {
+        if (result.status === 'fulfilled') return [result.value];
+        console.error("Falha ao gerar uma opção de ilustração", result.reason);
+        return [];
+      });
+      if (generated.length === 0) {
+        alert("Nenhuma opção de ilustração pôde ser criada. Por favor, tente novamente.");
+        return;
+      }
+      commitPage(page, current => ({
+        imageCandidates: [...(current.imageCandidates ?? []), ...generated.map(imageUrl => ({ imageUrl, prompt: page.imagePrompt, createdAt: Date.now() }))],
+      }));
+    } finally {
+      setIsGeneratingCandidates(false);
+    }
+  };
+
+  const handleChooseCandidate = (index: number | null) => {
+    if (!page) return;
+    onUpdatePage(page.pageNumber, current => chooseImageCandidate(current, index));
+    setIsCandidateGridOpen(false);
+  };
+
+  // A restauração já move as versões no histórico, então não passa por recordPageChange
+  const handleRestoreVersion = (restore: (current: StoryPageData) => Partial<StoryPageData>) => {
+    if (!page) return;
+    onUpdatePage(page.pageNumber, current => ({ ...current, ...restore(current) }));
+  };
+
+  const handleStartEditing = () => {
+    if (!page) return;
+    if (isAutoplaying) stopAutoplay();
+    setDraft({ text: page.text, secondaryText: page.secondaryText, imagePrompt: page.imagePrompt });
+  };
+
+  // Recursos gerados a partir de um campo alterado ficam desatualizados até serem refeitos;
+  // os que nem chegaram a ser gerados continuam como falha
+  const handleSaveEdits = () => {
+    if (!page || !draft) return;
+    const text = draft.text.trim();
+    const secondaryText = draft.secondaryText?.trim();
+    const imagePrompt = draft.imagePrompt.trim();
+    // Com o texto barrado, o rascunho continua aberto para ser corrigido
+    if (isBlockedByModeration([text, secondaryText ?? '', imagePrompt])) return;
+    const updated: Partial<StoryPageData> = { text, imagePrompt };
+    if (text !== page.text && page.audioData) {
+      updated.audioStatus = 'stale';
+    }
+    if (secondaryText !== undefined) {
+      updated.secondaryText = secondaryText;
+      if (secondaryText !== page.secondaryText && page.secondaryAudioData) {
+        updated.secondaryAudioStatus = 'stale';
+      }
+      if (secondaryText !== page.secondaryText && page.secondaryTextStatus === 'stale') {
+        updated.secondaryTextStatus = 'ready';
+      }
+    }
+    if (imagePrompt !== page.imagePrompt && page.imageUrl) {
+      updated.imageStatus = 'stale';
+    }
+    if (text !== page.text || secondaryText !== page.secondaryText || imagePrompt !== page.imagePrompt) {
+      commitPage(page, updated);
+    }
+    setDraft(null);
+  };
+
+  // Refaz os recursos da página que estão na situação indicada e devolve quantos falharam.
+  // Um recurso desatualizado que falhar continua com a versão antiga; um pendente passa a falha
+  const regenerateAssets = async (target: StoryPageData, status: 'stale' | 'pending'): Promise<number> => {
+    const jobs: { onFailure: Partial<StoryPageData>; run: Promise<Partial<StoryPageData>> }[] = [];
+    if (target.imageStatus === status) {
+      jobs.push({ onFailure: { imageStatus: 'failed' }, run: illustratePage(target).then(imageUrl => ({ imageUrl, imageStatus: 'ready' })) });
+    }
+    if (target.audioStatus === status) {
+      jobs.push({ onFailure: { audioStatus: 'failed' }, run: narrateTrack(target, 'primary', selectedVoice) });
+    }
+    if (target.secondaryAudioStatus === status) {
+      jobs.push({ onFailure: { secondaryAudioStatus: 'failed' }, run: narrateTrack(target, 'secondary', selectedVoice) });
+    }
+    if (jobs.length === 0) return 0;
+
+    const results = await Promise.allSettled(jobs.map(job => job.run));
+    let failures = 0;
+    const updates = results.map((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+      console.error(`Falha ao refazer um recurso da página ${target.pageNumber}`, result.reason);
+      failures++;
+      return status === 'pending' ? jobs[index].onFailure : {};
+    });
+    commitPage(target, Object.assign({}, ...updates));
+    return failures;
+  };
+
+  const handleRefreshStaleAssets = async () => {
+    setIsRefreshingStale(true);
+    let failures = 0;
+    try {
+      for (const target of pages) {
+        failures += await regenerateAssets(target, 'stale');
+      }
+      if (failures > 0) {
+        alert(`${failures} ${failures === 1 ? 'recurso não pôde ser atualizado' : 'recursos não puderam ser atualizados'}. Por favor, tente novamente.`);
+      }
+    } finally {
+      setIsRefreshingStale(false);
+    }
+  };
+
+  // Aplica a nova lista de páginas e gera os recursos que a mudança deixou pendentes.
+  // A estrutura fica travada até lá, já que as atualizações localizam a página pelo número
+  const applyStructureChange = async (updated: StoryPageData[], focusIndex: number | null) => {
+    const renumbered = renumberPages(updated);
+    onPagesChange(renumbered);
+    if (focusIndex !== null) {
+      setDirection(null);
+      setCurrentViewIndex(1 + focusIndex * 2);
+    }
+
+    const pending = renumbered.filter(hasPendingAssets);
+    if (pending.length === 0) return;
+    setIsRestructuring(true);
+    try {
+      const failures = (await Promise.all(pending.map(target => regenerateAssets(target, 'pending'))))
+        .reduce((total, count) => total + count, 0);
+      if (failures > 0) {
+        alert(`${failures} ${failures === 1 ? 'recurso não pôde ser criado' : 'recursos não puderam ser criados'}. Use "Tentar novamente" nas páginas marcadas.`);
+      }
+    } finally {
+      setIsRestructuring(false);
+    }
+  };
+
+  const handleInsertPage = async (index: number) => {
+    setIsRestructuring(true);
+    setInsertingIndex(index);
+    try {
+      const content = await withRetry(() => generateInsertedPage({
+        plot,
+        cast,
+        bible,
+        readingLevel,
+        language,
+        previousText: pages[index - 1]?.text ?? null,
+        nextText: pages[index]?.text ?? null,
+      }));
+      assertAllowed([content.storyText, content.imagePrompt, content.secondaryStoryText ?? ''], loadModerationSettings(), readingLevel);
+      const newPage: StoryPageData = {
+        pageNumber: index + 1,
+        text: content.storyText,
+        imagePrompt: content.imagePrompt,
+        characters: content.characters,
+        dialogue: content.dialogue,
+        imageUrl: '',
+        imageStatus: 'pending',
+        audioData: '',
+        audioStatus: 'pending',
+        ...(language.secondary && content.secondaryStoryText !== undefined ? {
+          secondaryText: content.secondaryStoryText,
+          secondaryAudioData: '',
+          secondaryAudioStatus: 'pending' as const,
+        } : {}),
+      };
+      setInsertingIndex(null);
+      await applyStructureChange(insertPage(pages, index, newPage), index);
+    } catch (error) {
+      console.error("Falha ao escrever a nova página", error);
+      if (alertModerationBlock(error)) return;
+      alert("Ocorreu um erro ao escrever a nova página. Por favor, tente novamente.");
+    } finally {
+      setInsertingIndex(null);
+      setIsRestructuring(false);
+    }
+  };
+
+  const handleDeletePage = (index: number) => {
+    if (!confirm(`Excluir a página ${index + 1}? Se mudar de ideia, use "Desfazer".`)) return;
+    applyStructureChange(removePage(pages, index), null);
+  };
+
+  const handleSplitPage = (index: number) => {
+    const [first, second] = splitPage(pages[index]);
+    applyStructureChange([...pages.slice(0, index), recordPageChange(pages[index], first, selectedVoice), second, ...pages.slice(index + 1)], index);
+  };
+
+  const handleMergePages = (index: number) => {
+    const merged = recordPageChange(pages[index], mergePages(pages[index], pages[index + 1]), selectedVoice);
+    applyStructureChange([...pages.slice(0, index), merged, ...pages.slice(index + 2)], index);
+  };
+
+  // Recursos que ficaram pendentes porque o livro foi fechado no meio de uma edição são refeitos ao abrir.
+  // O StrictMode monta o efeito duas vezes em desenvolvimento; a marca evita pagar cada recurso em dobro
+  const hasResumedPendingRef = useRef(false);
+  useEffect(() => {
+    if (hasResumedPendingRef.current) return;
+    hasResumedPendingRef.current = true;
+    if (!isGenerating && pages.some(hasPendingAssets)) {
+      applyStructureChange(pages, null);
+    }
+  }, []);
+
   if (pages.length === 0) return null;
 
+  const staleAssetCount = countStaleAssets(pages);
+
+  // A capa usa a primeira ilustração disponível, já que a da página 1 pode ter falhado
+  const coverImageUrl = pages.find(p => p.imageUrl)?.imageUrl;
+
   const renderContent = () => {
     if (isCover) {
       if (videoUrl) {
@@ -305,12 +913,14 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
       }
       return (
         <div className="w-full h-full relative flex flex-col items-center justify-center text-center rounded-lg overflow-hidden group p-4">
-          <img src={pages[0].imageUrl} alt="Imagem da capa" className="absolute inset-0 w-full h-full object-cover transition-transform duration-1000 ease-in-out group-hover:scale-110 filter blur-sm" />
+          {coverImageUrl && <img src={coverImageUrl} alt="Imagem da capa" className="absolute inset-0 w-full h-full object-cover transition-transform duration-1000 ease-in-out group-hover:scale-110 filter blur-sm" />}
           <div className="absolute inset-0 bg-black/60"></div>
           <div className="relative z-10 flex flex-col items-center">
-            <div className="w-full max-w-md aspect-video mb-8 rounded-lg overflow-hidden shadow-2xl shadow-black/50 border-4 border-white/10">
-                <img src={pages[0].imageUrl} alt="Imagem da capa" className="w-full h-full object-cover transition-transform duration-500 ease-in-out group-hover:scale-105" />
-            </div>
+            {coverImageUrl && (
+              <div className="w-full max-w-md aspect-video mb-8 rounded-lg overflow-hidden shadow-2xl shadow-black/50 border-4 border-white/10">
+                  <img src={coverImageUrl} alt="Imagem da capa" className="w-full h-full object-cover transition-transform duration-500 ease-in-out group-hover:scale-105" />
+              </div>
+            )}
             <h1 className="text-4xl sm:text-6xl text-white font-lora font-bold" style={{ textShadow: '2px 2px 8px rgba(0,0,0,0.9)' }}>
               {title}
             </h1>
@@ -346,13 +956,64 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
         </div>
       );
     }
+    if (isImageView && page && draft) {
+      return (
+        <div className="w-full h-full flex flex-col sm:flex-row items-center justify-center gap-6 p-6 bg-gray-900">
+          {page.imageUrl && <img src={page.imageUrl} alt={page.imagePrompt} className="w-full sm:w-1/2 max-h-full object-contain rounded-lg" />}
+          <label className="w-full sm:w-1/2 flex flex-col">
+            <span className="text-sm font-semibold text-purple-300 mb-2">Prompt da ilustração</span>
+            <textarea
+              value={draft.imagePrompt}
+              onChange={(e) => setDraft({ ...draft, imagePrompt: e.target.value })}
+              className={`${editorClassName} h-48 text-sm`}
+            />
+            <span className="mt-2 text-xs text-gray-500">Ao salvar um prompt diferente, a ilustração fica desatualizada até ser refeita.</span>
+          </label>
+        </div>
+      );
+    }
+    if (isImageView && page && page.imageStatus === 'pending') {
+      return (
+        <div className="w-full h-full flex flex-col items-center justify-center text-center p-6 bg-gray-900">
+          <div className="w-10 h-10 border-4 border-t-purple-400 border-gray-700 rounded-full animate-spin mb-4"></div>
+          <p className="text-gray-300 text-lg">Pintando a ilustração desta página...</p>
+        </div>
+      );
+    }
+    if (isImageView && page && (page.imageStatus === 'failed' || !page.imageUrl)) {
+      return (
+        <div className="w-full h-full flex flex-col items-center justify-center text-center p-6 bg-gray-900">
+          <p className="text-gray-300 text-lg mb-2">A ilustração desta página não pôde ser criada.</p>
+          <p className="text-gray-500 text-sm mb-6 max-w-md">Às vezes a magia falha por um instante. Tente de novo — o restante do livro continua intacto.</p>
+          <button
+            onClick={handleRegenerateImage}
+            disabled={isGenerating || isRegeneratingImage === page.pageNumber}
+            className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-500 text-white font-semibold py-2 px-6 rounded-full transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRegeneratingImage === page.pageNumber ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <RefreshIcon />}
+            <span>Tentar novamente</span>
+          </button>
+        </div>
+      );
+    }
     if (isImageView && page) {
       return (
         <div className="relative w-full h-full group bg-black">
           <img src={page.imageUrl} alt={page.imagePrompt} className="w-full h-full object-contain" />
+          {page.imageStatus === 'stale' && (
+            <span className="absolute top-4 left-4 bg-amber-500/80 text-gray-900 text-xs font-semibold py-1 px-3 rounded-full">Ilustração desatualizada</span>
+          )}
+          {(page.imageCandidates?.length ?? 0) > 0 && !isCandidateGridOpen && (
+            <button
+              onClick={() => setIsCandidateGridOpen(true)}
+              className="absolute top-4 right-4 bg-purple-600/90 hover:bg-purple-500 text-white text-xs font-semibold py-1 px-3 rounded-full transition-colors"
+            >
+              Escolher entre {(page.imageCandidates?.length ?? 0) + 1} opções
+            </button>
+          )}
            <button
             onClick={handleRegenerateImage}
-            disabled={isRegeneratingImage === page.pageNumber}
+            disabled={isGenerating || isRegeneratingImage === page.pageNumber}
             className="absolute bottom-4 right-4 bg-black/60 backdrop-blur-sm text-white p-2.5 rounded-full hover:bg-purple-600 transition-all opacity-0 group-hover:opacity-100 disabled:opacity-50 disabled:cursor-not-allowed"
             title="Regenerar Imagem"
           >
@@ -362,10 +1023,66 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
               <RefreshIcon />
             )}
           </button>
+          <button
+            onClick={() => setIsCandidateGridOpen(true)}
+            className="absolute bottom-4 right-16 bg-black/60 backdrop-blur-sm text-white p-2.5 rounded-full hover:bg-purple-600 transition-all opacity-0 group-hover:opacity-100"
+            title="Gerar várias opções e escolher a melhor"
+          >
+            <SparklesIcon />
+          </button>
         </div>
       );
     }
     if (isTextView && page) {
+      const renderPlayButton = (track: NarrationTrack) => (
+        <button onClick={() => handlePlayPause(track)} disabled={!trackAudio(page, track) || isRegeneratingAudio} className="mb-8 flex-shrink-0 w-16 h-16 flex items-center justify-center bg-purple-600/50 rounded-full hover:bg-purple-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-purple-400/50 shadow-lg shadow-purple-900/50 transform hover:scale-110">
+          {isRegeneratingAudio ? <div className="w-8 h-8 border-4 border-t-white border-purple-300/50 rounded-full animate-spin"></div> : (playingTrack === track ? <PauseIcon /> : <PlayIcon />)}
+        </button>
+      );
+      const renderRetryButton = (track: NarrationTrack, failed: boolean) => failed && !isRegeneratingAudio && (
+        <button
+          onClick={() => handleRegenerateNarration([track])}
+          className="mt-8 flex items-center space-x-2 bg-gray-700/80 hover:bg-purple-600 text-white text-sm font-semibold py-2 px-4 rounded-full transition duration-200"
+        >
+          <RefreshIcon />
+          <span>A narração falhou. Tentar novamente</span>
+        </button>
+      );
+      const renderText = (track: NarrationTrack, text: string, className: string) => {
+        if (!draft) {
+          // Depois de uma edição, o texto só é acompanhado quando a narração for refeita
+          const timings = readAlongTimings[track];
+          const canFollow = timings && timingsMatch(timings, text, timings.duration) && !isRegeneratingAudio;
+          return (
+            <ReadAlongText
+              text={text}
+              className={className}
+              activeWordIndex={playingTrack === track ? activeWordIndex : -1}
+              onWordClick={canFollow ? (index) => handleWordClick(track, index) : undefined}
+            />
+          );
+        }
+        const field = track === 'primary' ? 'text' : 'secondaryText';
+        return (
+          <textarea
+            value={draft[field] ?? ''}
+            onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+            className={`${editorClassName} h-40 text-lg font-lora max-w-3xl`}
+            aria-label="Texto da página"
+          />
+        );
+      };
+      const renderStaleNote = (status?: AssetStatus) => !draft && (
+        status === 'stale' ? <span className="mt-4 text-xs font-semibold text-amber-300">Narração desatualizada: o texto ou as vozes mudaram depois da gravação.</span>
+        : status === 'pending' ? <span className="mt-4 text-xs font-semibold text-purple-300">Gravando a narração...</span>
+        : null
+      );
+      const primaryFailed = page.audioStatus === 'failed' || (!page.audioData && page.audioStatus !== 'pending');
+      // A análise de legibilidade é calibrada para o português
+      const readability = language.primary === 'pt-BR' && !draft && (
+        <ReadabilityPanel text={page.text} readingLevel={readingLevel} onSimplify={handleSimplifyText} isSimplifying={isSimplifying} disabled={isGenerating} />
+      );
+
       return (
         <div 
           className="w-full h-full flex flex-col items-center justify-center text-center p-6 sm:p-12"
@@ -373,12 +1090,33 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
             background: 'radial-gradient(circle, #2a2a4e 0%, #161625 100%)'
           }}
         >
-           <button onClick={handlePlayPause} disabled={!audioBufferRef.current || isRegeneratingAudio} className="mb-8 flex-shrink-0 w-16 h-16 flex items-center justify-center bg-purple-600/50 rounded-full hover:bg-purple-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-purple-400/50 shadow-lg shadow-purple-900/50 transform hover:scale-110">
-              {isRegeneratingAudio ? <div className="w-8 h-8 border-4 border-t-white border-purple-300/50 rounded-full animate-spin"></div> : (isPlaying ? <PauseIcon /> : <PlayIcon />)}
-          </button>
-          <p className="text-gray-200 leading-relaxed text-2xl sm:text-3xl max-w-3xl font-lora">
-            {page.text}
-          </p>
+          {language.secondary && page.secondaryText !== undefined ? (
+            <>
+              <div className="grid grid-cols-2 gap-8 sm:gap-12 w-full max-w-5xl">
+                {([['primary', language.primary, page.text, primaryFailed], ['secondary', language.secondary, page.secondaryText ?? '', page.secondaryAudioStatus === 'failed' || (!page.secondaryAudioData && page.secondaryAudioStatus !== 'pending')]] as const).map(([track, code, text, failed]) => (
+                  <div key={track} lang={code} className="flex flex-col items-center">
+                    {renderPlayButton(track)}
+                    <span className="mb-3 text-xs font-semibold uppercase tracking-wider text-purple-300">{STORY_LANGUAGES[code].label}</span>
+                    {renderText(track, text, `text-xl sm:text-2xl ${track === 'primary' ? 'text-gray-200' : 'text-gray-400'}`)}
+                    {track === 'secondary' && page.secondaryTextStatus === 'stale' && !draft && (
+                      <span className="mt-4 text-xs font-semibold text-amber-300">Tradução desatualizada: o texto principal mudou. Edite a página para ajustá-la.</span>
+                    )}
+                    {renderStaleNote(track === 'primary' ? page.audioStatus : page.secondaryAudioStatus)}
+                    {renderRetryButton(track, failed)}
+                  </div>
+                ))}
+              </div>
+              {readability}
+            </>
+          ) : (
+            <>
+              {renderPlayButton('primary')}
+              {renderText('primary', page.text, 'text-gray-200 text-2xl sm:text-3xl max-w-3xl')}
+              {renderStaleNote(page.audioStatus)}
+              {readability}
+              {renderRetryButton('primary', primaryFailed)}
+            </>
+          )}
         </div>
       );
     }
@@ -415,74 +1153,198 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
             <DownloadIcon />
             <span>Baixar</span>
           </a>
+          <button
+            onClick={() => setIsVideoPanelOpen(open => !open)}
+            className={`p-2 rounded-lg transition duration-200 ${isVideoPanelOpen ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-purple-500'}`}
+            title="Escolher as cenas e refazer o desenho"
+          >
+            <RefreshIcon />
+          </button>
         </>
       );
     }
     return (
-       <button onClick={onGenerateVideo} className="flex items-center space-x-2 bg-indigo-600/80 hover:bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 transform hover:scale-105">
+       <button onClick={() => setIsVideoPanelOpen(open => !open)} className="flex items-center space-x-2 bg-indigo-600/80 hover:bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 transform hover:scale-105">
           <VideoIcon />
           <span>Transformar em Desenho</span>
       </button>
     );
   }
 
+  // A barra de reprodução aparece onde há algo para ouvir
+  const hasNarration = isCover ? Boolean(coverAudioData) : isTextView && Boolean(page && (page.audioData || page.secondaryAudioData));
+
   const animationClass = direction === 'next' ? 'content-next' : direction === 'prev' ? 'content-prev' : '';
 
   return (
     <div className="glass-card p-4 sm:p-6 rounded-2xl relative flex flex-col">
-      <div id="printable-area" className="hidden print:block">
-        <div className="w-full h-screen p-8 flex flex-col justify-center items-center page-break text-center bg-white text-black">
-            <h1 className="text-6xl font-bold font-lora mb-8">{title}</h1>
-            <img src={pages[0].imageUrl} alt="Imagem da capa" className="w-full max-w-3xl aspect-video object-cover rounded-lg shadow-2xl" />
-            <p className="mt-auto text-lg">Uma história gerada por Fábula Mágica AI</p>
-        </div>
-        {pages.map((p, index) => (
-          <div key={index} className="w-full h-screen p-8 flex flex-col page-break bg-white text-black">
-            <img src={p.imageUrl} alt={p.imagePrompt} className="w-full aspect-[4/3] object-cover rounded-lg mb-6 shadow-lg" />
-            <div className="flex-grow">
-                <p className="text-2xl leading-relaxed">{p.text}</p>
-            </div>
-            <p className="text-right text-lg font-bold mt-4">{p.pageNumber} / {totalPages}</p>
-          </div>
-        ))}
-      </div>
-
       <div className="w-full aspect-video flex-grow rounded-lg overflow-hidden shadow-2xl shadow-black/50">
         <div key={currentViewIndex} className={`w-full h-full ${animationClass}`}>
           {renderContent()}
         </div>
       </div>
+
+      {isAutoplaying && (
+        <AutoplayControls
+          isPaused={isAutoplayPaused}
+          onPauseResume={handleAutoplayPauseResume}
+          onSkip={handleAutoplaySkip}
+          onStop={stopAutoplay}
+          sleepTimerEndsAt={sleepTimerEndsAt}
+          onSleepTimerChange={handleSleepTimerChange}
+        />
+      )}
+
+      {hasNarration && !draft && (
+        <PlaybackBar
+          engine={engineRef.current}
+          playback={playback}
+          settings={playbackSettings}
+          onSettingsChange={handlePlaybackSettingsChange}
+          hasMusic={Boolean(backgroundMusic)}
+          isMusicPanelOpen={isMusicPanelOpen}
+          onToggleMusicPanel={() => setIsMusicPanelOpen(open => !open)}
+        />
+      )}
+
+      {isMusicPanelOpen && !draft && (
+        <MusicPanel music={backgroundMusic} onChange={onBackgroundMusicChange} onClose={() => setIsMusicPanelOpen(false)} />
+      )}
       
-      <div className="flex flex-wrap items-center justify-between mt-6 pt-4 border-t border-white/10 no-print gap-4">
+      <div className="flex flex-wrap items-center justify-between mt-6 pt-4 border-t border-white/10 gap-4">
          <div className="flex items-center space-x-2 flex-wrap gap-2">
-            <button onClick={handlePrint} className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200">
-                <PrinterIcon />
-                <span>Imprimir</span>
-            </button>
+            <div className="relative">
+                <button onClick={() => setIsPdfPanelOpen(open => !open)} className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200">
+                    <PrinterIcon />
+                    <span>PDF</span>
+                </button>
+                {isPdfPanelOpen && (
+                  <PdfExportPanel title={title} pages={pages} onClose={() => setIsPdfPanelOpen(false)} />
+                )}
+            </div>
             <button onClick={handleCopyAllText} className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200">
                 <ClipboardIcon />
                 <span>{copyStatus ? 'Copiado!' : 'Copiar Texto'}</span>
             </button>
+            <button onClick={handleExportBundle} disabled={isExportingBundle} className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed" title="Exportar o livro completo para backup ou outro computador">
+                {isExportingBundle ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <ArchiveIcon />}
+                <span>Exportar Livro</span>
+            </button>
+            <button onClick={handleExportEpub} disabled={isExportingEpub} className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed" title="Livro digital narrado para leitores de e-books e tablets">
+                {isExportingEpub ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <BookIcon />}
+                <span>EPUB</span>
+            </button>
+            <div className="relative">
+                <button onClick={() => setIsAudiobookPanelOpen(open => !open)} className="flex items-center space-x-2 bg-gray-700/80 hover:bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200">
+                    <DownloadIcon />
+                    <span>Audiolivro</span>
+                </button>
+                {isAudiobookPanelOpen && (
+                  <AudiobookExportPanel
+                    title={title}
+                    pages={pages}
+                    coverAudioData={coverAudioData}
+                    characterImage={cast.find(member => member.image)?.image ?? null}
+                    music={backgroundMusic}
+                    onClose={() => setIsAudiobookPanelOpen(false)}
+                  />
+                )}
+            </div>
              {renderVideoButton()}
+            <button
+              onClick={() => setIsOrganizerOpen(open => !open)}
+              disabled={Boolean(draft)}
+              className={`flex items-center space-x-2 font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${isOrganizerOpen ? 'bg-purple-600 text-white' : 'bg-gray-700/80 hover:bg-gray-700 text-white'}`}
+              title="Inserir, excluir, reordenar, dividir e unir páginas"
+            >
+              <DuplicateIcon />
+              <span>Organizar Páginas</span>
+            </button>
+            <button
+              onClick={startAutoplay}
+              disabled={Boolean(draft) || isAutoplaying || totalPages === 0}
+              className="flex items-center space-x-2 bg-indigo-900/80 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="O livro se lê sozinho, virando as páginas ao fim de cada narração"
+            >
+              <MoonIcon />
+              <span>Hora de Dormir</span>
+            </button>
         </div>
 
         <div className="flex items-center space-x-2">
-            {isTextView && (
+            {!draft && (
+              <div className="flex items-center space-x-1">
+                <button onClick={onUndo} disabled={!canUndo || isUndoLocked} className="p-2 bg-gray-700/80 rounded-lg hover:bg-purple-500 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed" title="Desfazer (Ctrl+Z)">
+                  <UndoIcon />
+                </button>
+                <button onClick={onRedo} disabled={!canRedo || isUndoLocked} className="p-2 bg-gray-700/80 rounded-lg hover:bg-purple-500 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed" title="Refazer (Ctrl+Shift+Z)">
+                  <RedoIcon />
+                </button>
+              </div>
+            )}
+            {staleAssetCount > 0 && !draft && (
+              <button
+                onClick={handleRefreshStaleAssets}
+                disabled={isGenerating || isRefreshingStale || isRestructuring}
+                className="flex items-center space-x-2 bg-amber-500/20 hover:bg-amber-500/30 border border-amber-400/40 text-amber-200 text-sm font-semibold py-2 px-3 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Refazer apenas as ilustrações e narrações desatualizadas pelas edições"
+              >
+                {isRefreshingStale ? <div className="w-5 h-5 border-2 border-t-amber-200 border-amber-700 rounded-full animate-spin"></div> : <RefreshIcon />}
+                <span>Atualizar ({staleAssetCount})</span>
+              </button>
+            )}
+            {!isCover && page && (draft ? (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleSaveEdits}
+                  disabled={!draft.text.trim()}
+                  className="bg-purple-600 hover:bg-purple-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Salvar
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="bg-gray-700/80 hover:bg-gray-700 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  Cancelar
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleStartEditing}
+                disabled={isRefreshingStale || isRestructuring || isPageLocked}
+                className="p-2 bg-gray-700/80 rounded-lg hover:bg-purple-500 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isImageView ? 'Editar o prompt da ilustração' : 'Editar o texto da página'}
+              >
+                <PencilIcon />
+              </button>
+            ))}
+            {!isCover && page && !draft && (
+              <button
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className={`flex items-center space-x-1 p-2 rounded-lg transition duration-200 ${isHistoryOpen ? 'bg-purple-600 text-white' : 'bg-gray-700/80 hover:bg-purple-500'}`}
+                title="Versões anteriores da ilustração, da narração e do texto desta página"
+              >
+                <HistoryIcon />
+                {countPageVersions(page) > 0 && <span className="text-xs font-semibold">{countPageVersions(page)}</span>}
+              </button>
+            )}
+            {isTextView && !draft && (
               <div className="flex items-center space-x-2 bg-gray-800/60 p-1 rounded-lg">
                 <select 
                   value={selectedVoice} 
                   onChange={handleVoiceChange}
-                  disabled={isRegeneratingAudio}
+                  disabled={isGenerating || isRegeneratingAudio}
                   className="bg-gray-700 border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block w-full p-2"
                   aria-label="Voz do Narrador Mágico"
                 >
-                  {availableVoices.map(voice => (
-                    <option key={voice} value={voice}>{voiceNames[voice]}</option>
+                  {AVAILABLE_VOICES.map(voice => (
+                    <option key={voice} value={voice}>{VOICE_NAMES[voice]}</option>
                   ))}
                 </select>
                 <button
-                  onClick={handleRegenerateNarration}
-                  disabled={isRegeneratingAudio}
+                  onClick={() => handleRegenerateNarration()}
+                  disabled={isGenerating || isRegeneratingAudio}
                   className="p-2 bg-gray-700 rounded-lg hover:bg-purple-500 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                   title="Regenerar Narração"
                 >
@@ -492,19 +1354,105 @@ export const StorybookView: React.FC<StorybookViewProps> = ({ title, pages, onUp
                     <RefreshIcon />
                   )}
                 </button>
+                <button
+                  onClick={() => setIsVoicePanelOpen(open => !open)}
+                  className={`p-2 rounded-lg transition duration-200 ${isVoicePanelOpen ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-purple-500'}`}
+                  title="Escolher a voz do narrador e de cada personagem"
+                >
+                  <SpeakerIcon />
+                </button>
+                <button
+                  onClick={() => setIsSoundscapePanelOpen(open => !open)}
+                  className={`p-2 rounded-lg transition duration-200 ${isSoundscapePanelOpen ? 'bg-purple-600 text-white' : page?.soundscape?.enabled ? 'bg-gray-700 text-purple-300 hover:bg-purple-500 hover:text-white' : 'bg-gray-700 hover:bg-purple-500'}`}
+                  title="Escolher os sons ambientes da página"
+                >
+                  <WavesIcon />
+                </button>
               </div>
             )}
-          <button onClick={goToPrevious} className="p-3 bg-gray-700/80 rounded-full hover:bg-purple-600 transition duration-200" aria-label="Página anterior">
+          <button onClick={goToPrevious} disabled={Boolean(draft)} className="p-3 bg-gray-700/80 rounded-full hover:bg-purple-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Página anterior">
             <ChevronLeftIcon />
           </button>
           <span className="font-mono text-lg text-gray-400 w-28 text-center">
             {isCover ? 'Capa Mágica' : `${Math.ceil(currentViewIndex / 2)} / ${totalPages}`}
           </span>
-          <button onClick={goToNext} className="p-3 bg-gray-700/80 rounded-full hover:bg-purple-600 transition duration-200" aria-label="Próxima página">
+          <button onClick={goToNext} disabled={Boolean(draft)} className="p-3 bg-gray-700/80 rounded-full hover:bg-purple-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Próxima página">
             <ChevronRightIcon />
           </button>
         </div>
       </div>
+
+      {isCandidateGridOpen && isImageView && page && !draft && (
+        <ImageCandidateGrid
+          page={page}
+          onChoose={handleChooseCandidate}
+          onGenerate={handleGenerateCandidates}
+          onClose={() => setIsCandidateGridOpen(false)}
+          isGenerating={isGeneratingCandidates}
+          disabled={isGenerating || isRegeneratingImage !== null || isRestructuring || isRefreshingStale}
+        />
+      )}
+
+      {isVoicePanelOpen && !draft && (
+        <VoiceCastingPanel
+          narrator={selectedVoice}
+          voices={voices}
+          lineCounts={Object.fromEntries(speakers.map(speaker => [speaker, pageDialogues.flat().filter(segment => segment.speaker === speaker).length]))}
+          onSave={handleSaveVoiceCast}
+          onClose={() => setIsVoicePanelOpen(false)}
+          disabled={isGenerating || isRegeneratingAudio || isRestructuring || isRefreshingStale}
+        />
+      )}
+
+      {isVideoPanelOpen && !draft && (
+        <VideoScenesPanel
+          pages={pages}
+          clips={videoGenerationStatus.clips}
+          isGenerating={videoGenerationStatus.isLoading}
+          onGenerate={onGenerateVideo}
+          onClose={() => setIsVideoPanelOpen(false)}
+        />
+      )}
+
+      {isSoundscapePanelOpen && !isCover && page && !draft && (
+        <SoundscapePanel
+          pageNumber={pageIndex + 1}
+          soundscape={page.soundscape}
+          onChange={(soundscape) => commitPage(page, { soundscape })}
+          onSuggest={handleSuggestSounds}
+          isSuggesting={isSuggestingSounds}
+          onClose={() => setIsSoundscapePanelOpen(false)}
+          disabled={isRestructuring || isRefreshingStale || isPageLocked}
+        />
+      )}
+
+      {isHistoryOpen && !isCover && page && !draft && (
+        <VersionGallery
+          page={page}
+          language={language}
+          onRestore={handleRestoreVersion}
+          onClose={() => setIsHistoryOpen(false)}
+          disabled={isRestructuring || isRefreshingStale || isPageLocked}
+        />
+      )}
+
+      {isOrganizerOpen && !draft && (
+        <PageOrganizer
+          pages={pages}
+          currentPageIndex={isCover ? null : pageIndex}
+          onSelect={(index) => {
+            setDirection(null);
+            setCurrentViewIndex(1 + index * 2);
+          }}
+          onMove={(from, to) => applyStructureChange(movePage(pages, from, to), to)}
+          onInsert={handleInsertPage}
+          onDelete={handleDeletePage}
+          onSplit={handleSplitPage}
+          onMerge={handleMergePages}
+          insertingIndex={insertingIndex}
+          disabled={isRestructuring || isRefreshingStale || isPageLocked}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,225 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { StoryPageData, BookLanguage, NarrationVersion } from '../types';
+import { restoreImageVersion, restoreNarrationVersion, restoreTextVersion } from '../services/pageHistory';
+import type { NarrationHistoryTrack } from '../services/pageHistory';
+import { decode, decodeAudioData, createAudioContext, TTS_SAMPLE_RATE, TTS_CHANNELS } from '../services/audioUtils';
+import { STORY_LANGUAGES } from '../services/languages';
+import { VOICE_NAMES } from '../services/voices';
+import PlayIcon from './icons/PlayIcon';
+import PauseIcon from './icons/PauseIcon';
+import XIcon from './icons/XIcon';
+
+interface VersionGalleryProps {
+  page: StoryPageData;
+  language: BookLanguage;
+  onRestore: (restore: (current: StoryPageData) => Partial<StoryPageData>) => void;
+  onClose: () => void;
+  disabled: boolean;
+}
+
+type VersionTab = 'images' | 'narrations' | 'secondaryNarrations' | 'texts';
+
+const formatVersionDate = (createdAt: number) => createdAt
+  ? new Date(createdAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+  : 'Versão original';
+
+const restoreButtonClassName = "text-xs font-semibold bg-purple-600/80 hover:bg-purple-600 text-white py-1 px-3 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const currentBadge = <span className="text-xs font-semibold bg-green-600/80 text-white py-1 px-3 rounded-full">Em uso</span>;
+
+export const VersionGallery: React.FC<VersionGalleryProps> = ({ page, language, onRestore, onClose, disabled }) => {
+  const [tab, setTab] = useState<VersionTab>('images');
+  // Chave da narração tocando: "faixa:índice", com índice -1 para a versão em uso
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const history = page.history;
+  const isBilingual = Boolean(language.secondary) && page.secondaryText !== undefined;
+
+  const stopPreview = () => {
+    if (sourceNodeRef.current) {
+      sourceNodeRef.current.onended = null;
+      sourceNodeRef.current.stop();
+      sourceNodeRef.current = null;
+    }
+    setPlayingKey(null);
+  };
+
+  useEffect(() => {
+    return () => {
+      sourceNodeRef.current?.stop();
+      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+        audioContextRef.current.close().catch(console.error);
+      }
+    };
+  }, []);
+
+  // Trocar de página ou de aba interrompe a prévia
+  useEffect(() => {
+    stopPreview();
+  }, [page.pageNumber, tab]);
+
+  const handlePreview = async (key: string, audioData: string) => {
+    const wasPlaying = playingKey === key;
+    stopPreview();
+    if (wasPlaying) return;
+
+    if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
+      audioContextRef.current = createAudioContext();
+    }
+    const ctx = audioContextRef.current;
+    try {
+      const buffer = await decodeAudioData(decode(audioData), ctx, TTS_SAMPLE_RATE, TTS_CHANNELS);
+      if (ctx.state === 'suspended') await ctx.resume();
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (sourceNodeRef.current === source) {
+          sourceNodeRef.current = null;
+          setPlayingKey(null);
+        }
+      };
+      source.start();
+      sourceNodeRef.current = source;
+      setPlayingKey(key);
+    } catch (error) {
+      console.error("Falha ao tocar a versão da narração", error);
+    }
+  };
+
+  const tabs: { id: VersionTab; label: string; count: number }[] = [
+    { id: 'images', label: 'Ilustrações', count: history?.images.length ?? 0 },
+    { id: 'narrations', label: isBilingual ? `Narração (${STORY_LANGUAGES[language.primary].label})` : 'Narração', count: history?.narrations.length ?? 0 },
+    ...(isBilingual && language.secondary ? [{ id: 'secondaryNarrations' as const, label: `Narração (${STORY_LANGUAGES[language.secondary].label})`, count: history?.secondaryNarrations.length ?? 0 }] : []),
+    { id: 'texts', label: 'Textos', count: history?.texts.length ?? 0 },
+  ];
+
+  const renderEmpty = () => (
+    <p className="text-sm text-gray-500">Nenhuma versão anterior ainda. Ao refazer ou editar, a versão substituída aparece aqui.</p>
+  );
+
+  const renderImages = () => {
+    const versions = history?.images ?? [];
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {page.imageUrl && (
+          <figure className="bg-gray-800/80 border border-green-600/60 rounded-lg p-2 space-y-2">
+            <img src={page.imageUrl} alt="Ilustração em uso" className="w-full aspect-video object-cover rounded" />
+            <figcaption className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-400">{formatVersionDate(history?.current.image?.createdAt ?? 0)}</span>
+              {currentBadge}
+            </figcaption>
+          </figure>
+        )}
+        {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+          <figure key={index} className="bg-gray-800/80 border border-gray-700 rounded-lg p-2 space-y-2">
+            <img src={version.imageUrl} alt={version.prompt} className="w-full aspect-video object-cover rounded" />
+            <p className="text-xs text-gray-400 line-clamp-2" title={version.prompt}>{version.prompt}</p>
+            <figcaption className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-400">{formatVersionDate(version.createdAt)}</span>
+              <button type="button" onClick={() => onRestore(current => restoreImageVersion(current, index))} disabled={disabled} className={restoreButtonClassName}>
+                Restaurar
+              </button>
+            </figcaption>
+          </figure>
+        ))}
+        {versions.length === 0 && renderEmpty()}
+      </div>
+    );
+  };
+
+  const renderNarrationRow = (key: string, version: Omit<NarrationVersion, 'audioData'>, audioData: string, action: React.ReactNode) => (
+    <li key={key} className="flex items-start gap-3 bg-gray-800/80 border border-gray-700 rounded-lg p-2">
+      <button
+        type="button"
+        onClick={() => handlePreview(key, audioData)}
+        className="flex-shrink-0 w-10 h-10 flex items-center justify-center bg-purple-600/50 hover:bg-purple-600 rounded-full transition-colors"
+        aria-label={playingKey === key ? 'Pausar' : 'Ouvir'}
+      >
+        {playingKey === key ? <PauseIcon /> : <PlayIcon />}
+      </button>
+      <div className="flex-grow min-w-0">
+        <p className="text-xs text-gray-400">
+          {formatVersionDate(version.createdAt)}
+          {version.voice && ` · voz ${VOICE_NAMES[version.voice]}`}
+        </p>
+        <p className="text-sm text-gray-300 line-clamp-2">{version.text}</p>
+      </div>
+      <div className="flex-shrink-0 self-center">{action}</div>
+    </li>
+  );
+
+  const renderNarrations = (track: NarrationHistoryTrack) => {
+    const versions = (track === 'primary' ? history?.narrations : history?.secondaryNarrations) ?? [];
+    const currentAudio = track === 'primary' ? page.audioData : page.secondaryAudioData;
+    const currentVersion = (track === 'primary' ? history?.current.narration : history?.current.secondaryNarration)
+      ?? { text: (track === 'primary' ? page.text : page.secondaryText) ?? '', createdAt: 0 };
+    return (
+      <ul className="space-y-2">
+        {currentAudio && renderNarrationRow(`${track}:-1`, currentVersion, currentAudio, currentBadge)}
+        {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => renderNarrationRow(
+          `${track}:${index}`,
+          version,
+          version.audioData,
+          <button type="button" onClick={() => onRestore(current => restoreNarrationVersion(current, track, index))} disabled={disabled} className={restoreButtonClassName}>
+            Restaurar
+          </button>
+        ))}
+        {versions.length === 0 && <li>{renderEmpty()}</li>}
+      </ul>
+    );
+  };
+
+  const renderTexts = () => {
+    const versions = history?.texts ?? [];
+    return (
+      <ul className="space-y-2">
+        {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+          <li key={index} className="bg-gray-800/80 border border-gray-700 rounded-lg p-3 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-400">{formatVersionDate(version.createdAt)}</span>
+              <button type="button" onClick={() => onRestore(current => restoreTextVersion(current, index))} disabled={disabled} className={restoreButtonClassName}>
+                Restaurar
+              </button>
+            </div>
+            <p className="text-sm text-gray-200 font-lora">{version.text}</p>
+            {version.secondaryText && <p className="text-sm text-gray-400 font-lora">{version.secondaryText}</p>}
+            {version.imagePrompt !== page.imagePrompt && (
+              <p className="text-xs text-gray-500">Prompt da ilustração: {version.imagePrompt}</p>
+            )}
+          </li>
+        ))}
+        {versions.length === 0 && <li>{renderEmpty()}</li>}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex flex-wrap gap-2">
+          {tabs.map(({ id, label, count }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setTab(id)}
+              className={`text-sm font-semibold py-1 px-3 rounded-full transition-colors ${tab === id ? 'bg-purple-600 text-white' : 'bg-gray-700/80 hover:bg-gray-700 text-gray-300'}`}
+            >
+              {label} ({count})
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar versões">
+          <XIcon />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">Versões da página {page.pageNumber}. Restaurar troca a versão em uso, que continua guardada aqui.</p>
+      {tab === 'images' && renderImages()}
+      {tab === 'narrations' && renderNarrations('primary')}
+      {tab === 'secondaryNarrations' && renderNarrations('secondary')}
+      {tab === 'texts' && renderTexts()}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { PageJobState, StoryPageData, VideoClipProgress } from '../types';
+import VideoIcon from './icons/VideoIcon';
+import XIcon from './icons/XIcon';
+
+interface VideoScenesPanelProps {
+  pages: StoryPageData[];
+  // Andamento de cada clipe da última geração, mantido depois de uma falha para mostrar o que faltou
+  clips: VideoClipProgress[] | undefined;
+  isGenerating: boolean;
+  onGenerate: (pageNumbers: number[]) => void;
+  onClose: () => void;
+}
+
+const clipStateClasses: Record<PageJobState, string> = {
+  queued: 'bg-gray-600 text-gray-200',
+  running: 'bg-purple-500 text-white animate-pulse',
+  ready: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white',
+};
+
+const clipStateLabels: Record<PageJobState, string> = {
+  queued: 'na fila',
+  running: 'animando',
+  ready: 'pronta',
+  failed: 'falhou',
+};
+
+export const VideoScenesPanel: React.FC<VideoScenesPanelProps> = ({ pages, clips, isGenerating, onGenerate, onClose }) => {
+  const illustrated = pages.filter(page => page.imageUrl);
+  // Começa com o livro inteiro; escolher só a página 1 faz um desenho apenas da abertura
+  const [selected, setSelected] = useState<number[]>(() => illustrated.map(page => page.pageNumber));
+
+  // Páginas excluídas ou sem ilustração ficam de fora mesmo que tenham sido marcadas antes
+  const chosen = illustrated.filter(page => selected.includes(page.pageNumber)).map(page => page.pageNumber);
+
+  const toggle = (pageNumber: number) => {
+    setSelected(current => current.includes(pageNumber) ? current.filter(n => n !== pageNumber) : [...current, pageNumber]);
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-sm font-semibold text-purple-300">Cenas do desenho animado</p>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setSelected(chosen.length === illustrated.length ? [] : illustrated.map(page => page.pageNumber))}
+            disabled={isGenerating}
+            className="text-xs text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+          >
+            {chosen.length === illustrated.length ? 'Desmarcar todas' : 'Marcar todas'}
+          </button>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar cenas do desenho">
+            <XIcon />
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {pages.map(page => {
+          const clip = clips?.find(c => c.pageNumber === page.pageNumber);
+          return (
+            <label
+              key={page.pageNumber}
+              className={`relative flex-shrink-0 w-36 bg-gray-800/80 border rounded-lg p-2 ${page.imageUrl ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'} ${chosen.includes(page.pageNumber) ? 'border-purple-400' : 'border-gray-700'}`}
+              title={clip?.message || (page.imageUrl ? undefined : 'Esta página ainda não tem ilustração')}
+            >
+              <div className="w-full aspect-video rounded bg-gray-700 overflow-hidden">
+                {page.imageUrl && <img src={page.imageUrl} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <div className="mt-1 flex items-center justify-between gap-1">
+                <span className="flex items-center space-x-1.5 text-xs font-semibold text-purple-300">
+                  <input
+                    type="checkbox"
+                    checked={chosen.includes(page.pageNumber)}
+                    onChange={() => toggle(page.pageNumber)}
+                    disabled={isGenerating || !page.imageUrl}
+                    className="accent-purple-500"
+                  />
+                  <span>Página {page.pageNumber}</span>
+                </span>
+                {clip && (
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded ${clipStateClasses[clip.state]}`}>{clipStateLabels[clip.state]}</span>
+                )}
+              </div>
+              {clip?.state === 'running' && clip.message && <p className="mt-1 text-[11px] text-gray-400 line-clamp-2">{clip.message}</p>}
+            </label>
+          );
+        })}
+      </div>
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">Cada página vira um clipe animado, com a sua narração por cima. Os clipes são juntados na ordem do livro.</p>
+        <button
+          type="button"
+          onClick={() => onGenerate(chosen)}
+          disabled={isGenerating || chosen.length === 0}
+          className="flex-shrink-0 flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? <div className="w-5 h-5 border-2 border-t-white border-gray-400 rounded-full animate-spin"></div> : <VideoIcon />}
+          <span>{chosen.length === 1 ? 'Animar 1 cena' : `Animar ${chosen.length} cenas`}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
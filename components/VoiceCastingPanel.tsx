@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { PrebuiltVoice, VoiceCast } from '../types';
+import { AVAILABLE_VOICES, VOICE_NAMES } from '../services/voices';
+import XIcon from './icons/XIcon';
+
+interface VoiceCastingPanelProps {
+  narrator: PrebuiltVoice;
+  // Vozes em uso para cada personagem com fala, já com as escolhidas automaticamente
+  voices: Record<string, PrebuiltVoice>;
+  // Quantas falas cada personagem tem no livro
+  lineCounts: Record<string, number>;
+  onSave: (narrator: PrebuiltVoice, voiceCast: VoiceCast) => void;
+  onClose: () => void;
+  disabled: boolean;
+}
+
+const selectClassName = "bg-gray-700 border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2";
+
+export const VoiceCastingPanel: React.FC<VoiceCastingPanelProps> = ({ narrator, voices, lineCounts, onSave, onClose, disabled }) => {
+  const [narratorDraft, setNarratorDraft] = useState(narrator);
+  const [voicesDraft, setVoicesDraft] = useState(voices);
+  const speakers = Object.keys(voices);
+  const hasChanges = narratorDraft !== narrator || speakers.some(speaker => voicesDraft[speaker] !== voices[speaker]);
+
+  const renderVoiceSelect = (value: PrebuiltVoice, onChange: (voice: PrebuiltVoice) => void, label: string) => (
+    <select value={value} onChange={(e) => onChange(e.target.value as PrebuiltVoice)} className={selectClassName} aria-label={label} disabled={disabled}>
+      {AVAILABLE_VOICES.map(voice => (
+        <option key={voice} value={voice}>{VOICE_NAMES[voice]}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mt-4 bg-gray-900/60 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-sm font-semibold text-purple-300">Vozes da história</p>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar vozes">
+          <XIcon />
+        </button>
+      </div>
+      <ul className="space-y-2">
+        <li className="flex items-center justify-between gap-3 bg-gray-800/80 border border-gray-700 rounded-lg p-2">
+          <span className="text-sm text-gray-200 font-semibold">Narrador</span>
+          {renderVoiceSelect(narratorDraft, setNarratorDraft, 'Voz do narrador')}
+        </li>
+        {speakers.map(speaker => (
+          <li key={speaker} className="flex items-center justify-between gap-3 bg-gray-800/80 border border-gray-700 rounded-lg p-2">
+            <span className="text-sm text-gray-200">
+              {speaker}
+              <span className="ml-2 text-xs text-gray-500">
+                {lineCounts[speaker] ? `${lineCounts[speaker]} ${lineCounts[speaker] === 1 ? 'fala' : 'falas'}` : 'sem falas ainda'}
+              </span>
+            </span>
+            {renderVoiceSelect(voicesDraft[speaker], voice => setVoicesDraft({ ...voicesDraft, [speaker]: voice }), `Voz de ${speaker}`)}
+          </li>
+        ))}
+        {speakers.length === 0 && (
+          <li className="text-sm text-gray-500">Nenhum personagem fala neste livro: toda a narração fica com o narrador.</li>
+        )}
+      </ul>
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">As páginas com vozes trocadas ficam desatualizadas até serem regravadas em "Atualizar".</p>
+        <button
+          type="button"
+          onClick={() => onSave(narratorDraft, voicesDraft)}
+          disabled={disabled || !hasChanges}
+          className="flex-shrink-0 bg-purple-600 hover:bg-purple-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Salvar vozes
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+
+const RedoIcon: React.FC = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-5 w-5"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3"
+    />
+  </svg>
+);
+
+export default RedoIcon;
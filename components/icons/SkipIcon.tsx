@@ -0,0 +1,20 @@
+import React from 'react';
+
+const SkipIcon: React.FC = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-5 w-5"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M5 5l7 7-7 7M13 5l7 7-7 7"
+    />
+  </svg>
+);
+
+export default SkipIcon;
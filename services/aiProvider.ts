@@ -0,0 +1,69 @@
+import type { StoryContentResponse, StoryContentRequest, InsertedPageRequest, CastMember, PrebuiltVoice, StoryPageData, StoryBible, IllustrationStyle, ReadingLevel, StoryLanguage, SoundEffectId, SoundscapeRequestPage } from '../types';
+import { geminiProvider, isGeminiConfigured } from './geminiService';
+import { localProvider } from './localProvider';
+
+export type AIProviderId = 'gemini' | 'local';
+
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  models: Readonly<Record<string, string>>;
+  suggestPlot(cast: CastMember[], language: StoryLanguage): Promise<string>;
+  generateTitleFromPlot(plot: string, cast: CastMember[], language: StoryLanguage): Promise<string>;
+  generateStoryBible(plot: string, cast: CastMember[]): Promise<Omit<StoryBible, 'characterSheet'>>;
+  generateStoryContent(request: StoryContentRequest): Promise<StoryContentResponse[]>;
+  generateInsertedPage(request: InsertedPageRequest): Promise<StoryContentResponse>;
+  simplifyPageText(text: string, readingLevel: ReadingLevel, language: StoryLanguage): Promise<string>;
+  // Sonoplastia: os sons da biblioteca que combinam com cada página, na mesma ordem
+  designSoundscape(pages: SoundscapeRequestPage[]): Promise<SoundEffectId[][]>;
+  // Recebe apenas os personagens que aparecem na cena
+  // `variation` acima de 0 pede uma composição diferente da mesma cena, para gerar opções de ilustração
+  generateImage(prompt: string, references: CastMember[], style: IllustrationStyle | null, variation?: number): Promise<string>;
+  generateCharacterSheet(bible: StoryBible, cast: CastMember[], style: IllustrationStyle | null): Promise<string>;
+  // Sem idioma, a narração é em português
+  generateSpeech(text: string, voice?: PrebuiltVoice, language?: StoryLanguage): Promise<string>;
+  generateCoverAudio(title: string, language?: StoryLanguage): Promise<string>;
+  // Anima a ilustração de uma página; o desenho animado junta um clipe por página escolhida
+  generateSceneVideo(title: string, page: StoryPageData, onProgress: (message: string) => void): Promise<Blob>;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+const PROVIDER_STORAGE_KEY = 'fabula-magica:ai-provider';
+
+function loadInitialProviderId(): AIProviderId {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (stored && stored in AI_PROVIDERS) {
+    return stored as AIProviderId;
+  }
+  // Sem chave de API, o app abre no provedor local para que possa ser usado offline
+  return isGeminiConfigured ? 'gemini' : 'local';
+}
+
+let activeProvider: AIProvider = AI_PROVIDERS[loadInitialProviderId()];
+
+export function getActiveProvider(): AIProvider {
+  return activeProvider;
+}
+
+export function setActiveProvider(id: AIProviderId): void {
+  activeProvider = AI_PROVIDERS[id];
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+}
+
+// Atalhos que sempre delegam ao provedor ativo no momento da chamada
+export const suggestPlot: AIProvider['suggestPlot'] = (...args) => activeProvider.suggestPlot(...args);
+export const generateTitleFromPlot: AIProvider['generateTitleFromPlot'] = (...args) => activeProvider.generateTitleFromPlot(...args);
+export const generateStoryBible: AIProvider['generateStoryBible'] = (...args) => activeProvider.generateStoryBible(...args);
+export const generateStoryContent: AIProvider['generateStoryContent'] = (...args) => activeProvider.generateStoryContent(...args);
+export const generateInsertedPage: AIProvider['generateInsertedPage'] = (...args) => activeProvider.generateInsertedPage(...args);
+export const simplifyPageText: AIProvider['simplifyPageText'] = (...args) => activeProvider.simplifyPageText(...args);
+export const designSoundscape: AIProvider['designSoundscape'] = (...args) => activeProvider.designSoundscape(...args);
+export const generateImage: AIProvider['generateImage'] = (...args) => activeProvider.generateImage(...args);
+export const generateCharacterSheet: AIProvider['generateCharacterSheet'] = (...args) => activeProvider.generateCharacterSheet(...args);
+export const generateSpeech: AIProvider['generateSpeech'] = (...args) => activeProvider.generateSpeech(...args);
+export const generateCoverAudio: AIProvider['generateCoverAudio'] = (...args) => activeProvider.generateCoverAudio(...args);
+export const generateSceneVideo: AIProvider['generateSceneVideo'] = (...args) => activeProvider.generateSceneVideo(...args);
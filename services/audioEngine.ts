@@ -0,0 +1,290 @@
+import { createAudioContext, decode, pcmDurationSeconds, pcmToWav } from './audioUtils';
+import { DUCK_ATTACK_SECONDS, DUCK_HOLD_SECONDS, DUCK_LEVEL, DUCK_RELEASE_SECONDS, SPEECH_THRESHOLD } from './musicBed';
+
+export type PlaybackStatus = 'idle' | 'playing' | 'paused';
+
+// O que está carregado no motor: um identificador escolhido por quem toca (a faixa, a capa...)
+export interface PlaybackState {
+  clip: string | null;
+  status: PlaybackStatus;
+}
+
+export interface PlaybackSettings {
+  rate: number;
+  volume: number;
+}
+
+export interface PlayOptions {
+  // Segundos a partir do início do áudio
+  offset?: number;
+  // Só é chamado quando o áudio termina sozinho, nunca ao ser parado ou trocado
+  onEnded?: () => void;
+}
+
+export interface AudioEngine {
+  play: (clip: string, pcmBase64: string, options?: PlayOptions) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  getPosition: () => number;
+  getDuration: () => number;
+  getState: () => PlaybackState;
+  setSettings: (settings: PlaybackSettings) => void;
+  setMusic: (samples: Float32Array | null, volume: number) => void;
+  // Sons ambientes da página aberta, tocados junto com a música
+  setAmbience: (samples: Float32Array | null, volume: number) => void;
+  // Mantém música e sons ambientes tocando entre uma narração e outra, como na leitura automática
+  setBackgroundHeld: (held: boolean) => void;
+  dispose: () => void;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = { rate: 1, volume: 1 };
+export const IDLE_PLAYBACK: PlaybackState = { clip: null, status: 'idle' };
+
+const SETTINGS_STORAGE_KEY = 'fabula-magica:playback-settings';
+const DUCKING_INTERVAL_MS = 50;
+const BACKGROUND_FADE_SECONDS = 0.3;
+
+// Uma camada tocada em laço por baixo da narração: a música de fundo ou os sons ambientes da página
+interface BedLayer {
+  samples: Float32Array | null;
+  buffer: AudioBuffer | null;
+  volume: number;
+  source: AudioBufferSourceNode | null;
+  gain: GainNode | null;
+  startedAt: number;
+  offset: number;
+}
+
+const createLayer = (): BedLayer => ({ samples: null, buffer: null, volume: 0, source: null, gain: null, startedAt: 0, offset: 0 });
+
+export function loadPlaybackSettings(): PlaybackSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_PLAYBACK_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+}
+
+export function savePlaybackSettings(settings: PlaybackSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Motor de reprodução da narração. A fala toca em um elemento <audio>, que muda a velocidade
+// sem mudar o tom da voz, e passa pelo Web Audio para ser misturada à música de fundo e aos sons
+// ambientes, que abaixam sozinhos sempre que o analisador percebe alguém falando.
+// O AudioContext só é criado no primeiro play, que precisa vir de um gesto do usuário.
+export function createAudioEngine(onStateChange: (state: PlaybackState) => void): AudioEngine {
+  const element = new Audio();
+  element.preload = 'auto';
+  let state: PlaybackState = IDLE_PLAYBACK;
+  let settings = DEFAULT_PLAYBACK_SETTINGS;
+  let loadedPcm: string | null = null;
+  let loadedUrl: string | null = null;
+  let loadedDuration = 0;
+  let endedHandler: (() => void) | null = null;
+
+  let graph: { ctx: AudioContext; master: GainNode; analyser: AnalyserNode } | null = null;
+  const music = createLayer();
+  const ambience = createLayer();
+  const layers = [music, ambience];
+  let isBackgroundHeld = false;
+  let isBackgroundPaused = false;
+  let duckingTimer: number | undefined;
+  let lastSpeechAt = -Infinity;
+
+  const setState = (next: PlaybackState) => {
+    state = next;
+    onStateChange(next);
+  };
+
+  const ensureGraph = () => {
+    if (graph) return graph;
+    const ctx = createAudioContext();
+    const master = ctx.createGain();
+    master.gain.value = settings.volume;
+    master.connect(ctx.destination);
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    const narration = ctx.createMediaElementSource(element);
+    narration.connect(master);
+    narration.connect(analyser);
+    graph = { ctx, master, analyser };
+    return graph;
+  };
+
+  const shouldPlayBackground = () => !isBackgroundPaused && (state.status === 'playing' || isBackgroundHeld);
+
+  // Reavalia o volume das camadas a cada pouco, conforme a narração está falando ou não
+  const updateDucking = () => {
+    if (!graph) return;
+    const { ctx, analyser } = graph;
+    const frame = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(frame);
+    const rms = Math.sqrt(frame.reduce((sum, value) => sum + value * value, 0) / frame.length);
+    if (state.status === 'playing' && rms > SPEECH_THRESHOLD) {
+      lastSpeechAt = ctx.currentTime;
+    }
+    const isSpeaking = ctx.currentTime - lastSpeechAt <= DUCK_HOLD_SECONDS;
+    for (const layer of layers) {
+      if (!layer.gain) continue;
+      const target = layer.volume * (isSpeaking ? DUCK_LEVEL : 1);
+      layer.gain.gain.setTargetAtTime(target, ctx.currentTime, target < layer.gain.gain.value ? DUCK_ATTACK_SECONDS : DUCK_RELEASE_SECONDS);
+    }
+  };
+
+  // Cada início ganha o seu próprio ganho, para que o fade de saída do anterior não seja cortado
+  const startLayer = (layer: BedLayer) => {
+    if (layer.source || !layer.samples || layer.samples.length === 0) return;
+    const { ctx, master } = ensureGraph();
+    if (!layer.buffer) {
+      layer.buffer = ctx.createBuffer(1, layer.samples.length, ctx.sampleRate);
+      layer.buffer.getChannelData(0).set(layer.samples);
+    }
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.connect(master);
+    const source = ctx.createBufferSource();
+    source.buffer = layer.buffer;
+    source.loop = true;
+    source.connect(gain);
+    source.start(0, layer.offset % layer.buffer.duration);
+    layer.startedAt = ctx.currentTime - layer.offset;
+    layer.source = source;
+    layer.gain = gain;
+  };
+
+  // A camada sai em fade e, quando volta, continua do ponto em que parou
+  const stopLayer = (layer: BedLayer) => {
+    if (!layer.source || !layer.gain || !graph) return;
+    const { ctx } = graph;
+    layer.offset = ctx.currentTime - layer.startedAt;
+    layer.gain.gain.cancelScheduledValues(ctx.currentTime);
+    layer.gain.gain.setTargetAtTime(0, ctx.currentTime, BACKGROUND_FADE_SECONDS / 3);
+    layer.source.stop(ctx.currentTime + BACKGROUND_FADE_SECONDS);
+    layer.source = null;
+    layer.gain = null;
+  };
+
+  const syncBackground = () => {
+    const shouldPlay = shouldPlayBackground();
+    layers.forEach(layer => (shouldPlay ? startLayer(layer) : stopLayer(layer)));
+    const isPlaying = layers.some(layer => layer.source);
+    if (isPlaying && duckingTimer === undefined) {
+      duckingTimer = window.setInterval(updateDucking, DUCKING_INTERVAL_MS);
+    } else if (!isPlaying && duckingTimer !== undefined) {
+      window.clearInterval(duckingTimer);
+      duckingTimer = undefined;
+    }
+  };
+
+  const setLayer = (layer: BedLayer, samples: Float32Array | null, volume: number) => {
+    layer.volume = volume;
+    if (samples === layer.samples) return;
+    stopLayer(layer);
+    layer.samples = samples;
+    layer.buffer = null;
+    layer.offset = 0;
+    syncBackground();
+  };
+
+  const load = (pcmBase64: string) => {
+    if (pcmBase64 === loadedPcm) return;
+    if (loadedUrl) URL.revokeObjectURL(loadedUrl);
+    const pcm = decode(pcmBase64);
+    loadedUrl = URL.createObjectURL(new Blob([pcmToWav(pcm)], { type: 'audio/wav' }));
+    loadedPcm = pcmBase64;
+    loadedDuration = pcmDurationSeconds(pcm);
+    element.src = loadedUrl;
+    // Trocar o áudio volta a velocidade para a padrão do elemento
+    element.defaultPlaybackRate = settings.rate;
+    element.playbackRate = settings.rate;
+  };
+
+  element.onended = () => {
+    const handler = endedHandler;
+    endedHandler = null;
+    setState({ ...state, status: 'idle' });
+    syncBackground();
+    handler?.();
+  };
+
+  const play = (clip: string, pcmBase64: string, options: PlayOptions = {}) => {
+    const { ctx } = ensureGraph();
+    ctx.resume().catch(console.error);
+    load(pcmBase64);
+    element.currentTime = options.offset ?? 0;
+    endedHandler = options.onEnded ?? null;
+    element.play().catch(error => console.error("Falha ao tocar narração", error));
+    isBackgroundPaused = false;
+    setState({ clip, status: 'playing' });
+    syncBackground();
+  };
+
+  const pause = () => {
+    if (state.status === 'playing') {
+      element.pause();
+      setState({ ...state, status: 'paused' });
+    }
+    isBackgroundPaused = true;
+    syncBackground();
+  };
+
+  const resume = () => {
+    graph?.ctx.resume().catch(console.error);
+    if (state.status === 'paused') {
+      element.play().catch(error => console.error("Falha ao tocar narração", error));
+      setState({ ...state, status: 'playing' });
+    }
+    isBackgroundPaused = false;
+    syncBackground();
+  };
+
+  const stop = () => {
+    endedHandler = null;
+    element.pause();
+    if (state.status !== 'idle' || state.clip !== null) {
+      setState(IDLE_PLAYBACK);
+    }
+    syncBackground();
+  };
+
+  return {
+    play,
+    pause,
+    resume,
+    stop,
+    seek: (seconds) => {
+      element.currentTime = Math.max(0, Math.min(seconds, loadedDuration));
+    },
+    getPosition: () => element.currentTime,
+    getDuration: () => loadedDuration,
+    getState: () => state,
+    setSettings: (next) => {
+      settings = next;
+      element.defaultPlaybackRate = next.rate;
+      element.playbackRate = next.rate;
+      graph?.master.gain.setTargetAtTime(next.volume, graph.ctx.currentTime, 0.02);
+    },
+    setMusic: (samples, volume) => setLayer(music, samples, volume),
+    setAmbience: (samples, volume) => setLayer(ambience, samples, volume),
+    setBackgroundHeld: (held) => {
+      isBackgroundHeld = held;
+      syncBackground();
+    },
+    dispose: () => {
+      endedHandler = null;
+      element.pause();
+      element.removeAttribute('src');
+      window.clearInterval(duckingTimer);
+      duckingTimer = undefined;
+      if (loadedUrl) URL.revokeObjectURL(loadedUrl);
+      if (graph && graph.ctx.state !== 'closed') {
+        graph.ctx.close().catch(console.error);
+      }
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// Taxa de amostragem do PCM de 16 bits mono devolvido pelo modelo de TTS
+export const TTS_SAMPLE_RATE = 24000;
+export const TTS_CHANNELS = 1;
+
+const WAV_HEADER_SIZE = 44;
+
+export function decode(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+// Converte o PCM de 16 bits em amostras de -1 a 1, para análise e mixagem fora de um AudioContext
+export function pcmToFloat32(pcm: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const samples = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    samples[i] = dataInt16[i] / 32768.0;
+  }
+  return samples;
+}
+
+export function float32ToPcm(samples: Float32Array): Uint8Array {
+  const dataInt16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    dataInt16[i] = Math.max(-1, Math.min(1, samples[i])) * 32767;
+  }
+  return new Uint8Array(dataInt16.buffer);
+}
+
+export function createAudioContext(): AudioContext {
+  return new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: TTS_SAMPLE_RATE });
+}
+
+// Monta um bloco RIFF (identificador, tamanho e conteúdo com preenchimento para tamanho par)
+export function riffChunk(id: string, payload: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + payload.byteLength + (payload.byteLength % 2));
+  const view = new DataView(chunk.buffer);
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(i, id.charCodeAt(i));
+  }
+  view.setUint32(4, payload.byteLength, true);
+  chunk.set(payload, 8);
+  return chunk;
+}
+
+// Envolve PCM de 16 bits em um cabeçalho RIFF/WAVE para que possa ser salvo ou reproduzido fora do app.
+// Blocos extras (marcadores, metadados) são gravados depois do bloco "data".
+export function pcmToWav(pcm: Uint8Array, sampleRate = TTS_SAMPLE_RATE, numChannels = TTS_CHANNELS, extraChunks: Uint8Array[] = []): Uint8Array {
+  const extraSize = extraChunks.reduce((total, chunk) => total + chunk.byteLength, 0);
+  const dataPadding = pcm.byteLength % 2;
+  const wav = new Uint8Array(WAV_HEADER_SIZE + pcm.byteLength + dataPadding + extraSize);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, wav.byteLength - 8, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  wav.set(pcm, WAV_HEADER_SIZE);
+
+  let offset = WAV_HEADER_SIZE + pcm.byteLength + dataPadding;
+  for (const chunk of extraChunks) {
+    wav.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return wav;
+}
+
+// Extrai o PCM bruto de um WAV gerado por `pcmToWav`, procurando o bloco "data"
+export function wavToPcm(wav: Uint8Array): Uint8Array {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  let offset = 12;
+  while (offset + 8 <= wav.byteLength) {
+    const chunkId = String.fromCharCode(...wav.subarray(offset, offset + 4));
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'data') {
+      return wav.slice(offset + 8, offset + 8 + chunkSize);
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("Arquivo WAV sem bloco de dados de áudio.");
+}
+
+export function pcmDurationSeconds(pcm: Uint8Array, sampleRate = TTS_SAMPLE_RATE, numChannels = TTS_CHANNELS): number {
+  return pcm.byteLength / (2 * numChannels * sampleRate);
+}
+
+// Codifica PCM de 16 bits mono em MP3, o formato de áudio aceito por leitores de EPUB e players em geral
+export function encodeMp3(pcm: Uint8Array, sampleRate = TTS_SAMPLE_RATE, kbps = 64): Uint8Array {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const frameSize = 1152;
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < samples.length; i += frameSize) {
+    const chunk = encoder.encodeBuffer(samples.subarray(i, i + frameSize));
+    if (chunk.length > 0) chunks.push(chunk);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+
+  const mp3 = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    mp3.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return mp3;
+}
@@ -0,0 +1,254 @@
+import type { BackgroundMusic, StoryPageData, UploadedImage } from '../types';
+import { decode, encodeMp3, pcmToWav, riffChunk, TTS_SAMPLE_RATE, TTS_CHANNELS } from './audioUtils';
+import { cropImageToAspect } from './imageUtils';
+import { dataUrlToBytes } from './fileUtils';
+import { mixMusicBed, musicSamples } from './musicBed';
+
+export interface AudiobookOptions {
+  gapSeconds: number;
+  chime: boolean;
+  // Só vale para livros com música de fundo escolhida
+  music: boolean;
+}
+
+export const DEFAULT_AUDIOBOOK_OPTIONS: AudiobookOptions = { gapSeconds: 1.5, chime: true, music: true };
+
+interface AudiobookSource {
+  title: string;
+  pages: StoryPageData[];
+  coverAudioData: string | null;
+  characterImage: UploadedImage | null;
+  music: BackgroundMusic | null;
+}
+
+interface Chapter {
+  title: string;
+  startSample: number;
+  endSample: number;
+}
+
+interface AudiobookTrack {
+  samples: Int16Array;
+  chapters: Chapter[];
+}
+
+const ARTIST = 'Fábula Mágica AI';
+const CHIME_SECONDS = 0.9;
+
+// Sininho suave (duas notas com decaimento exponencial) usado para marcar a virada de página
+function synthesizeChime(sampleRate: number): Int16Array {
+  const length = Math.round(CHIME_SECONDS * sampleRate);
+  const samples = new Int16Array(length);
+  const notes = [
+    { frequency: 1318.5, start: 0 },
+    { frequency: 1760, start: 0.12 },
+  ];
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    let value = 0;
+    for (const note of notes) {
+      if (t < note.start) continue;
+      const local = t - note.start;
+      value += Math.sin(2 * Math.PI * note.frequency * local) * Math.exp(-local * 6) * 0.18;
+    }
+    samples[i] = Math.max(-1, Math.min(1, value)) * 32767;
+  }
+  return samples;
+}
+
+function toSamples(base64Pcm: string): Int16Array {
+  const bytes = decode(base64Pcm);
+  return new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+}
+
+function concatSamples(parts: Int16Array[]): Int16Array {
+  const result = new Int16Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function buildAudiobookTrack({ title, pages, coverAudioData, music }: AudiobookSource, options: AudiobookOptions): AudiobookTrack {
+  const silence = new Int16Array(Math.round(options.gapSeconds * TTS_SAMPLE_RATE));
+  const segments: { title: string; samples: Int16Array }[] = [];
+  if (coverAudioData) {
+    segments.push({ title, samples: toSamples(coverAudioData) });
+  }
+  // Em livros bilíngues, a narração no segundo idioma segue a primeira dentro do mesmo capítulo
+  pages.filter(page => page.audioData).forEach(page => {
+    const samples = page.secondaryAudioData
+      ? concatSamples([toSamples(page.audioData), silence, toSamples(page.secondaryAudioData)])
+      : toSamples(page.audioData);
+    segments.push({ title: `Página ${page.pageNumber}`, samples });
+  });
+  if (segments.length === 0) {
+    throw new Error("Nenhuma página possui narração para montar o audiolivro.");
+  }
+
+  const chime = options.chime ? synthesizeChime(TTS_SAMPLE_RATE) : new Int16Array(0);
+  const transitionLength = silence.length * 2 + chime.length;
+  const totalLength = segments.reduce((total, segment) => total + segment.samples.length, 0)
+    + transitionLength * (segments.length - 1);
+
+  // A transição (silêncio, sininho, silêncio) pertence ao capítulo anterior
+  const samples = new Int16Array(totalLength);
+  const chapters: Chapter[] = [];
+  let offset = 0;
+  segments.forEach((segment, index) => {
+    const startSample = offset;
+    samples.set(segment.samples, offset);
+    offset += segment.samples.length;
+    if (index < segments.length - 1) {
+      offset += silence.length;
+      samples.set(chime, offset);
+      offset += chime.length + silence.length;
+    }
+    chapters.push({ title: segment.title, startSample, endSample: offset });
+  });
+
+  // A música corre por baixo do livro inteiro, inclusive nas pausas entre as páginas
+  if (options.music && music) {
+    return { samples: mixMusicBed(samples, musicSamples(music), music.volume), chapters };
+  }
+  return { samples, chapters };
+}
+
+const toBytes = (samples: Int16Array) => new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+function uint32(value: number, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+}
+
+// --- WAV: marcadores "cue " com rótulos (LIST/adtl) e metadados LIST/INFO ---
+
+function buildWavChunks(title: string, chapters: Chapter[]): Uint8Array[] {
+  const cuePoints = chapters.map((chapter, index) => concatBytes([
+    uint32(index + 1, true),
+    uint32(chapter.startSample, true),
+    utf8('data'),
+    uint32(0, true),
+    uint32(0, true),
+    uint32(chapter.startSample, true),
+  ]));
+  const cue = riffChunk('cue ', concatBytes([uint32(chapters.length, true), ...cuePoints]));
+
+  const labels = chapters.map((chapter, index) =>
+    riffChunk('labl', concatBytes([uint32(index + 1, true), utf8(chapter.title), new Uint8Array(1)])),
+  );
+  const adtl = riffChunk('LIST', concatBytes([utf8('adtl'), ...labels]));
+
+  const info = riffChunk('LIST', concatBytes([
+    utf8('INFO'),
+    riffChunk('INAM', concatBytes([utf8(title), new Uint8Array(1)])),
+    riffChunk('IART', concatBytes([utf8(ARTIST), new Uint8Array(1)])),
+  ]));
+
+  return [cue, adtl, info];
+}
+
+// --- MP3: etiqueta ID3v2.3 com título, capa (APIC) e capítulos (CHAP/CTOC) ---
+
+function id3Text(value: string): Uint8Array {
+  // Codificação 1 = UTF-16 com BOM, necessária para acentos no ID3v2.3
+  const bytes = new Uint8Array(3 + value.length * 2);
+  bytes[0] = 1;
+  bytes[1] = 0xff;
+  bytes[2] = 0xfe;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[3 + i * 2] = code & 0xff;
+    bytes[4 + i * 2] = code >> 8;
+  }
+  return bytes;
+}
+
+function id3Frame(id: string, payload: Uint8Array): Uint8Array {
+  return concatBytes([utf8(id), uint32(payload.byteLength, false), new Uint8Array(2), payload]);
+}
+
+function synchsafe(value: number): Uint8Array {
+  return new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+function buildId3Tag(title: string, chapters: Chapter[], artwork: { bytes: Uint8Array; mimeType: string } | null): Uint8Array {
+  const toMs = (sample: number) => Math.round((sample / TTS_SAMPLE_RATE) * 1000);
+  const frames: Uint8Array[] = [
+    id3Frame('TIT2', id3Text(title)),
+    id3Frame('TALB', id3Text(title)),
+    id3Frame('TPE1', id3Text(ARTIST)),
+    id3Frame('TCON', id3Text('Audiobook')),
+  ];
+
+  if (artwork) {
+    frames.push(id3Frame('APIC', concatBytes([
+      new Uint8Array([0]),
+      utf8(artwork.mimeType),
+      new Uint8Array([0, 0x03, 0]),
+      artwork.bytes,
+    ])));
+  }
+
+  const chapterIds = chapters.map((_, index) => `ch${index + 1}`);
+  frames.push(id3Frame('CTOC', concatBytes([
+    utf8('toc'),
+    new Uint8Array([0, 0x03, chapters.length]),
+    ...chapterIds.map(id => concatBytes([utf8(id), new Uint8Array(1)])),
+    id3Frame('TIT2', id3Text(title)),
+  ])));
+  chapters.forEach((chapter, index) => {
+    frames.push(id3Frame('CHAP', concatBytes([
+      utf8(chapterIds[index]),
+      new Uint8Array(1),
+      uint32(toMs(chapter.startSample), false),
+      uint32(toMs(chapter.endSample), false),
+      uint32(0xffffffff, false),
+      uint32(0xffffffff, false),
+      id3Frame('TIT2', id3Text(chapter.title)),
+    ])));
+  });
+
+  const body = concatBytes(frames);
+  return concatBytes([utf8('ID3'), new Uint8Array([3, 0, 0]), synchsafe(body.byteLength), body]);
+}
+
+async function buildArtwork({ characterImage, pages }: AudiobookSource) {
+  const source = characterImage
+    ? `data:${characterImage.mimeType};base64,${characterImage.base64}`
+    : pages.find(page => page.imageUrl)?.imageUrl;
+  if (!source) return null;
+  try {
+    return dataUrlToBytes(await cropImageToAspect(source, 1, 1000));
+  } catch (error) {
+    console.error("Erro ao preparar a capa do audiolivro:", error);
+    return null;
+  }
+}
+
+export function buildAudiobookWav(source: AudiobookSource, options: AudiobookOptions): Blob {
+  const { samples, chapters } = buildAudiobookTrack(source, options);
+  const wav = pcmToWav(toBytes(samples), TTS_SAMPLE_RATE, TTS_CHANNELS, buildWavChunks(source.title, chapters));
+  return new Blob([wav], { type: 'audio/wav' });
+}
+
+export async function buildAudiobookMp3(source: AudiobookSource, options: AudiobookOptions): Promise<Blob> {
+  const { samples, chapters } = buildAudiobookTrack(source, options);
+  const tag = buildId3Tag(source.title, chapters, await buildArtwork(source));
+  const mp3 = encodeMp3(toBytes(samples), TTS_SAMPLE_RATE, 96);
+  return new Blob([tag, mp3], { type: 'audio/mpeg' });
+}
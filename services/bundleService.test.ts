@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { importStoryBundle, BUNDLE_FORMAT, BUNDLE_SCHEMA_VERSION } from './bundleService';
+
+// O provedor de IA depende do navegador; a importação só precisa do registro de provedores
+vi.mock('./aiProvider', () => ({
+  AI_PROVIDERS: {},
+  getActiveProvider: () => ({ id: 'local', models: {} }),
+}));
+
+const HERO_PNG = new Uint8Array([137, 80, 78, 71]);
+
+function baseManifest(schemaVersion: number) {
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    story: { title: 'O Dragão Gentil', plot: 'Um dragão aprende a dividir.', voice: 'Zephyr', status: 'complete', createdAt: 1, updatedAt: 2 },
+    models: {},
+    audio: { sampleRate: 24000, channels: 1, bitsPerSample: 16 },
+    coverAudio: null,
+    video: null,
+    pages: [{ pageNumber: 1, text: 'Era uma vez.', imagePrompt: 'Um dragão.', image: null, audio: null }],
+  };
+}
+
+function bundle(manifest: unknown, extraFiles: Record<string, Uint8Array> = {}): Blob {
+  const files = { 'manifest.json': strToU8(typeof manifest === 'string' ? manifest : JSON.stringify(manifest)), ...extraFiles };
+  return new Blob([zipSync(files)]);
+}
+
+describe('importStoryBundle', () => {
+  beforeEach(() => {
+    // Os erros de leitura também são registrados no console; aqui só interessa a mensagem devolvida
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('atualiza um pacote v1: provedor Gemini e herói como elenco', async () => {
+    const manifest = { ...baseManifest(1), characterImage: { path: 'cast/hero.png', mimeType: 'image/png' } };
+    const story = await importStoryBundle(bundle(manifest, { 'cast/hero.png': HERO_PNG }));
+
+    expect(story.provider).toBe('gemini');
+    expect(story.cast).toHaveLength(1);
+    expect(story.cast[0]).toMatchObject({ id: 'hero', name: 'Herói', image: { mimeType: 'image/png' } });
+    expect(story.pages[0].text).toBe('Era uma vez.');
+  });
+
+  it('atualiza um pacote v2 sem herói para um elenco vazio', async () => {
+    const manifest = { ...baseManifest(2), provider: 'local', characterImage: null };
+    const story = await importStoryBundle(bundle(manifest));
+
+    expect(story.provider).toBe('local');
+    expect(story.cast).toEqual([]);
+  });
+
+  it('lê um pacote da versão atual sem migrar', async () => {
+    const manifest = { ...baseManifest(BUNDLE_SCHEMA_VERSION), provider: 'local', cast: [{ id: 'c1', name: 'Lia', description: 'Uma menina curiosa', image: null }] };
+    const story = await importStoryBundle(bundle(manifest));
+
+    expect(story.cast).toEqual([{ id: 'c1', name: 'Lia', description: 'Uma menina curiosa', image: null }]);
+    expect(story.title).toBe('O Dragão Gentil');
+  });
+
+  it('recusa pacotes de uma versão mais nova', async () => {
+    const manifest = { ...baseManifest(BUNDLE_SCHEMA_VERSION + 1), provider: 'local', cast: [] };
+    await expect(importStoryBundle(bundle(manifest))).rejects.toThrow('versão mais nova');
+  });
+
+  it('recusa versões que não podem ser atualizadas', async () => {
+    await expect(importStoryBundle(bundle(baseManifest(0)))).rejects.toThrow('Não há como atualizar livros na versão 0');
+  });
+
+  it('recusa manifestos de outro formato ou ilegíveis com a mensagem amigável', async () => {
+    const message = 'O arquivo não é um livro do Fábula Mágica.';
+    await expect(importStoryBundle(bundle({ ...baseManifest(3), format: 'outro' }))).rejects.toThrow(message);
+    await expect(importStoryBundle(bundle('null'))).rejects.toThrow(message);
+    await expect(importStoryBundle(bundle('{ "format": '))).rejects.toThrow(message);
+  });
+
+  it('recusa arquivos que não são zip', async () => {
+    await expect(importStoryBundle(new Blob(['não é um zip']))).rejects.toThrow('Não foi possível ler o arquivo do livro.');
+  });
+});
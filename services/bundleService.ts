@@ -0,0 +1,320 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import type { Zippable } from 'fflate';
+import type { StoredStory, StoryPageData, PageHistory, ImageVersion, NarrationVersion, PrebuiltVoice, StoryStatus, CastMember, StoryBible, IllustrationStyle, ReadingLevel, BookLanguage, VoiceCast, BackgroundMusic } from '../types';
+import { getActiveProvider, AI_PROVIDERS } from './aiProvider';
+import type { AIProviderId } from './aiProvider';
+import { createStoryId } from './libraryService';
+import { decode, encode, pcmToWav, wavToPcm, TTS_SAMPLE_RATE, TTS_CHANNELS } from './audioUtils';
+import { dataUrlToBytes, bytesToDataUrl, extensionForMimeType } from './fileUtils';
+
+export const BUNDLE_FORMAT = 'fabula-magica-bundle';
+export const BUNDLE_SCHEMA_VERSION = 3;
+export const BUNDLE_EXTENSION = 'fabula';
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface BundleFileRef {
+  path: string;
+  mimeType: string;
+}
+
+type BundleNarrationVersion = Omit<NarrationVersion, 'audioData'> & {
+  audio: BundleFileRef | null;
+};
+
+type BundleImageVersion = Omit<ImageVersion, 'imageUrl'> & {
+  image: BundleFileRef | null;
+};
+
+type BundlePageHistory = Omit<PageHistory, 'images' | 'narrations' | 'secondaryNarrations'> & {
+  images: BundleImageVersion[];
+  narrations: BundleNarrationVersion[];
+  secondaryNarrations: BundleNarrationVersion[];
+};
+
+// Os campos binários da página viram arquivos separados; todo o resto é copiado como está
+type BundlePage = Omit<StoryPageData, 'imageUrl' | 'audioData' | 'secondaryAudioData' | 'history' | 'imageCandidates'> & {
+  image: BundleFileRef | null;
+  audio: BundleFileRef | null;
+  // Opcional: presente apenas em livros bilíngues
+  secondaryAudio?: BundleFileRef | null;
+  // Opcional: presente apenas em páginas com versões anteriores
+  history?: BundlePageHistory;
+  // Opcional: presente apenas em páginas com opções de ilustração esperando a escolha
+  imageCandidates?: BundleImageVersion[];
+};
+
+type BundleCastMember = Omit<CastMember, 'image'> & {
+  image: BundleFileRef | null;
+};
+
+type BundleBible = Omit<StoryBible, 'characterSheet'> & {
+  characterSheet: BundleFileRef | null;
+};
+
+type BundleMusic = Omit<BackgroundMusic, 'uploadAudioData'> & {
+  upload: BundleFileRef | null;
+};
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: typeof BUNDLE_SCHEMA_VERSION;
+  exportedAt: string;
+  story: {
+    title: string;
+    plot: string;
+    voice: PrebuiltVoice;
+    voiceCast?: VoiceCast;
+    illustrationStyle?: IllustrationStyle;
+    readingLevel?: ReadingLevel;
+    language?: BookLanguage;
+    status: StoryStatus;
+    createdAt: number;
+    updatedAt: number;
+  };
+  provider: string;
+  models: Record<string, string>;
+  audio: {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+  };
+  cast: BundleCastMember[];
+  // Opcional: ausente em pacotes anteriores à bíblia de personagens
+  bible?: BundleBible | null;
+  coverAudio: BundleFileRef | null;
+  // Opcional: ausente em pacotes anteriores à música de fundo
+  music?: BundleMusic | null;
+  video: BundleFileRef | null;
+  pages: BundlePage[];
+}
+
+// Manifestos das versões anteriores do formato, como eram gravados
+// v2: antes do elenco, o livro tinha uma única imagem de herói
+type BundleManifestV2 = Omit<BundleManifest, 'schemaVersion' | 'cast'> & {
+  schemaVersion: 2;
+  characterImage: BundleFileRef | null;
+};
+
+// v1: antes do registro do provedor de IA
+type BundleManifestV1 = Omit<BundleManifestV2, 'schemaVersion' | 'provider'> & {
+  schemaVersion: 1;
+};
+
+type VersionedBundleManifest = BundleManifestV1 | BundleManifestV2 | BundleManifest;
+
+// Todos os livros da v1 foram gerados com o Gemini
+const migrateV1ToV2 = (manifest: BundleManifestV1): BundleManifestV2 => ({ ...manifest, schemaVersion: 2, provider: 'gemini' });
+
+const migrateV2ToV3 = ({ characterImage, ...manifest }: BundleManifestV2): BundleManifest => ({
+  ...manifest,
+  schemaVersion: 3,
+  cast: characterImage ? [{ id: 'hero', name: 'Herói', description: '', image: characterImage }] : [],
+});
+
+// Só o formato e a versão são conferidos; o restante do manifesto é confiado a quem exportou o pacote
+function migrateManifest(manifest: unknown): BundleManifest {
+  if (typeof manifest !== 'object' || manifest === null) {
+    throw new Error("O arquivo não é um livro do Fábula Mágica.");
+  }
+  const { format, schemaVersion } = manifest as { format?: unknown; schemaVersion?: unknown };
+  if (format !== BUNDLE_FORMAT || typeof schemaVersion !== 'number') {
+    throw new Error("O arquivo não é um livro do Fábula Mágica.");
+  }
+  if (schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error("Este livro foi exportado por uma versão mais nova do Fábula Mágica.");
+  }
+
+  // Cada passo leva o manifesto para a versão seguinte, até chegar à atual
+  let migrated = manifest as VersionedBundleManifest;
+  if (migrated.schemaVersion === 1) migrated = migrateV1ToV2(migrated);
+  if (migrated.schemaVersion === 2) migrated = migrateV2ToV3(migrated);
+  if (migrated.schemaVersion !== BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`Não há como atualizar livros na versão ${schemaVersion} do formato.`);
+  }
+  return migrated;
+}
+
+// O pacote registra quem gerou o livro; livros anteriores a esse registro ficam com o provedor ativo
+function storyGenerator(story: StoredStory): { id: string; models: Record<string, string> } {
+  if (!story.provider) return getActiveProvider();
+  return AI_PROVIDERS[story.provider as AIProviderId] ?? { id: story.provider, models: {} };
+}
+
+export async function exportStoryBundle(story: StoredStory): Promise<Blob> {
+  const generator = storyGenerator(story);
+  // Imagens e vídeo já são comprimidos; armazená-los sem compressão acelera a exportação
+  const files: Zippable = {};
+
+  const addImage = (dataUrl: string, basePath: string): BundleFileRef | null => {
+    if (!dataUrl) return null;
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const path = `${basePath}.${extensionForMimeType(mimeType)}`;
+    files[path] = [bytes, { level: 0 }];
+    return { path, mimeType };
+  };
+
+  const addAudio = (base64Pcm: string, basePath: string): BundleFileRef | null => {
+    if (!base64Pcm) return null;
+    const path = `${basePath}.wav`;
+    files[path] = pcmToWav(decode(base64Pcm));
+    return { path, mimeType: 'audio/wav' };
+  };
+
+  // Versões anteriores ficam em arquivos numerados pela posição no histórico
+  const addHistory = (history: PageHistory, baseName: string): BundlePageHistory => {
+    const addNarrations = (versions: NarrationVersion[], suffix: string) =>
+      versions.map(({ audioData, ...version }, index) => ({ ...version, audio: addAudio(audioData, `audio/history/${baseName}${suffix}-v${index + 1}`) }));
+    return {
+      ...history,
+      images: history.images.map(({ imageUrl, ...version }, index) => ({ ...version, image: addImage(imageUrl, `images/history/${baseName}-v${index + 1}`) })),
+      narrations: addNarrations(history.narrations, ''),
+      secondaryNarrations: addNarrations(history.secondaryNarrations, '-secondary'),
+    };
+  };
+
+  const pages: BundlePage[] = story.pages.map(({ imageUrl, audioData, secondaryAudioData, history, imageCandidates, ...page }) => {
+    const baseName = `page-${String(page.pageNumber).padStart(3, '0')}`;
+    return {
+      ...page,
+      image: addImage(imageUrl, `images/${baseName}`),
+      audio: addAudio(audioData, `audio/${baseName}`),
+      ...(page.secondaryText !== undefined && { secondaryAudio: addAudio(secondaryAudioData ?? '', `audio/${baseName}-secondary`) }),
+      ...(history && { history: addHistory(history, baseName) }),
+      ...(imageCandidates && {
+        imageCandidates: imageCandidates.map(({ imageUrl, ...candidate }, index) => ({ ...candidate, image: addImage(imageUrl, `images/candidates/${baseName}-${index + 1}`) })),
+      }),
+    };
+  });
+
+  let video: BundleFileRef | null = null;
+  if (story.video) {
+    const mimeType = story.video.type || 'video/mp4';
+    video = { path: `video/story.${extensionForMimeType(mimeType)}`, mimeType };
+    files[video.path] = [new Uint8Array(await story.video.arrayBuffer()), { level: 0 }];
+  }
+
+  let music: BundleMusic | null = null;
+  if (story.music) {
+    const { uploadAudioData, ...settings } = story.music;
+    music = { ...settings, upload: uploadAudioData ? addAudio(uploadAudioData, 'audio/music') : null };
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    story: {
+      title: story.title,
+      plot: story.plot,
+      voice: story.voice,
+      voiceCast: story.voiceCast,
+      illustrationStyle: story.illustrationStyle,
+      readingLevel: story.readingLevel,
+      language: story.language,
+      status: story.status,
+      createdAt: story.createdAt,
+      updatedAt: story.updatedAt,
+    },
+    provider: generator.id,
+    models: { ...generator.models },
+    audio: { sampleRate: TTS_SAMPLE_RATE, channels: TTS_CHANNELS, bitsPerSample: 16 },
+    cast: story.cast.map(({ image, ...member }, index) => ({
+      ...member,
+      image: image ? addImage(`data:${image.mimeType};base64,${image.base64}`, `images/cast-${index + 1}`) : null,
+    })),
+    bible: story.bible
+      ? { ...story.bible, characterSheet: story.bible.characterSheet ? addImage(story.bible.characterSheet, 'images/character-sheet') : null }
+      : null,
+    coverAudio: story.coverAudioData ? addAudio(story.coverAudioData, 'audio/cover') : null,
+    music,
+    video,
+    pages,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+}
+
+export async function importStoryBundle(file: Blob): Promise<StoredStory> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.error("Erro ao abrir o pacote do livro:", error);
+    throw new Error("Não foi possível ler o arquivo do livro.");
+  }
+
+  const manifestBytes = entries[MANIFEST_PATH];
+  if (!manifestBytes) {
+    throw new Error("O arquivo não é um livro do Fábula Mágica.");
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(manifestBytes));
+  } catch (error) {
+    console.error("Erro ao ler o manifesto do livro:", error);
+    throw new Error("O arquivo não é um livro do Fábula Mágica.");
+  }
+  const manifest = migrateManifest(parsed);
+
+  const readFile = (ref: BundleFileRef): Uint8Array => {
+    const bytes = entries[ref.path];
+    if (!bytes) {
+      throw new Error(`O livro está incompleto: falta o arquivo ${ref.path}.`);
+    }
+    return bytes;
+  };
+  const readImage = (ref: BundleFileRef | null) => (ref ? bytesToDataUrl(readFile(ref), ref.mimeType) : '');
+  const readAudio = (ref: BundleFileRef | null) => (ref ? encode(wavToPcm(readFile(ref))) : '');
+
+  const readNarrations = (versions: BundleNarrationVersion[]): NarrationVersion[] =>
+    versions.map(({ audio, ...version }) => ({ ...version, audioData: readAudio(audio) }));
+  const readHistory = (history: BundlePageHistory): PageHistory => ({
+    ...history,
+    images: history.images.map(({ image, ...version }) => ({ ...version, imageUrl: readImage(image) })),
+    narrations: readNarrations(history.narrations),
+    secondaryNarrations: readNarrations(history.secondaryNarrations),
+  });
+
+  const pages: StoryPageData[] = manifest.pages.map(({ image, audio, secondaryAudio, history, imageCandidates, ...page }) => ({
+    ...page,
+    imageUrl: readImage(image),
+    audioData: readAudio(audio),
+    ...(page.secondaryText !== undefined && { secondaryAudioData: readAudio(secondaryAudio ?? null) }),
+    ...(history && { history: readHistory(history) }),
+    ...(imageCandidates && { imageCandidates: imageCandidates.map(({ image, ...candidate }) => ({ ...candidate, imageUrl: readImage(image) })) }),
+  }));
+
+  const cast: CastMember[] = manifest.cast.map(({ image, ...member }) => ({
+    ...member,
+    image: image ? { base64: encode(readFile(image)), mimeType: image.mimeType } : null,
+  }));
+
+  let music: BackgroundMusic | null = null;
+  if (manifest.music) {
+    const { upload, ...settings } = manifest.music;
+    music = { ...settings, ...(upload && { uploadAudioData: readAudio(upload) }) };
+  }
+
+  return {
+    id: createStoryId(),
+    title: manifest.story.title,
+    plot: manifest.story.plot,
+    pages,
+    cast,
+    bible: manifest.bible ? { ...manifest.bible, characterSheet: readImage(manifest.bible.characterSheet) || null } : undefined,
+    illustrationStyle: manifest.story.illustrationStyle,
+    readingLevel: manifest.story.readingLevel,
+    language: manifest.story.language,
+    voice: manifest.story.voice,
+    voiceCast: manifest.story.voiceCast,
+    music,
+    coverAudioData: manifest.coverAudio ? readAudio(manifest.coverAudio) : null,
+    video: manifest.video ? new Blob([readFile(manifest.video)], { type: manifest.video.mimeType }) : null,
+    provider: manifest.provider,
+    status: manifest.story.status,
+    createdAt: manifest.story.createdAt,
+    updatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,20 @@
+import type { CastMember, UploadedImage } from '../types';
+
+export function createCastMember(name = '', image: UploadedImage | null = null): CastMember {
+  return { id: crypto.randomUUID(), name, description: '', image };
+}
+
+// Livros antigos tinham só uma imagem de herói; ela vira o primeiro (e único) personagem do elenco
+export function castFromLegacyImage(characterImage: UploadedImage | null | undefined): CastMember[] {
+  return characterImage ? [createCastMember('Herói', characterImage)] : [];
+}
+
+export const normalizeCharacterName = (name: string) => name.trim().toLocaleLowerCase('pt-BR');
+
+// Referências a enviar para a ilustração de uma página: só os personagens que aparecem nela.
+// Páginas sem a lista (livros antigos) usam o elenco inteiro, como antes
+export function castForPage(cast: CastMember[], characters: string[] | undefined): CastMember[] {
+  if (!characters) return cast;
+  const names = new Set(characters.map(normalizeCharacterName));
+  return cast.filter(member => names.has(normalizeCharacterName(member.name)));
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { splitDialogue, pageDialogue, listSpeakers, speakerVoices } from './dialogue';
+import { AVAILABLE_VOICES } from './voices';
+
+const names = ['Lia', 'Dragão'];
+
+describe('splitDialogue', () => {
+  it('atribui a fala ao personagem citado logo depois dela', () => {
+    expect(splitDialogue('— Vamos brincar! — disse Lia.', names)).toEqual([
+      { speaker: 'Lia', text: '— Vamos brincar!' },
+      { speaker: null, text: '— disse Lia.' },
+    ]);
+  });
+
+  it('usa o personagem citado antes da fala quando não há ninguém depois', () => {
+    expect(splitDialogue('O Dragão sorriu e falou: “Eu também quero!”', names)).toEqual([
+      { speaker: null, text: 'O Dragão sorriu e falou:' },
+      { speaker: 'Dragão', text: '“Eu também quero!”' },
+    ]);
+  });
+
+  it('deixa com o narrador as falas sem personagem conhecido', () => {
+    expect(splitDialogue('Alguém sussurrou: "Olá?"', names)).toEqual([
+      { speaker: null, text: 'Alguém sussurrou:' },
+      { speaker: null, text: '"Olá?"' },
+    ]);
+  });
+
+  it('não confunde nomes com pedaços de outras palavras', () => {
+    expect(splitDialogue('"Que dia lindo!", disse Liana.', names)[0]).toEqual({ speaker: null, text: '"Que dia lindo!"' });
+  });
+});
+
+describe('pageDialogue', () => {
+  it('usa a marcação da geração enquanto ela cobrir o texto da página', () => {
+    const dialogue = [{ speaker: null, text: 'Lia olhou para o céu.' }, { speaker: 'Lia', text: '“Que lindo!”' }];
+    expect(pageDialogue({ text: 'Lia olhou para o céu. “Que lindo!”', dialogue }, names)).toBe(dialogue);
+  });
+
+  it('refaz a divisão quando o texto foi editado', () => {
+    const dialogue = [{ speaker: 'Lia', text: '“Que lindo!”' }];
+    expect(pageDialogue({ text: '“Que bonito!”, disse o Dragão.', dialogue }, names)[0]).toEqual({ speaker: 'Dragão', text: '“Que bonito!”' });
+  });
+});
+
+describe('listSpeakers', () => {
+  it('lista o elenco sem repetições e depois quem só aparece falando', () => {
+    const dialogues = [[{ speaker: 'Coruja', text: 'Uhu!' }, { speaker: 'Lia', text: 'Oi!' }, { speaker: null, text: 'Fim.' }]];
+    expect(listSpeakers(['Lia', '', 'Lia', 'Dragão'], dialogues)).toEqual(['Lia', 'Dragão', 'Coruja']);
+  });
+});
+
+describe('speakerVoices', () => {
+  it('mantém as vozes escolhidas e dá às demais uma voz diferente da do narrador', () => {
+    const narrator = AVAILABLE_VOICES[0];
+    const voices = speakerVoices(['Lia', 'Dragão'], { Lia: narrator }, narrator);
+    expect(voices.Lia).toBe(narrator);
+    expect(voices['Dragão']).not.toBe(narrator);
+  });
+});
@@ -0,0 +1,92 @@
+import type { DialogueSegment, PrebuiltVoice, StoryPageData, VoiceCast } from '../types';
+import { AVAILABLE_VOICES } from './voices';
+
+// Falas entre aspas ou abertas por travessão no começo da linha (até o próximo travessão)
+const QUOTED_SPEECH = /“[^”]+”|"[^"]+"|«[^»]+»/g;
+const DASHED_SPEECH = /(^|\n)[ \t]*(—[^—\n]+)/g;
+// Quanto do texto em volta de uma fala é procurado para descobrir quem fala
+const ATTRIBUTION_WINDOW = 80;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function findName(text: string, names: string[], fromEnd: boolean): string | null {
+  let best: { name: string; index: number } | null = null;
+  for (const name of names) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'giu');
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      if (!best || (fromEnd ? index > best.index : index < best.index)) {
+        best = { name, index };
+      }
+    }
+  }
+  return best?.name ?? null;
+}
+
+function speechSpans(text: string): Span[] {
+  const spans: Span[] = [];
+  for (const match of text.matchAll(QUOTED_SPEECH)) {
+    spans.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+  }
+  for (const match of text.matchAll(DASHED_SPEECH)) {
+    const start = (match.index ?? 0) + match[0].length - match[2].length;
+    spans.push({ start, end: start + match[2].trimEnd().length });
+  }
+  spans.sort((a, b) => a.start - b.start);
+  return spans.filter((span, index) => index === 0 || span.start >= spans[index - 1].end);
+}
+
+// Separa narração e falas quando o texto não traz a marcação feita na geração (livros antigos ou
+// páginas editadas). Quem fala é o personagem citado logo depois da fala ("— Oi! — disse Lia")
+// ou, sem isso, logo antes ("Lia gritou: “Oi!”"); sem nenhum citado, o narrador lê a fala
+export function splitDialogue(text: string, names: string[]): DialogueSegment[] {
+  const spans = speechSpans(text);
+  const segments: DialogueSegment[] = [];
+  const pushSegment = (speaker: string | null, piece: string) => {
+    const trimmed = piece.trim();
+    if (trimmed) segments.push({ speaker, text: trimmed });
+  };
+
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    pushSegment(null, text.slice(cursor, span.start));
+    const after = text.slice(span.end, Math.min(spans[index + 1]?.start ?? text.length, span.end + ATTRIBUTION_WINDOW));
+    const before = text.slice(Math.max(cursor, span.start - ATTRIBUTION_WINDOW), span.start);
+    pushSegment(findName(after, names, false) ?? findName(before, names, true), text.slice(span.start, span.end));
+    cursor = span.end;
+  });
+  pushSegment(null, text.slice(cursor));
+  return segments;
+}
+
+const compact = (text: string) => text.replace(/\s+/g, '');
+
+// A marcação da geração só vale enquanto cobrir exatamente o texto atual da página
+export function pageDialogue(page: Pick<StoryPageData, 'text' | 'dialogue'>, names: string[]): DialogueSegment[] {
+  if (page.dialogue && page.dialogue.length > 0 && compact(page.dialogue.map(segment => segment.text).join('')) === compact(page.text)) {
+    return page.dialogue;
+  }
+  return splitDialogue(page.text, names);
+}
+
+// Personagens com fala no livro: o elenco primeiro, depois quem só aparece falando, na ordem em que surge
+export function listSpeakers(names: string[], dialogues: DialogueSegment[][]): string[] {
+  const speakers = [...new Set(names.filter(Boolean))];
+  for (const segment of dialogues.flat()) {
+    if (segment.speaker && !speakers.includes(segment.speaker)) {
+      speakers.push(segment.speaker);
+    }
+  }
+  return speakers;
+}
+
+// Quem não tem voz escolhida recebe uma diferente da do narrador, sempre a mesma para a mesma posição
+export function speakerVoices(speakers: string[], voiceCast: VoiceCast, narrator: PrebuiltVoice): Record<string, PrebuiltVoice> {
+  const others = AVAILABLE_VOICES.filter(voice => voice !== narrator);
+  return Object.fromEntries(speakers.map((speaker, index) => [speaker, voiceCast[speaker] ?? others[index % others.length]]));
+}
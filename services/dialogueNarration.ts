@@ -0,0 +1,66 @@
+import type { DialogueSegment, PrebuiltVoice, StoryLanguage } from '../types';
+import { generateSpeech } from './aiProvider';
+import { decode, encode, TTS_SAMPLE_RATE, TTS_CHANNELS } from './audioUtils';
+import { withRetry } from './retry';
+import type { RetryOptions } from './retry';
+import type { Scheduler } from './generationScheduler';
+
+// Respiro entre as falas de vozes diferentes
+const SEGMENT_GAP_SECONDS = 0.3;
+
+interface VoiceGroup {
+  voice: PrebuiltVoice;
+  text: string;
+}
+
+// Trechos seguidos da mesma voz viram uma chamada só, para a narração não sair picotada
+export function groupByVoice(segments: DialogueSegment[], narrator: PrebuiltVoice, voices: Record<string, PrebuiltVoice>): VoiceGroup[] {
+  const groups: VoiceGroup[] = [];
+  for (const segment of segments) {
+    const voice = segment.speaker ? voices[segment.speaker] ?? narrator : narrator;
+    const last = groups[groups.length - 1];
+    if (last && last.voice === voice) {
+      last.text = `${last.text} ${segment.text}`;
+    } else {
+      groups.push({ voice, text: segment.text });
+    }
+  }
+  return groups;
+}
+
+export interface NarrationOptions {
+  // Fila da geração do livro: cada grupo entra como uma chamada própria, respeitando os limites escolhidos
+  scheduler?: Scheduler;
+  onStart?: () => void;
+  onRetry?: RetryOptions['onRetry'];
+}
+
+// Narra cada grupo com a sua voz e costura o PCM em um único áudio, no mesmo formato de `generateSpeech`.
+// Cada grupo é repetido sozinho quando falha, sem refazer as falas que já ficaram prontas
+export async function narrateDialogue(segments: DialogueSegment[], narrator: PrebuiltVoice, voices: Record<string, PrebuiltVoice>, language: StoryLanguage, options: NarrationOptions = {}): Promise<string> {
+  const { scheduler, onStart, onRetry } = options;
+  const speak = (group: VoiceGroup) => withRetry(() => {
+    const task = () => {
+      onStart?.();
+      return generateSpeech(group.text, group.voice, language);
+    };
+    return scheduler ? scheduler.run(task) : task();
+  }, { onRetry });
+
+  const groups = groupByVoice(segments, narrator, voices);
+  if (groups.length <= 1) {
+    return speak(groups[0] ?? { voice: narrator, text: '' });
+  }
+
+  const pieces = (await Promise.all(groups.map(speak))).map(decode);
+  const gapBytes = Math.round(SEGMENT_GAP_SECONDS * TTS_SAMPLE_RATE) * 2 * TTS_CHANNELS;
+  // Cada trecho é alinhado a amostras inteiras de 16 bits antes de receber o próximo
+  const lengths = pieces.map(piece => piece.byteLength - (piece.byteLength % 2));
+  const pcm = new Uint8Array(lengths.reduce((total, length) => total + length, 0) + gapBytes * (pieces.length - 1));
+  let offset = 0;
+  pieces.forEach((piece, index) => {
+    pcm.set(piece.subarray(0, lengths[index]), offset);
+    offset += lengths[index] + gapBytes;
+  });
+  return encode(pcm);
+}
@@ -0,0 +1,255 @@
+import { zipSync, strToU8 } from 'fflate';
+import type { Zippable } from 'fflate';
+import type { StoryPageData, BookLanguage, BackgroundMusic } from '../types';
+import { decode, encodeMp3, pcmDurationSeconds } from './audioUtils';
+import { dataUrlToBytes, extensionForMimeType } from './fileUtils';
+import { DEFAULT_BOOK_LANGUAGE } from './languages';
+import { mixMusicBed, musicSamples } from './musicBed';
+
+interface EpubOptions {
+  title: string;
+  pages: StoryPageData[];
+  coverAudioData: string | null;
+  language?: BookLanguage;
+  music?: BackgroundMusic | null;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+  mediaOverlay?: string;
+}
+
+interface OverlayClip {
+  elementId: string;
+  audioHref: string;
+  begin: number;
+  end: number;
+}
+
+// Uma narração e as frases que ela lê; páginas bilíngues têm uma faixa por idioma
+interface OverlayTrack {
+  audioId: string;
+  base64Pcm: string;
+  sentences: string[];
+  idPrefix: string;
+}
+
+// Tamanho de cada página fixa; uma ilustração e seu texto formam uma página dupla
+const VIEWPORT_WIDTH = 1024;
+const VIEWPORT_HEIGHT = 1024;
+const ACTIVE_CLASS = '-epub-media-overlay-active';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+};
+
+function splitIntoSentences(text: string): string[] {
+  const sentences = text.match(/[^.!?…]+(?:[.!?…]+["'”»)]*|$)\s*/g) ?? [];
+  return sentences.map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Sem marcação de tempo por palavra, cada frase recebe uma fatia do áudio proporcional ao seu tamanho
+function estimateSentenceClips(sentences: string[], duration: number, idPrefix: string, audioHref: string): OverlayClip[] {
+  const totalLength = sentences.reduce((total, sentence) => total + sentence.length, 0) || 1;
+  let cursor = 0;
+  return sentences.map((sentence, index) => {
+    const begin = cursor;
+    cursor = index === sentences.length - 1 ? duration : cursor + (sentence.length / totalLength) * duration;
+    return { elementId: `${idPrefix}-${index + 1}`, audioHref, begin, end: cursor };
+  });
+}
+
+const xhtmlDocument = (title: string, language: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <meta name="viewport" content="width=${VIEWPORT_WIDTH}, height=${VIEWPORT_HEIGHT}"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const smilDocument = (textHref: string, clips: OverlayClip[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="seq-1" epub:textref="${textHref}" epub:type="bodymatter">
+${clips.map((clip, index) => `      <par id="par-${index + 1}">
+        <text src="${textHref}#${clip.elementId}"/>
+        <audio src="${clip.audioHref}" clipBegin="${clip.begin.toFixed(3)}s" clipEnd="${clip.end.toFixed(3)}s"/>
+      </par>`).join('\n')}
+    </seq>
+  </body>
+</smil>`;
+
+const STYLESHEET = `html, body { margin: 0; padding: 0; width: ${VIEWPORT_WIDTH}px; height: ${VIEWPORT_HEIGHT}px; }
+body { position: relative; font-family: 'Lora', Georgia, serif; background: #fdfaf3; color: #1f2937; }
+.illustration { width: 100%; height: 100%; object-fit: cover; display: block; }
+.cover { position: relative; width: 100%; height: 100%; }
+.cover h1 { position: absolute; left: 0; right: 0; bottom: 80px; margin: 0 48px; text-align: center; font-size: 72px; color: #ffffff; text-shadow: 2px 2px 8px rgba(0, 0, 0, 0.9); }
+.text-page { display: flex; flex-direction: column; justify-content: center; height: 100%; box-sizing: border-box; padding: 96px; }
+.text-page p { font-size: 44px; line-height: 1.6; margin: 0; text-align: center; }
+.text-page.bilingual { flex-direction: row; align-items: center; gap: 64px; padding: 72px; }
+.text-page.bilingual p { flex: 1; font-size: 32px; }
+.text-page p.secondary { color: #4b5563; }
+.page-number { position: absolute; bottom: 40px; right: 56px; font-size: 28px; color: #6b7280; }
+.${ACTIVE_CLASS} { background-color: #fde68a; border-radius: 6px; }
+`;
+
+export function buildEpub({ title, pages, coverAudioData, language: bookLanguage = DEFAULT_BOOK_LANGUAGE, music = null }: EpubOptions): Blob {
+  const language = bookLanguage.primary;
+  const files: Zippable = {};
+  const manifest: ManifestItem[] = [];
+  const spine: { idref: string; properties: string }[] = [];
+  const overlayDurations: { id: string; duration: number }[] = [];
+  const bed = music ? musicSamples(music) : null;
+
+  // Cada faixa leva a música de fundo por baixo, com a mesma duração da narração original
+  const withMusic = (pcm: Uint8Array) => {
+    if (!music || !bed) return pcm;
+    const mixed = mixMusicBed(new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2)), bed, music.volume);
+    return new Uint8Array(mixed.buffer, mixed.byteOffset, mixed.byteLength);
+  };
+
+  const addFile = (item: ManifestItem, content: Uint8Array, compress = true) => {
+    files[`OEBPS/${item.href}`] = compress ? content : [content, { level: 0 }];
+    manifest.push(item);
+  };
+
+  // As faixas são lidas em sequência: primeiro o idioma principal, depois o secundário
+  const addOverlay = (id: string, textHref: string, tracks: OverlayTrack[]) => {
+    let duration = 0;
+    const clips = tracks.flatMap(track => {
+      const pcm = decode(track.base64Pcm);
+      const trackDuration = pcmDurationSeconds(pcm);
+      const audioHref = `audio/${track.audioId}.mp3`;
+      addFile({ id: `${track.audioId}-audio`, href: audioHref, mediaType: 'audio/mpeg' }, encodeMp3(withMusic(pcm)), false);
+      duration += trackDuration;
+      return estimateSentenceClips(track.sentences, trackDuration, track.idPrefix, audioHref);
+    });
+    addFile({ id: `${id}-overlay`, href: `${id}.smil`, mediaType: 'application/smil+xml' }, strToU8(smilDocument(textHref, clips)));
+    overlayDurations.push({ id: `${id}-overlay`, duration });
+    return `${id}-overlay`;
+  };
+
+  const addImage = (id: string, dataUrl: string, properties?: string) => {
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const href = `images/${id}.${extensionForMimeType(mimeType)}`;
+    addFile({ id, href, mediaType: mimeType, properties }, bytes, false);
+    return href;
+  };
+
+  addFile({ id: 'styles', href: 'styles.css', mediaType: 'text/css' }, strToU8(STYLESHEET));
+
+  // Capa
+  const coverImageUrl = pages.find(page => page.imageUrl)?.imageUrl;
+  const coverImageHref = coverImageUrl ? addImage('cover-image', coverImageUrl, 'cover-image') : null;
+  const coverOverlay = coverAudioData && title.trim()
+    ? addOverlay('cover', 'cover.xhtml', [{ audioId: 'cover', base64Pcm: coverAudioData, sentences: [title], idPrefix: 'cover-title' }])
+    : undefined;
+  const coverBody = `  <section class="cover" epub:type="cover">
+${coverImageHref ? `    <img class="illustration" src="${coverImageHref}" alt="${escapeXml(title)}"/>\n` : ''}    <h1 id="cover-title-1">${escapeXml(title)}</h1>
+  </section>`;
+  addFile({ id: 'cover', href: 'cover.xhtml', mediaType: 'application/xhtml+xml', mediaOverlay: coverOverlay }, strToU8(xhtmlDocument(title, language, coverBody)));
+  spine.push({ idref: 'cover', properties: 'rendition:page-spread-center' });
+
+  // Páginas: ilustração à esquerda e texto narrado à direita
+  pages.forEach(page => {
+    const id = `page-${String(page.pageNumber).padStart(3, '0')}`;
+    const label = `Página ${page.pageNumber}`;
+
+    if (page.imageUrl) {
+      const imageHref = addImage(`${id}-image`, page.imageUrl);
+      const imageBody = `  <img class="illustration" src="${imageHref}" alt="${escapeXml(page.imagePrompt)}"/>`;
+      addFile({ id: `${id}-illustration`, href: `${id}-illustration.xhtml`, mediaType: 'application/xhtml+xml' }, strToU8(xhtmlDocument(label, language, imageBody)));
+      spine.push({ idref: `${id}-illustration`, properties: 'page-spread-left' });
+    }
+
+    const textHref = `${id}.xhtml`;
+    const sentences = splitIntoSentences(page.text);
+    const secondarySentences = page.secondaryText && bookLanguage.secondary ? splitIntoSentences(page.secondaryText) : [];
+    // Sem frases não há o que sincronizar, e um <seq> vazio é recusado pelos validadores
+    const tracks: OverlayTrack[] = [];
+    if (page.audioData && sentences.length > 0) {
+      tracks.push({ audioId: id, base64Pcm: page.audioData, sentences, idPrefix: `${id}-s` });
+    }
+    if (page.secondaryAudioData && secondarySentences.length > 0) {
+      tracks.push({ audioId: `${id}-secondary`, base64Pcm: page.secondaryAudioData, sentences: secondarySentences, idPrefix: `${id}-t` });
+    }
+    const textOverlay = tracks.length > 0 ? addOverlay(id, textHref, tracks) : undefined;
+    const spans = (items: string[], idPrefix: string) =>
+      items.map((sentence, index) => `<span id="${idPrefix}-${index + 1}">${escapeXml(sentence)}</span>`).join(' ');
+    const secondaryLanguage = bookLanguage.secondary;
+    const secondaryParagraph = secondaryLanguage && secondarySentences.length > 0
+      ? `\n    <p class="secondary" xml:lang="${secondaryLanguage}" lang="${secondaryLanguage}">${spans(secondarySentences, `${id}-t`)}</p>`
+      : '';
+    const textBody = `  <section class="text-page${secondaryParagraph ? ' bilingual' : ''}" epub:type="chapter">
+    <p>${spans(sentences, `${id}-s`)}</p>${secondaryParagraph}
+    <div class="page-number">${page.pageNumber}</div>
+  </section>`;
+    addFile({ id, href: textHref, mediaType: 'application/xhtml+xml', mediaOverlay: textOverlay }, strToU8(xhtmlDocument(label, language, textBody)));
+    spine.push({ idref: id, properties: 'page-spread-right' });
+  });
+
+  const navBody = `  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(title)}</h1>
+    <ol>
+      <li><a href="cover.xhtml">Capa</a></li>
+${pages.map(page => `      <li><a href="page-${String(page.pageNumber).padStart(3, '0')}.xhtml">Página ${page.pageNumber}</a></li>`).join('\n')}
+    </ol>
+  </nav>`;
+  addFile({ id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' }, strToU8(xhtmlDocument(title, language, navBody)));
+
+  const totalDuration = overlayDurations.reduce((total, overlay) => total + overlay.duration, 0);
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${language}</dc:language>
+    <dc:creator>Fábula Mágica AI</dc:creator>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">landscape</meta>
+${overlayDurations.length > 0 ? `    <meta property="media:active-class">${ACTIVE_CLASS}</meta>
+    <meta property="media:duration">${formatClock(totalDuration)}</meta>
+${overlayDurations.map(overlay => `    <meta property="media:duration" refines="#${overlay.id}">${formatClock(overlay.duration)}</meta>`).join('\n')}
+` : ''}  </metadata>
+  <manifest>
+${manifest.map(item => `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}${item.mediaOverlay ? ` media-overlay="${item.mediaOverlay}"` : ''}/>`).join('\n')}
+  </manifest>
+  <spine>
+${spine.map(item => `    <itemref idref="${item.idref}" properties="${item.properties}"/>`).join('\n')}
+  </spine>
+</package>`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+  // O arquivo "mimetype" precisa ser a primeira entrada do ZIP e não pode ser comprimido
+  const epubFiles: Zippable = {
+    mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(container),
+    'OEBPS/content.opf': strToU8(packageDocument),
+    ...files,
+  };
+  return new Blob([zipSync(epubFiles)], { type: 'application/epub+zip' });
+}
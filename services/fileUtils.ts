@@ -0,0 +1,40 @@
+import { decode, encode } from './audioUtils';
+
+export function toFileName(title: string, fallback: string, extension: string): string {
+  return `${title.replace(/\s/g, '_') || fallback}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mimeType: string } {
+  const [header, base64Data] = dataUrl.split(',');
+  const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
+  return { bytes: decode(base64Data), mimeType };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  return `data:${mimeType};base64,${encode(bytes)}`;
+}
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+
+export function extensionForMimeType(mimeType: string): string {
+  return EXTENSIONS_BY_MIME_TYPE[mimeType] ?? 'bin';
+}
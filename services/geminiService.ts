@@ -1,75 +1,198 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { StoryContentResponse, UploadedImage, PrebuiltVoice, StoryPageData } from '../types';
-import type { Part } from '@google/genai';
+import { GoogleGenAI, Type, Modality, HarmCategory, HarmBlockThreshold, HarmProbability, FinishReason } from "@google/genai";
+import type { StoryContentResponse, StoryContentRequest, InsertedPageRequest, CastMember, PrebuiltVoice, StoryPageData, StoryBible, IllustrationStyle, ReadingLevel, StoryLanguage, ModerationTopic, SoundEffectId, SoundscapeRequestPage } from '../types';
+import type { Part, SafetySetting, GenerateContentResponse } from '@google/genai';
+import type { AIProvider } from './aiProvider';
+import { describeBible } from './storyBible';
+import { applyStyleToImagePrompt } from './illustrationStyles';
+import { readingLevelInstructions } from './readingLevels';
+import { STORY_LANGUAGES } from './languages';
+import { ModerationBlockedError } from './moderation';
+import { withRetry } from './retry';
+import { SOUND_EFFECTS, SOUND_EFFECT_IDS, MAX_EFFECTS_PER_PAGE, sanitizeSoundEffects } from './soundLibrary';
 
-if (!process.env.API_KEY) {
+export const isGeminiConfigured = Boolean(process.env.API_KEY);
+
+let ai: GoogleGenAI | null = null;
+
+// O cliente só é criado no primeiro uso, para que o app funcione sem chave com outro provedor
+function getClient(): GoogleGenAI {
+  if (!process.env.API_KEY) {
     throw new Error("A variável de ambiente API_KEY não foi definida");
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+}
+
+export const MODELS = {
+  text: 'gemini-2.5-flash',
+  story: 'gemini-2.5-pro',
+  image: 'gemini-2.5-flash-image',
+  speech: 'gemini-2.5-flash-preview-tts',
+  video: 'veo-3.1-fast-generate-preview',
+} as const;
+
+// Um livro infantil usa sempre os filtros mais rígidos do modelo; os temas que dependem da idade
+// (sustos, brigas) ficam a cargo da moderação local
+const KID_SAFETY_SETTINGS: SafetySetting[] = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE }));
+
+const HARM_CATEGORY_TOPICS: Partial<Record<HarmCategory, ModerationTopic>> = {
+  [HarmCategory.HARM_CATEGORY_HARASSMENT]: 'meanness',
+  [HarmCategory.HARM_CATEGORY_HATE_SPEECH]: 'meanness',
+  [HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT]: 'adult',
+  [HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT]: 'danger',
+};
+
+const SAFETY_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+// Pedido ou resposta barrados pelos filtros do modelo viram um bloqueio de moderação, com os temas apontados
+function assertSafeResponse(response: GenerateContentResponse): void {
+  const candidate = response.candidates?.[0];
+  if (!response.promptFeedback?.blockReason && !SAFETY_FINISH_REASONS.has(candidate?.finishReason)) {
+    return;
+  }
+  const ratings = [...(response.promptFeedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])];
+  const topics = new Set(ratings
+    .filter(rating => rating.blocked || rating.probability === HarmProbability.MEDIUM || rating.probability === HarmProbability.HIGH)
+    .map(rating => rating.category && HARM_CATEGORY_TOPICS[rating.category])
+    .filter((topic): topic is ModerationTopic => Boolean(topic)));
+  throw new ModerationBlockedError([...topics].map(topic => ({ topic, term: null })));
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Descrição textual do elenco, usada nas instruções de texto
+function describeCast(cast: CastMember[]): string {
+  return cast
+    .map(member => `- ${member.name}${member.description ? `: ${member.description}` : ''}${member.image ? ' (há uma imagem de referência)' : ''}`)
+    .join('\n');
+}
+
+// Cada imagem de referência vem precedida de um rótulo com o nome do personagem,
+// para que o modelo saiba quem é quem
+function castReferenceParts(cast: CastMember[]): Part[] {
+  return cast.flatMap(member => member.image
+    ? [
+        { text: `Imagem de referência de ${member.name}:` },
+        { inlineData: { mimeType: member.image.mimeType, data: member.image.base64 } },
+      ]
+    : []);
+}
 
-export async function suggestPlot(characterImage: UploadedImage | null): Promise<string> {
+export async function suggestPlot(cast: CastMember[], language: StoryLanguage): Promise<string> {
   const parts: Part[] = [];
+  const languageName = STORY_LANGUAGES[language].promptName;
   let prompt: string;
 
-  if (characterImage) {
-    parts.push({
-      inlineData: {
-        mimeType: characterImage.mimeType,
-        data: characterImage.base64,
-      },
-    });
-    prompt = `Sugira um enredo curto e criativo em português brasileiro para um livro de histórias infantil, estrelando o personagem da imagem. O enredo deve descrever o início, o meio e o fim da aventura em cerca de 100 a 150 palavras.`;
+  if (cast.length > 0) {
+    parts.push(...castReferenceParts(cast));
+    prompt = `Sugira um enredo curto e criativo em ${languageName} para um livro de histórias infantil, estrelando estes personagens:\n${describeCast(cast)}\nO enredo deve dar um papel a cada personagem e descrever o início, o meio e o fim da aventura em cerca de 100 a 150 palavras.`;
   } else {
-    prompt = `Sugira um enredo curto e criativo em português brasileiro para um livro de histórias infantil sobre uma quokka amigável chamada Quindim. O enredo deve descrever o início, o meio e o fim de uma aventura mágica em cerca de 100 a 150 palavras.`;
+    prompt = `Sugira um enredo curto e criativo em ${languageName} para um livro de histórias infantil sobre uma quokka amigável chamada Quindim. O enredo deve descrever o início, o meio e o fim de uma aventura mágica em cerca de 100 a 150 palavras.`;
   }
   parts.push({ text: prompt });
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+    const response = await getClient().models.generateContent({
+      model: MODELS.text,
       contents: { parts },
       config: {
+        safetySettings: KID_SAFETY_SETTINGS,
         temperature: 0.9,
       },
     });
+    assertSafeResponse(response);
     return response.text.trim();
   } catch (error) {
     console.error("Erro ao sugerir enredo:", error);
-    throw new Error("Falha ao sugerir um enredo.");
+    throw new Error("Falha ao sugerir um enredo.", { cause: error });
   }
 }
 
-export async function generateTitleFromPlot(plot: string, characterImage: UploadedImage | null): Promise<string> {
-    const parts: Part[] = [];
-    if (characterImage) {
-        parts.push({
-          inlineData: {
-            mimeType: characterImage.mimeType,
-            data: characterImage.base64,
-          },
-        });
-    }
+export async function generateTitleFromPlot(plot: string, cast: CastMember[], language: StoryLanguage): Promise<string> {
+    const parts: Part[] = castReferenceParts(cast);
 
-    const prompt = `Com base no seguinte enredo de uma história infantil, crie um título curto, criativo e cativante em português brasileiro. O título deve ter no máximo 10 palavras, estar em uma única linha e não conter aspas.\n\nEnredo: "${plot}"`;
+    const prompt = `Com base no seguinte enredo de uma história infantil, crie um título curto, criativo e cativante em ${STORY_LANGUAGES[language].promptName}. O título deve ter no máximo 10 palavras, estar em uma única linha e não conter aspas.\n\nEnredo: "${plot}"`;
     parts.push({ text: prompt });
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getClient().models.generateContent({
+            model: MODELS.text,
             contents: { parts },
             config: {
+                safetySettings: KID_SAFETY_SETTINGS,
                 temperature: 0.8,
             },
         });
+        assertSafeResponse(response);
         return response.text.trim().replace(/"/g, '');
     } catch (error) {
         console.error("Erro ao gerar título a partir do enredo:", error);
-        throw new Error("Falha ao gerar título.");
+        throw new Error("Falha ao gerar título.", { cause: error });
     }
 }
 
+const storyBibleSchema = {
+  type: Type.OBJECT,
+  properties: {
+    characters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: 'O nome do personagem, exatamente como aparece no elenco ou no enredo.' },
+          appearance: { type: Type.STRING, description: 'Espécie, idade aparente, proporções, formato do rosto, cabelo ou pelagem e traços marcantes.' },
+          outfit: { type: Type.STRING, description: 'A roupa e os acessórios que o personagem usa em toda a história.' },
+          palette: { type: Type.STRING, description: 'As cores principais do personagem, com nomes de cores precisos.' },
+        },
+        required: ["name", "appearance", "outfit", "palette"],
+      },
+    },
+    palette: { type: Type.STRING, description: 'A paleta de cores geral das ilustrações e o clima de luz.' },
+    setting: { type: Type.STRING, description: 'Os lugares da história e seus detalhes visuais recorrentes.' },
+  },
+  required: ["characters", "palette", "setting"],
+};
+
+export async function generateStoryBible(plot: string, cast: CastMember[]): Promise<Omit<StoryBible, 'characterSheet'>> {
+  const parts: Part[] = castReferenceParts(cast);
+  parts.push({
+    text: `Crie a bíblia visual de um livro de histórias infantil em português brasileiro, para que um ilustrador desenhe os personagens e o mundo sempre da mesma forma em todas as páginas.
+Enredo: "${plot}"
+${cast.length > 0 ? `Elenco:\n${describeCast(cast)}\nDescreva todos os personagens do elenco, fiéis às imagens de referência, e também outros personagens importantes do enredo.` : 'Descreva todos os personagens importantes do enredo.'}
+Seja concreto e visual: cores exatas, formas e detalhes que não podem mudar entre as páginas.`,
+  });
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: MODELS.text,
+      contents: { parts },
+      config: {
+        safetySettings: KID_SAFETY_SETTINGS,
+        responseMimeType: "application/json",
+        responseSchema: storyBibleSchema,
+        temperature: 0.7,
+      },
+    });
+    assertSafeResponse(response);
+    return JSON.parse(response.text.trim());
+  } catch (error) {
+    console.error("Erro ao gerar a bíblia da história:", error);
+    throw new Error("Falha ao gerar a bíblia de personagens a partir da API Gemini.", { cause: error });
+  }
+}
+
 const storyGenerationSchema = {
   type: Type.ARRAY,
   items: {
@@ -77,60 +200,112 @@ const storyGenerationSchema = {
     properties: {
       storyText: {
         type: Type.STRING,
-        description: 'O conteúdo de texto para esta página da história. Deve ser envolvente para o leitor, em português brasileiro, e seguir o enredo fornecido.',
+        description: 'O conteúdo de texto para esta página da história, no idioma principal do livro. Deve ser envolvente para o leitor e seguir o enredo fornecido.',
       },
       imagePrompt: {
         type: Type.STRING,
         description: 'Um prompt detalhado e descritivo para um gerador de imagens de IA criar uma ilustração visualmente deslumbrante e relevante para o texto desta página. Descreva a cena, personagens, cores e o clima, seguindo o enredo. Se um personagem foi fornecido na imagem inicial, garanta que o prompt instrua o gerador a manter a consistência visual com esse personagem.',
       },
+      dialogue: {
+        type: Type.ARRAY,
+        description: 'O storyText dividido, em ordem e sem mudar nenhuma palavra, em trechos de narração e falas de personagens, para que cada um seja narrado com a sua voz.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            speaker: { type: Type.STRING, description: 'O nome de quem fala este trecho, ou vazio quando é o narrador.' },
+            text: { type: Type.STRING, description: 'O trecho exato do storyText, incluindo as aspas ou travessões da fala.' },
+          },
+          required: ["speaker", "text"],
+        },
+      },
     },
-    required: ["storyText", "imagePrompt"]
+    required: ["storyText", "imagePrompt", "dialogue"]
   },
 };
 
-export async function generateStoryContent(
-  plot: string,
-  numPages: number,
-  characterImage: UploadedImage | null
-): Promise<StoryContentResponse[]> {
-  
+// Com elenco, cada página também informa quem aparece nela, para enviar só as referências certas à ilustração;
+// em livros bilíngues, cada página traz ainda a tradução do texto no idioma secundário
+function storyGenerationSchemaFor(cast: CastMember[], secondaryLanguage: StoryLanguage | null) {
+  const properties: Record<string, object> = { ...storyGenerationSchema.items.properties };
+  const required = [...storyGenerationSchema.items.required];
+  if (cast.length > 0) {
+    properties.characters = {
+      type: Type.ARRAY,
+      description: 'Os nomes exatos dos personagens do elenco que aparecem na ilustração desta página.',
+      // Nomes repetidos no enum fazem o schema ser recusado
+      items: { type: Type.STRING, enum: [...new Set(cast.map(member => member.name))] },
+    };
+    required.push("characters");
+  }
+  if (secondaryLanguage) {
+    properties.secondaryStoryText = {
+      type: Type.STRING,
+      description: `O mesmo texto desta página traduzido para ${STORY_LANGUAGES[secondaryLanguage].promptName}, com naturalidade e no mesmo nível de leitura.`,
+    };
+    required.push("secondaryStoryText");
+  }
+  return { ...storyGenerationSchema, items: { ...storyGenerationSchema.items, properties, required } };
+}
+
+// O schema não aceita nulo: os trechos do narrador chegam com o nome vazio
+const withNarratorSpeaker = (page: StoryContentResponse): StoryContentResponse => ({
+  ...page,
+  dialogue: page.dialogue?.map(segment => ({ text: segment.text, speaker: segment.speaker?.trim() || null })),
+});
+
+export async function generateStoryContent({ plot, numPages, cast, bible, readingLevel, language }: StoryContentRequest): Promise<StoryContentResponse[]> {
   const parts: Part[] = [];
+  const languageName = STORY_LANGUAGES[language.primary].promptName;
   let finalPrompt: string;
 
-  if (characterImage) {
-    parts.push({
-      inlineData: {
-        mimeType: characterImage.mimeType,
-        data: characterImage.base64,
-      },
-    });
+  if (cast.length > 0) {
+    parts.push(...castReferenceParts(cast));
     finalPrompt = `
-      Desenvolva um livro de histórias infantil em português brasileiro com base no seguinte enredo, estrelando o personagem da imagem fornecida: "${plot}".
-      O livro de histórias deve ser dividido em exatamente ${numPages} páginas.
-      Para cada página, forneça o texto da história e um prompt de imagem detalhado. O prompt de imagem deve instruir o gerador de imagens a recriar o personagem da imagem original de forma consistente na cena descrita.
+      Desenvolva um livro de histórias infantil em ${languageName} com base no seguinte enredo: "${plot}".
+      O elenco da história é:
+${describeCast(cast)}
+      Use sempre esses nomes no texto. O livro de histórias deve ser dividido em exatamente ${numPages} páginas.
+      Para cada página, forneça o texto da história, um prompt de imagem detalhado e a lista dos personagens do elenco que aparecem na ilustração. O prompt de imagem deve citar cada personagem pelo nome e descrever como ele aparece na cena, mantendo a aparência consistente com as imagens de referência.
       Garanta que a história flua logicamente de acordo com o enredo.
+      Quando os personagens conversarem, escreva as falas entre travessões ou aspas e marque em "dialogue" quem diz cada uma.
       A saída final deve ser um array JSON com ${numPages} objetos, seguindo o schema fornecido.`;
   } else {
     finalPrompt = `
-      Desenvolva um livro de histórias infantil em português brasileiro com base no seguinte enredo: "${plot}".
+      Desenvolva um livro de histórias infantil em ${languageName} com base no seguinte enredo: "${plot}".
       O livro de histórias deve ser dividido em exatamente ${numPages} páginas.
       Para cada página, forneça o texto da história e um prompt detalhado para gerar uma imagem correspondente.
       Garanta que a história flua logicamente de uma página para a outra, seguindo o enredo.
+      Quando os personagens conversarem, escreva as falas entre travessões ou aspas e marque em "dialogue" quem diz cada uma.
       A saída final deve ser um array JSON com ${numPages} objetos, seguindo o schema fornecido.`;
   }
+  if (readingLevel) {
+    finalPrompt += `
+      ${readingLevelInstructions(readingLevel)}`;
+  }
+  if (language.secondary) {
+    finalPrompt += `
+      Este é um livro bilíngue: além do texto em ${languageName}, cada página deve trazer a tradução fiel do mesmo texto para ${STORY_LANGUAGES[language.secondary].promptName}. Os prompts de imagem continuam em português.`;
+  }
+  if (bible) {
+    finalPrompt += `
+      Os prompts de imagem devem seguir este guia visual, repetindo a aparência, a roupa e as cores de cada personagem que aparece na cena:
+${describeBible(bible)}`;
+  }
   parts.push({ text: finalPrompt });
 
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-pro",
+    const response = await getClient().models.generateContent({
+      model: MODELS.story,
       contents: { parts },
       config: {
+        safetySettings: KID_SAFETY_SETTINGS,
         responseMimeType: "application/json",
-        responseSchema: storyGenerationSchema,
+        responseSchema: storyGenerationSchemaFor(cast, language.secondary),
         temperature: 0.8,
       },
     });
+    assertSafeResponse(response);
 
     const jsonText = response.text.trim();
     const parsedResponse = JSON.parse(jsonText);
@@ -143,39 +318,159 @@ export async function generateStoryContent(
        throw new Error(`A API retornou um número inesperado de páginas. Solicitado: ${numPages}, Recebido: ${parsedResponse.length}.`);
     }
 
-    return parsedResponse as StoryContentResponse[];
+    return (parsedResponse as StoryContentResponse[]).map(withNarratorSpeaker);
 
   } catch (error) {
     console.error("Erro ao gerar conteúdo da história:", error);
-    throw new Error("Falha ao gerar conteúdo da história a partir da API Gemini.");
+    throw new Error("Falha ao gerar conteúdo da história a partir da API Gemini.", { cause: error });
   }
 }
 
-export async function generateImage(prompt: string, characterImage: UploadedImage | null): Promise<string> {
-    const parts: Part[] = [];
+export async function generateInsertedPage({ plot, cast, bible, readingLevel, language, previousText, nextText }: InsertedPageRequest): Promise<StoryContentResponse> {
+  const parts: Part[] = castReferenceParts(cast);
+  const languageName = STORY_LANGUAGES[language.primary].promptName;
+  let prompt = `
+      Este é um livro de histórias infantil em ${languageName}, baseado no seguinte enredo: "${plot}".
+      Escreva UMA página nova para ser inserida no livro, continuando a narrativa de forma natural entre as páginas vizinhas.
+      Página anterior: ${previousText ? `"${previousText}"` : '(a nova página abre o livro)'}
+      Página seguinte: ${nextText ? `"${nextText}"` : '(a nova página encerra o livro)'}
+      Não repita o que as páginas vizinhas já contam. Forneça o texto da página e um prompt de imagem detalhado para a ilustração.`;
+  if (cast.length > 0) {
+    prompt += `
+      O elenco da história é:
+${describeCast(cast)}
+      Use sempre esses nomes e informe quais personagens aparecem na ilustração.`;
+  }
+  if (readingLevel) {
+    prompt += `
+      ${readingLevelInstructions(readingLevel)}`;
+  }
+  if (language.secondary) {
+    prompt += `
+      Traga também a tradução fiel do texto da página para ${STORY_LANGUAGES[language.secondary].promptName}.`;
+  }
+  if (bible) {
+    prompt += `
+      O prompt de imagem deve seguir este guia visual:
+${describeBible(bible)}`;
+  }
+  parts.push({ text: prompt });
 
-    if (characterImage) {
-        parts.push({
-            inlineData: {
-                mimeType: characterImage.mimeType,
-                data: characterImage.base64,
-            },
-        });
+  try {
+    const response = await getClient().models.generateContent({
+      model: MODELS.story,
+      contents: { parts },
+      config: {
+        safetySettings: KID_SAFETY_SETTINGS,
+        responseMimeType: "application/json",
+        responseSchema: storyGenerationSchemaFor(cast, language.secondary).items,
+        temperature: 0.8,
+      },
+    });
+    assertSafeResponse(response);
+    return withNarratorSpeaker(JSON.parse(response.text.trim()));
+  } catch (error) {
+    console.error("Erro ao gerar a nova página:", error);
+    throw new Error("Falha ao gerar a nova página a partir da API Gemini.", { cause: error });
+  }
+}
+
+export async function simplifyPageText(text: string, readingLevel: ReadingLevel, language: StoryLanguage): Promise<string> {
+  const prompt = `Reescreva o trecho abaixo de um livro infantil em ${STORY_LANGUAGES[language].promptName} para que fique mais fácil de ler, sem mudar o que acontece nem os nomes dos personagens. ${readingLevelInstructions(readingLevel)}
+Responda apenas com o novo texto, sem aspas nem comentários.
+
+Trecho: "${text}"`;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: MODELS.text,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        safetySettings: KID_SAFETY_SETTINGS,
+        temperature: 0.4,
+      },
+    });
+    assertSafeResponse(response);
+    return response.text.trim();
+  } catch (error) {
+    console.error("Erro ao simplificar o texto da página:", error);
+    throw new Error("Falha ao simplificar o texto a partir da API Gemini.", { cause: error });
+  }
+}
+
+const soundscapeSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      effects: {
+        type: Type.ARRAY,
+        description: `Até ${MAX_EFFECTS_PER_PAGE} sons ambientes que combinam com o lugar e o clima da cena; vazio se nenhum combinar.`,
+        items: { type: Type.STRING, enum: SOUND_EFFECT_IDS },
+      },
+    },
+    required: ["effects"],
+  },
+};
+
+export async function designSoundscape(pages: SoundscapeRequestPage[]): Promise<SoundEffectId[][]> {
+  const prompt = `Você é o sonoplasta de um livro infantil narrado. Para cada página abaixo, escolha os sons ambientes da biblioteca que vão tocar baixinho por baixo da narração, para a cena parecer viva: uma cachoeira pede água corrente, uma noite pede grilos.
+Use apenas sons que façam sentido no lugar onde a cena acontece; prefira nenhum som a um som que distraia.
+Responda com uma entrada por página, na mesma ordem.
+
+Biblioteca de sons:
+${SOUND_EFFECTS.map(effect => `- ${effect.id}: ${effect.name}`).join('\n')}
+
+Páginas:
+${pages.map((page, index) => `${index + 1}. ${page.text}\n   Ilustração: ${page.imagePrompt}`).join('\n')}`;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: MODELS.text,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        safetySettings: KID_SAFETY_SETTINGS,
+        responseMimeType: "application/json",
+        responseSchema: soundscapeSchema,
+        temperature: 0.3,
+      },
+    });
+    assertSafeResponse(response);
+    const parsed = JSON.parse(response.text.trim());
+    if (!Array.isArray(parsed) || parsed.length !== pages.length) {
+      throw new Error(`A API retornou um número inesperado de páginas. Solicitado: ${pages.length}, Recebido: ${Array.isArray(parsed) ? parsed.length : 0}.`);
+    }
+    return parsed.map(entry => sanitizeSoundEffects(entry?.effects));
+  } catch (error) {
+    console.error("Erro ao escolher os sons das páginas:", error);
+    throw new Error("Falha ao escolher os sons ambientes a partir da API Gemini.", { cause: error });
+  }
+}
+
+export async function generateImage(prompt: string, references: CastMember[], style: IllustrationStyle | null, variation = 0): Promise<string> {
+    const parts: Part[] = castReferenceParts(references);
+    const scene = variation > 0
+        ? `${prompt} (Versão alternativa ${variation + 1}: mude o enquadramento e a composição, mantendo os mesmos personagens e a mesma cena.)`
+        : prompt;
+
+    if (parts.length > 0) {
+        const names = references.filter(member => member.image).map(member => member.name).join(', ');
         parts.push({
-            text: `Usando o personagem da primeira imagem como referência principal, crie uma nova imagem baseada na seguinte descrição: "${prompt}"`,
+            text: applyStyleToImagePrompt(`Usando as imagens acima como referência visual para ${names}, crie uma nova imagem baseada na seguinte descrição: "${scene}"`, style),
         });
     } else {
-        parts.push({ text: prompt });
+        parts.push({ text: applyStyleToImagePrompt(scene, style) });
     }
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
+        const response = await getClient().models.generateContent({
+            model: MODELS.image,
             contents: { parts },
             config: {
                 responseModalities: [Modality.IMAGE],
             },
         });
+        assertSafeResponse(response);
 
         const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
 
@@ -188,18 +483,46 @@ export async function generateImage(prompt: string, characterImage: UploadedImag
         }
     } catch (error) {
         console.error("Erro ao gerar imagem:", error);
-        throw new Error("Falha ao gerar imagem a partir da API Gemini.");
+        throw new Error("Falha ao gerar imagem a partir da API Gemini.", { cause: error });
     }
 }
 
-export async function generateSpeech(text: string, voice: PrebuiltVoice = 'Kore'): Promise<string> {
+export async function generateCharacterSheet(bible: StoryBible, cast: CastMember[], style: IllustrationStyle | null): Promise<string> {
+  const parts: Part[] = castReferenceParts(cast);
+  parts.push({
+    text: applyStyleToImagePrompt(`Crie uma folha de personagens (model sheet) para um livro infantil: todos os personagens abaixo lado a lado, de corpo inteiro, em vista frontal, sobre fundo branco liso, sem texto.
+${describeBible(bible)}`, style),
+  });
+
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+    const response = await getClient().models.generateContent({
+      model: MODELS.image,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+      },
+    });
+    assertSafeResponse(response);
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    if (!imagePart?.inlineData) {
+      throw new Error("Nenhuma imagem foi gerada.");
+    }
+    return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
+  } catch (error) {
+    console.error("Erro ao gerar a folha de personagens:", error);
+    throw new Error("Falha ao gerar a folha de personagens a partir da API Gemini.", { cause: error });
+  }
+}
+
+export async function generateSpeech(text: string, voice: PrebuiltVoice = 'Kore', language: StoryLanguage = 'pt-BR'): Promise<string> {
+  try {
+    const response = await getClient().models.generateContent({
+      model: MODELS.speech,
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
+            languageCode: STORY_LANGUAGES[language].speechCode,
             voiceConfig: {
               prebuiltVoiceConfig: { voiceName: voice },
             },
@@ -213,20 +536,21 @@ export async function generateSpeech(text: string, voice: PrebuiltVoice = 'Kore'
     return base64Audio;
   } catch (error) {
     console.error("Erro ao gerar fala:", error);
-    throw new Error("Falha ao gerar fala a partir da API Gemini.");
+    throw new Error("Falha ao gerar fala a partir da API Gemini.", { cause: error });
   }
 }
 
-export async function generateCoverAudio(title: string): Promise<string> {
-  const text = `Apresentando: ${title}. Uma jornada mágica está prestes a começar.`;
+export async function generateCoverAudio(title: string, language: StoryLanguage = 'pt-BR'): Promise<string> {
+  const text = STORY_LANGUAGES[language].coverIntro(title);
   const voice: PrebuiltVoice = 'Zephyr'; // Voz de narrador distinta
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+    const response = await getClient().models.generateContent({
+      model: MODELS.speech,
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
+            languageCode: STORY_LANGUAGES[language].speechCode,
             voiceConfig: {
               prebuiltVoiceConfig: { voiceName: voice },
             },
@@ -240,25 +564,28 @@ export async function generateCoverAudio(title: string): Promise<string> {
     return base64Audio;
   } catch (error) {
     console.error("Erro ao gerar áudio da capa:", error);
-    throw new Error("Falha ao gerar áudio da capa a partir da API Gemini.");
+    throw new Error("Falha ao gerar áudio da capa a partir da API Gemini.", { cause: error });
   }
 }
 
-export async function generateStoryVideo(
-  aiInstance: GoogleGenAI,
+export async function generateSceneVideo(
   title: string,
-  firstPage: StoryPageData,
+  page: StoryPageData,
   onProgress: (message: string) => void
-): Promise<string> {
+): Promise<Blob> {
+    // O Veo usa a chave selecionada pelo usuário (pedida por quem chama), então criamos uma instância nova a cada vídeo
+    const aiInstance = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
     onProgress('Reunindo os encantos para o desenho...');
-    const prompt = `Crie um vídeo animado curto baseado nesta história infantil: Título: "${title}". A primeira cena mostra: "${firstPage.text}".`;
+    // A narração da página entra depois, por cima do clipe, então o vídeo não deve ter falas
+    const prompt = `Crie um clipe animado curto para uma cena do livro infantil "${title}", animando a ilustração enviada. A cena mostra: "${page.text}". Descrição da ilustração: ${page.imagePrompt}. Movimentos suaves, sem falas, sem narração e sem texto na tela.`;
     
-    const [header, base64Data] = firstPage.imageUrl.split(',');
+    const [header, base64Data] = page.imageUrl.split(',');
     const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
 
     onProgress('Conversando com os duendes da animação...');
     let operation = await aiInstance.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
+        model: MODELS.video,
         prompt: prompt,
         image: {
             imageBytes: base64Data,
@@ -271,11 +598,15 @@ export async function generateStoryVideo(
         }
     });
     
+    // Cada geração é cobrada: só a consulta e o download são repetidos em falhas temporárias, nunca o pedido do vídeo
+    const onRetry = () => onProgress('A conexão falhou por um instante, tentando de novo...');
+
     onProgress('A magia da animação começou! Isso pode levar um tempinho...');
     while (!operation.done) {
         await new Promise(resolve => setTimeout(resolve, 10000));
         onProgress('Consultando a bola de cristal da animação...');
-        operation = await aiInstance.operations.getVideosOperation({ operation: operation });
+        const pending = operation;
+        operation = await withRetry(() => aiInstance.operations.getVideosOperation({ operation: pending }), { onRetry });
     }
 
     if (operation.error) {
@@ -290,16 +621,34 @@ export async function generateStoryVideo(
     }
     
     onProgress('Trazendo o desenho para o nosso mundo...');
-    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+    return withRetry(async () => {
+      const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Erro ao baixar o vídeo:", response.status, errorText);
-      throw new Error(`Falha ao baixar o vídeo gerado. Status: ${response.status}`);
-    }
-    
-    const videoBlob = await response.blob();
-    const objectUrl = URL.createObjectURL(videoBlob);
-    
-    return objectUrl;
-}
\ No newline at end of file
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("Erro ao baixar o vídeo:", response.status, errorText);
+        // O status acompanha o erro para que falhas temporárias do download sejam repetidas
+        throw Object.assign(new Error(`Falha ao baixar o vídeo gerado. Status: ${response.status}`), { status: response.status });
+      }
+
+      return response.blob();
+    }, { onRetry });
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: MODELS,
+  suggestPlot,
+  generateTitleFromPlot,
+  generateStoryBible,
+  generateStoryContent,
+  generateInsertedPage,
+  simplifyPageText,
+  designSoundscape,
+  generateImage,
+  generateCharacterSheet,
+  generateSpeech,
+  generateCoverAudio,
+  generateSceneVideo,
+};
@@ -0,0 +1,74 @@
+export interface GenerationSettings {
+  // Quantas chamadas de imagem/narração podem estar em andamento ao mesmo tempo
+  concurrency: number;
+  // Limite de chamadas iniciadas por minuto; 0 desativa o limite
+  requestsPerMinute: number;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  concurrency: 3,
+  requestsPerMinute: 0,
+};
+
+export const MAX_CONCURRENCY = 6;
+
+const SETTINGS_STORAGE_KEY = 'fabula-magica:generation-settings';
+
+export function loadGenerationSettings(): GenerationSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_GENERATION_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+}
+
+export function saveGenerationSettings(settings: GenerationSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export interface Scheduler {
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+// Fila simples: as tarefas começam na ordem em que foram agendadas, respeitando o limite de
+// tarefas simultâneas e um intervalo mínimo entre inícios quando há limite por minuto
+export function createScheduler({ concurrency, requestsPerMinute }: GenerationSettings): Scheduler {
+  const maxActive = Math.max(1, Math.min(MAX_CONCURRENCY, Math.floor(concurrency) || 1));
+  const minIntervalMs = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  const queue: Array<() => void> = [];
+  let active = 0;
+  let lastStartAt = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const pump = () => {
+    if (timer) return;
+    while (active < maxActive && queue.length > 0) {
+      const waitMs = lastStartAt + minIntervalMs - Date.now();
+      if (waitMs > 0) {
+        timer = setTimeout(() => {
+          timer = null;
+          pump();
+        }, waitMs);
+        return;
+      }
+      lastStartAt = Date.now();
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+          Promise.resolve().then(task).then(resolve, reject).finally(() => {
+            active--;
+            pump();
+          });
+        });
+        pump();
+      });
+    },
+  };
+}
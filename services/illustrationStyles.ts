@@ -0,0 +1,49 @@
+import type { IllustrationStyle, IllustrationStyleId } from '../types';
+
+interface IllustrationStylePreset {
+  name: string;
+  descriptor: string;
+  negative: string;
+}
+
+export const ILLUSTRATION_STYLE_PRESETS: Record<Exclude<IllustrationStyleId, 'custom'>, IllustrationStylePreset> = {
+  watercolor: {
+    name: 'Aquarela',
+    descriptor: 'ilustração em aquarela sobre papel texturizado, pigmentos translúcidos que se misturam, bordas suaves e manchas delicadas de cor',
+    negative: 'renderização 3D, contornos digitais duros, cores chapadas, fotorrealismo',
+  },
+  'pastel-crayon': {
+    name: 'Giz pastel',
+    descriptor: 'desenho em giz pastel oleoso sobre papel colorido, traços visíveis e granulados, cores quentes e aconchegantes',
+    negative: 'renderização 3D, acabamento liso e digital, fotorrealismo, vetores',
+  },
+  'paper-cutout': {
+    name: 'Recorte de papel',
+    descriptor: 'colagem de papel recortado em camadas, formas simples com bordas levemente irregulares, sombras suaves entre as camadas, textura de papel',
+    negative: 'degradês digitais, pinceladas, fotorrealismo, linhas de contorno desenhadas',
+  },
+  'pixel-art': {
+    name: 'Pixel art',
+    descriptor: 'pixel art de 16 bits, pixels nítidos e visíveis, paleta limitada e vibrante, cenário como em um videogame clássico',
+    negative: 'suavização, desfoque, degradês contínuos, pinceladas, fotorrealismo',
+  },
+  'classic-animation': {
+    name: 'Animação clássica',
+    descriptor: 'estilo de longa-metragem de animação clássica desenhada à mão, personagens expressivos de contornos limpos, cenários pintados em guache com luz mágica',
+    negative: 'renderização 3D, anime, fotorrealismo, traços rabiscados',
+  },
+};
+
+// Vale para todos os estilos: evita texto na imagem e mistura de linguagens visuais
+const COMMON_NEGATIVE = 'texto, letras, marcas d\'água, mistura de estilos diferentes';
+
+export const DEFAULT_ILLUSTRATION_STYLE: IllustrationStyle = { id: 'watercolor' };
+
+export function applyStyleToImagePrompt(prompt: string, style: IllustrationStyle | null | undefined): string {
+  if (!style) return prompt;
+  const preset = style.id === 'custom' ? null : ILLUSTRATION_STYLE_PRESETS[style.id];
+  const descriptor = preset ? preset.descriptor : style.custom?.trim();
+  if (!descriptor) return prompt;
+  const negative = preset ? `${preset.negative}, ${COMMON_NEGATIVE}` : COMMON_NEGATIVE;
+  return `${prompt}\n\nEstilo de arte obrigatório, igual em todas as páginas do livro: ${descriptor}.\nNão use: ${negative}.`;
+}
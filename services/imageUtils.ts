@@ -0,0 +1,41 @@
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Não foi possível carregar a ilustração."));
+    image.src = src;
+  });
+}
+
+// Recorta a ilustração (como object-fit: cover) na proporção da área de destino e a converte em JPEG
+export async function cropImageToAspect(dataUrl: string, aspect: number, maxSidePx = 2400): Promise<string> {
+  const image = await loadImage(dataUrl);
+  let sourceWidth = image.naturalWidth;
+  let sourceHeight = image.naturalHeight;
+  if (sourceWidth / sourceHeight > aspect) {
+    sourceWidth = sourceHeight * aspect;
+  } else {
+    sourceHeight = sourceWidth / aspect;
+  }
+  const scale = Math.min(1, maxSidePx / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Não foi possível preparar a ilustração.");
+  }
+  ctx.drawImage(
+    image,
+    (image.naturalWidth - sourceWidth) / 2,
+    (image.naturalHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    0,
+    0,
+    canvas.width,
+    canvas.height,
+  );
+  return canvas.toDataURL('image/jpeg', 0.92);
+}
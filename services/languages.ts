@@ -0,0 +1,38 @@
+import type { BookLanguage, StoryLanguage } from '../types';
+
+interface StoryLanguageInfo {
+  label: string;
+  // Como o idioma é nomeado dentro dos prompts, que continuam escritos em português
+  promptName: string;
+  // Código BCP-47 enviado ao TTS e gravado nos metadados das exportações
+  speechCode: string;
+  coverIntro: (title: string) => string;
+}
+
+export const STORY_LANGUAGES: Record<StoryLanguage, StoryLanguageInfo> = {
+  'pt-BR': {
+    label: 'Português',
+    promptName: 'português brasileiro',
+    speechCode: 'pt-BR',
+    coverIntro: title => `Apresentando: ${title}. Uma jornada mágica está prestes a começar.`,
+  },
+  en: {
+    label: 'English',
+    promptName: 'inglês',
+    speechCode: 'en-US',
+    coverIntro: title => `Presenting: ${title}. A magical journey is about to begin.`,
+  },
+  es: {
+    label: 'Español',
+    promptName: 'espanhol',
+    speechCode: 'es-US',
+    coverIntro: title => `Presentamos: ${title}. Un viaje mágico está a punto de comenzar.`,
+  },
+};
+
+export const DEFAULT_BOOK_LANGUAGE: BookLanguage = { primary: 'pt-BR', secondary: null };
+
+export function describeBookLanguage(language: BookLanguage): string {
+  const primary = STORY_LANGUAGES[language.primary].label;
+  return language.secondary ? `${primary} + ${STORY_LANGUAGES[language.secondary].label}` : primary;
+}
@@ -0,0 +1,106 @@
+import type { StoredStory, UploadedImage } from '../types';
+import { castFromLegacyImage } from './cast';
+
+const DB_NAME = 'fabula-magica';
+const DB_VERSION = 1;
+const STORIES_STORE = 'stories';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORIES_STORE)) {
+          const store = db.createObjectStore(STORIES_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Só conta como feito quando a transação termina: uma gravação pode dar certo no pedido e ainda
+// ser desfeita na confirmação, por exemplo por falta de espaço
+function transactionResult<T>(transaction: IDBTransaction, request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("A transação da biblioteca foi cancelada."));
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORIES_STORE, mode);
+    return await transactionResult(transaction, run(transaction.objectStore(STORIES_STORE)));
+  } catch (error) {
+    console.error("Erro ao acessar a biblioteca de histórias:", error);
+    throw new Error("Falha ao acessar a biblioteca de histórias.");
+  }
+}
+
+// Converte registros salvos por versões anteriores do app para o formato atual
+function upgradeStory(stored: StoredStory & { characterImage?: UploadedImage | null }): StoredStory {
+  if (stored.cast) return stored;
+  const { characterImage, ...story } = stored;
+  return { ...story, cast: castFromLegacyImage(characterImage) };
+}
+
+export function createStoryId(): string {
+  return crypto.randomUUID();
+}
+
+export async function listStories(): Promise<StoredStory[]> {
+  const stories = await withStore<StoredStory[]>('readonly', store => store.getAll());
+  return stories.map(upgradeStory).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getStory(id: string): Promise<StoredStory | null> {
+  const story = await withStore<StoredStory | undefined>('readonly', store => store.get(id));
+  return story ? upgradeStory(story) : null;
+}
+
+export async function saveStory(story: StoredStory): Promise<void> {
+  await withStore('readwrite', store => store.put(story));
+}
+
+export async function deleteStory(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function renameStory(id: string, title: string): Promise<StoredStory> {
+  const story = await getStory(id);
+  if (!story) {
+    throw new Error("História não encontrada na biblioteca.");
+  }
+  const renamed: StoredStory = { ...story, title, updatedAt: Date.now() };
+  await saveStory(renamed);
+  return renamed;
+}
+
+export async function duplicateStory(id: string): Promise<StoredStory> {
+  const story = await getStory(id);
+  if (!story) {
+    throw new Error("História não encontrada na biblioteca.");
+  }
+  const now = Date.now();
+  const copy: StoredStory = {
+    ...story,
+    id: createStoryId(),
+    title: `${story.title} (cópia)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveStory(copy);
+  return copy;
+}
@@ -0,0 +1,303 @@
+import type { StoryContentResponse, StoryContentRequest, InsertedPageRequest, CastMember, PrebuiltVoice, StoryPageData, StoryBible, ReadingLevel, StoryLanguage, IllustrationStyle, SoundEffectId, SoundscapeRequestPage } from '../types';
+import type { AIProvider } from './aiProvider';
+import { encode, TTS_SAMPLE_RATE } from './audioUtils';
+import { loadImage } from './imageUtils';
+import { READING_LEVELS } from './readingLevels';
+import { STORY_LANGUAGES } from './languages';
+import { splitDialogue } from './dialogue';
+import { suggestSoundEffects } from './soundLibrary';
+
+// Provedor determinístico que roda inteiramente no navegador: útil para demonstrações e testes sem chave de API.
+// As mesmas entradas sempre produzem as mesmas saídas. Os textos enlatados estão só em português;
+// nos outros idiomas, o texto é apenas marcado com o nome do idioma.
+
+const SIMULATED_LATENCY_MS = 300;
+const VIDEO_SECONDS = 5;
+
+const CANNED_PLOTS = [
+  'Quindim, uma quokka curiosa, encontra um mapa cintilante que leva a uma cachoeira escondida. No caminho, ele ajuda um passarinho com a asa machucada e compartilha suas nozes com um esquilo faminto. Ao chegar à cachoeira, ele descobre que a verdadeira magia não estava no destino, mas na bondade que ele espalhou pelo caminho.',
+  'Lua, uma coruja que tinha medo do escuro, decide descobrir de onde vêm as estrelas. Com a ajuda de um vaga-lume falante, ela atravessa a floresta adormecida e sobe até o topo da montanha mais alta. Lá, percebe que a noite é cheia de luzes amigas e volta para casa corajosa e feliz.',
+  'Tico, um robozinho de lata, acorda em um jardim e não sabe para que serve. Ele tenta regar as flores, cantar com os pássaros e cavar com as minhocas, mas sempre se atrapalha. No fim, descobre que seu talento é consertar os brinquedos quebrados das crianças do bairro.',
+];
+
+const TITLE_PATTERNS = [
+  (hero: string) => `A Grande Aventura de ${hero}`,
+  (hero: string) => `${hero} e o Segredo Encantado`,
+  (hero: string) => `O Dia Mágico de ${hero}`,
+];
+
+const FILLER_SENTENCES = [
+  'E assim, passo a passo, a aventura continuou.',
+  'O vento soprava baixinho, como se contasse um segredo.',
+  'Cada descoberta trazia um sorriso novo.',
+  'Os amigos da floresta observavam tudo com curiosidade.',
+];
+
+const PALETTES = [
+  ['#1e1b4b', '#7c3aed', '#f472b6'],
+  ['#0c4a6e', '#0ea5e9', '#fde68a'],
+  ['#14532d', '#22c55e', '#fef08a'],
+  ['#7c2d12', '#f97316', '#fde047'],
+  ['#312e81', '#6366f1', '#a5f3fc'],
+];
+
+const BIBLE_COLORS = ['azul-celeste', 'verde-musgo', 'amarelo-mostarda', 'vermelho-cereja', 'lilás', 'laranja-abóbora'];
+const BIBLE_OUTFITS = ['um cachecol listrado', 'uma mochila de couro', 'um chapéu de palha', 'uma capa curta', 'botas de chuva'];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a de 32 bits: barato e estável entre execuções
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const pick = <T,>(items: readonly T[], seed: string): T => items[hashString(seed) % items.length];
+
+function findHeroName(plot: string): string {
+  const match = plot.match(/[A-ZÁÉÍÓÚÂÊÔÃÕÇ][a-záéíóúâêôãõç]{2,}/);
+  return match?.[0] ?? 'Quindim';
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    if ((current + ' ' + word).trim().length > maxChars) {
+      lines.push(current.trim());
+      current = word;
+      if (lines.length === maxLines) break;
+    } else {
+      current = `${current} ${word}`;
+    }
+  }
+  if (lines.length < maxLines && current.trim()) lines.push(current.trim());
+  return lines;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Variações da mesma cena mudam as cores e o céu, mas mantêm o texto do prompt
+function placeholderSvg(prompt: string, variation = 0): string {
+  const key = variation > 0 ? `${prompt}#${variation}` : prompt;
+  const seed = hashString(key);
+  const [dark, mid, light] = PALETTES[seed % PALETTES.length];
+  const stars = Array.from({ length: 24 }, (_, i) => {
+    const starSeed = hashString(`${key}:${i}`);
+    const x = starSeed % 1024;
+    const y = (starSeed >>> 10) % 560;
+    const r = 1 + ((starSeed >>> 20) % 4);
+    return `<circle cx="${x}" cy="${y}" r="${r}" fill="#ffffff" opacity="0.8"/>`;
+  }).join('');
+  const lines = wrapText(prompt, 38, 4)
+    .map((line, i) => `<text x="512" y="${800 + i * 44}" text-anchor="middle" font-family="Georgia, serif" font-size="34" fill="#ffffff">${escapeXml(line)}</text>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${dark}"/><stop offset="1" stop-color="${mid}"/></linearGradient></defs>
+<rect width="1024" height="1024" fill="url(#sky)"/>${stars}
+<circle cx="${200 + (seed % 600)}" cy="220" r="90" fill="${light}" opacity="0.9"/>
+<path d="M0 700 Q256 560 512 660 T1024 620 V1024 H0 Z" fill="${dark}" opacity="0.85"/>
+<rect x="64" y="748" width="896" height="${Math.max(lines.length, 1) * 44 + 40}" rx="24" fill="#000000" opacity="0.35"/>${lines}
+</svg>`;
+}
+
+// Áudio sintético: um sininho curto seguido de silêncio proporcional ao tamanho do texto
+function synthesizeNarration(text: string): string {
+  const seconds = Math.min(20, Math.max(1.5, text.length * 0.06));
+  const samples = new Int16Array(Math.round(seconds * TTS_SAMPLE_RATE));
+  const frequency = 440 + (hashString(text) % 6) * 55;
+  const toneLength = Math.round(0.4 * TTS_SAMPLE_RATE);
+  for (let i = 0; i < toneLength; i++) {
+    const t = i / TTS_SAMPLE_RATE;
+    samples[i] = Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t * 8) * 6000;
+  }
+  return encode(new Uint8Array(samples.buffer));
+}
+
+async function suggestPlot(cast: CastMember[]): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  if (cast.length === 0) return CANNED_PLOTS[0];
+  // Troca o protagonista do enredo enlatado pelo primeiro personagem do elenco
+  const plot = pick(CANNED_PLOTS, cast.map(member => member.name).join('|'));
+  return cast[0].name ? plot.replace(findHeroName(plot), cast[0].name) : plot;
+}
+
+async function generateTitleFromPlot(plot: string): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  return pick(TITLE_PATTERNS, plot)(findHeroName(plot));
+}
+
+async function generateStoryContent({ plot, numPages, cast, language }: StoryContentRequest): Promise<StoryContentResponse[]> {
+  await delay(SIMULATED_LATENCY_MS);
+  const sentences = splitSentences(plot);
+  const perPage = Math.max(1, Math.ceil(sentences.length / numPages));
+
+  return Array.from({ length: numPages }, (_, index) => {
+    const pageSentences = sentences.slice(index * perPage, (index + 1) * perPage);
+    const storyText = pageSentences.length > 0
+      ? pageSentences.join(' ')
+      : pick(FILLER_SENTENCES, `${plot}:${index}`);
+    // Personagens citados no texto; sem nenhum citado, o protagonista aparece na cena
+    const mentioned = cast.filter(member => member.name && storyText.includes(member.name)).map(member => member.name);
+    return {
+      storyText,
+      imagePrompt: `Ilustração infantil, página ${index + 1}: ${storyText}`,
+      characters: cast.length > 0 ? (mentioned.length > 0 ? mentioned : [cast[0].name]) : undefined,
+      secondaryStoryText: language.secondary ? `(${STORY_LANGUAGES[language.secondary].label}) ${storyText}` : undefined,
+      dialogue: splitDialogue(storyText, cast.map(member => member.name)),
+    };
+  });
+}
+
+async function generateInsertedPage({ cast, language, previousText, nextText }: InsertedPageRequest): Promise<StoryContentResponse> {
+  await delay(SIMULATED_LATENCY_MS);
+  const storyText = pick(FILLER_SENTENCES, `${previousText ?? ''}|${nextText ?? ''}`);
+  return {
+    storyText,
+    imagePrompt: `Ilustração infantil: ${storyText}`,
+    characters: cast.length > 0 ? [cast[0].name] : undefined,
+    secondaryStoryText: language.secondary ? `(${STORY_LANGUAGES[language.secondary].label}) ${storyText}` : undefined,
+    dialogue: splitDialogue(storyText, cast.map(member => member.name)),
+  };
+}
+
+async function generateStoryBible(plot: string, cast: CastMember[]): Promise<Omit<StoryBible, 'characterSheet'>> {
+  await delay(SIMULATED_LATENCY_MS);
+  const names = cast.length > 0 ? cast.map(member => member.name) : [findHeroName(plot)];
+  return {
+    characters: names.map(name => ({
+      name,
+      appearance: cast.find(member => member.name === name)?.description || `${name} é pequeno, de olhos grandes e expressão alegre.`,
+      outfit: `Usa ${pick(BIBLE_OUTFITS, name)}.`,
+      palette: `${pick(BIBLE_COLORS, name)} e branco.`,
+    })),
+    palette: `Tons suaves de ${pick(BIBLE_COLORS, plot)}, com luz dourada de fim de tarde.`,
+    setting: 'Uma floresta encantada com árvores altas, cogumelos e um riacho cristalino.',
+  };
+}
+
+// Corta cada frase no limite de palavras do nível: basta para demonstrar o fluxo de simplificação
+async function simplifyPageText(text: string, readingLevel: ReadingLevel): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  const { maxWordsPerSentence } = READING_LEVELS[readingLevel];
+  return splitSentences(text)
+    .map(sentence => {
+      const words = sentence.replace(/[.!?]+$/, '').split(/\s+/);
+      return words.length > maxWordsPerSentence ? `${words.slice(0, maxWordsPerSentence).join(' ')}.` : sentence;
+    })
+    .join(' ');
+}
+
+async function designSoundscape(pages: SoundscapeRequestPage[]): Promise<SoundEffectId[][]> {
+  await delay(SIMULATED_LATENCY_MS);
+  return pages.map(page => suggestSoundEffects(`${page.text} ${page.imagePrompt}`));
+}
+
+async function generateImage(prompt: string, _references: CastMember[], _style: IllustrationStyle | null, variation = 0): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  const svg = new TextEncoder().encode(placeholderSvg(prompt, variation));
+  return `data:image/svg+xml;base64,${encode(svg)}`;
+}
+
+async function generateCharacterSheet(bible: StoryBible): Promise<string> {
+  return generateImage(`Folha de personagens: ${bible.characters.map(entry => entry.name).join(', ')}`, [], null);
+}
+
+async function generateSpeech(text: string, voice: PrebuiltVoice = 'Kore', language: StoryLanguage = 'pt-BR'): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  return synthesizeNarration(`${voice}:${language}:${text}`);
+}
+
+async function generateCoverAudio(title: string, language: StoryLanguage = 'pt-BR'): Promise<string> {
+  await delay(SIMULATED_LATENCY_MS);
+  return synthesizeNarration(STORY_LANGUAGES[language].coverIntro(title));
+}
+
+// Anima a ilustração da página com um zoom lento (efeito Ken Burns) e grava o canvas com MediaRecorder
+async function generateSceneVideo(title: string, page: StoryPageData, onProgress: (message: string) => void): Promise<Blob> {
+  onProgress('Preparando o desenho de demonstração...');
+  const image = await loadImage(page.imageUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = 1280;
+  canvas.height = 720;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Não foi possível preparar o desenho.");
+  }
+
+  const mimeType = ['video/mp4', 'video/webm;codecs=vp9', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => chunks.push(event.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const drawFrame = (progress: number) => {
+    const scale = 1 + progress * 0.15;
+    const width = canvas.width * scale;
+    const height = (image.naturalHeight / image.naturalWidth) * width;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.fillRect(0, canvas.height - 110, canvas.width, 110);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 44px Lora, Georgia, serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(title, canvas.width / 2, canvas.height - 42);
+  };
+
+  onProgress('Gravando a animação...');
+  drawFrame(0);
+  recorder.start();
+  const startedAt = performance.now();
+  await new Promise<void>(resolve => {
+    const tick = () => {
+      const progress = Math.min(1, (performance.now() - startedAt) / (VIDEO_SECONDS * 1000));
+      drawFrame(progress);
+      if (progress < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        resolve();
+      }
+    };
+    requestAnimationFrame(tick);
+  });
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
+
+export const localProvider: AIProvider = {
+  id: 'local',
+  name: 'Local (demonstração)',
+  models: {
+    text: 'local-canned-text',
+    story: 'local-canned-text',
+    image: 'local-placeholder-svg',
+    speech: 'local-synth-tone',
+    video: 'local-canvas-recorder',
+  },
+  suggestPlot,
+  generateTitleFromPlot,
+  generateStoryBible,
+  generateStoryContent,
+  generateInsertedPage,
+  simplifyPageText,
+  designSoundscape,
+  generateImage,
+  generateCharacterSheet,
+  generateSpeech,
+  generateCoverAudio,
+  generateSceneVideo,
+};
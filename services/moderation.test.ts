@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { moderateText, resolveStrictness, assertAllowed, findModerationBlock, explainModeration, ModerationBlockedError, DEFAULT_MODERATION_SETTINGS } from './moderation';
+import type { ModerationSettings } from './moderation';
+
+const settings = (strictness: ModerationSettings['strictness'], blockedTerms: string[] = []): ModerationSettings => ({ strictness, blockedTerms });
+
+describe('resolveStrictness', () => {
+  it('segue a idade no modo automático e protege mais sem idade', () => {
+    expect(resolveStrictness('auto', 'toddler')).toBe('strict');
+    expect(resolveStrictness('auto', 'early-reader')).toBe('standard');
+    expect(resolveStrictness('auto', 'independent')).toBe('relaxed');
+    expect(resolveStrictness('auto', null)).toBe('strict');
+    expect(resolveStrictness('relaxed', 'toddler')).toBe('relaxed');
+  });
+});
+
+describe('moderateText', () => {
+  it('barra temas conforme o nível de proteção', () => {
+    const text = 'Um fantasma apareceu no castelo.';
+    expect(moderateText(text, settings('strict'), null)).toEqual({ allowed: false, issues: [{ topic: 'scary', term: 'fantasma' }] });
+    expect(moderateText(text, settings('relaxed'), null).allowed).toBe(true);
+  });
+
+  it('compara palavras inteiras, sem acento nem caixa', () => {
+    expect(moderateText('Guardou o casaco no armário.', settings('strict'), null).allowed).toBe(true);
+    expect(moderateText('Ele pegou a ARMA.', settings('strict'), null).issues).toEqual([{ topic: 'violence', term: 'arma' }]);
+    expect(moderateText('Que PESADELO!', settings('strict'), null).issues).toEqual([{ topic: 'scary', term: 'pesadelo' }]);
+  });
+
+  it('reconhece expressões de várias palavras com espaços variados', () => {
+    expect(moderateText('Ele gritou: cala   a boca!', settings('standard'), null).issues).toEqual([{ topic: 'meanness', term: 'cala a boca' }]);
+  });
+
+  it('não barra palavras comuns em outro idioma', () => {
+    expect(moderateText('A menina apagou o desenho com a borracha.', DEFAULT_MODERATION_SETTINGS, null).allowed).toBe(true);
+    expect(moderateText('O pinguim usava um smoking elegante.', DEFAULT_MODERATION_SETTINGS, null).allowed).toBe(true);
+  });
+
+  it('barra as palavras da família em qualquer nível e ignora entradas vazias', () => {
+    const family = settings('relaxed', ['brócolis', '  ']);
+    expect(moderateText(['O dragão comeu', 'BROCOLIS no jantar.'], family, null).issues).toEqual([{ topic: 'custom', term: 'brócolis' }]);
+    expect(moderateText('O dragão comeu cenouras.', family, null).allowed).toBe(true);
+  });
+});
+
+describe('assertAllowed e findModerationBlock', () => {
+  it('lança um erro que pode ser achado na cadeia de causas', () => {
+    let caught: unknown;
+    try {
+      assertAllowed('Um zumbi dançou.', settings('strict'), null);
+    } catch (error) {
+      caught = new Error('Falha ao gerar a história.', { cause: error });
+    }
+    const block = findModerationBlock(caught);
+    expect(block).toBeInstanceOf(ModerationBlockedError);
+    expect(block?.issues).toEqual([{ topic: 'scary', term: 'zumbi' }]);
+    expect(findModerationBlock(new Error('outra falha'))).toBeNull();
+  });
+
+  it('explica o motivo sem repetir a palavra barrada', () => {
+    const message = explainModeration([{ topic: 'violence', term: 'arma' }]);
+    expect(message).toContain('tem brigas ou machucados');
+    expect(message).not.toContain('arma');
+  });
+});
@@ -0,0 +1,212 @@
+import type { ModerationIssue, ModerationStrictness, ModerationTopic, ReadingLevel } from '../types';
+
+type StrictnessLevel = Exclude<ModerationStrictness, 'auto'>;
+
+export interface ModerationSettings {
+  strictness: ModerationStrictness;
+  // Palavras extras que a família quer evitar, barradas em qualquer nível
+  blockedTerms: string[];
+}
+
+export interface ModerationResult {
+  allowed: boolean;
+  issues: ModerationIssue[];
+}
+
+interface ModerationTopicInfo {
+  label: string;
+  // Completa a frase "...pausou esta parte porque ela..." na explicação para a criança
+  explanation: string;
+  blockedAt: StrictnessLevel[];
+  // Formas em português, inglês e espanhol; acentos e maiúsculas são ignorados na comparação.
+  // Como os termos valem para qualquer idioma, ficam de fora os que são palavras comuns em outro
+  // (como "borracha", que em português é só a de apagar, e "smoking", o traje)
+  terms: string[];
+}
+
+const ALL_LEVELS: StrictnessLevel[] = ['strict', 'standard', 'relaxed'];
+
+export const MODERATION_TOPICS: Record<ModerationTopic, ModerationTopicInfo> = {
+  scary: {
+    label: 'Medo',
+    explanation: 'tem coisas que podem dar medo nos leitores pequenininhos',
+    blockedAt: ['strict'],
+    terms: [
+      'monstro', 'monstros', 'fantasma', 'fantasmas', 'assombrado', 'assombrada', 'pesadelo', 'pesadelos', 'zumbi', 'zumbis',
+      'vampiro', 'vampiros', 'demônio', 'demônios', 'caveira', 'assustador', 'assustadora', 'aterrorizante', 'terror', 'horripilante',
+      'monster', 'monsters', 'ghost', 'ghosts', 'haunted', 'nightmare', 'nightmares', 'zombie', 'zombies', 'vampire', 'vampires',
+      'demon', 'demons', 'skull', 'terrifying', 'horror', 'scary',
+      'monstruo', 'monstruos', 'pesadilla', 'pesadillas', 'zombi', 'zombis', 'demonio', 'demonios', 'calavera', 'aterrador', 'aterradora', 'embrujado',
+    ],
+  },
+  violence: {
+    label: 'Violência',
+    explanation: 'tem brigas ou machucados',
+    blockedAt: ['strict', 'standard'],
+    terms: [
+      'matar', 'matou', 'mataram', 'morte', 'morreu', 'assassino', 'assassinato', 'assassinar', 'sangue', 'sangrento', 'arma', 'armas',
+      'revólver', 'pistola', 'tiro', 'tiros', 'faca', 'facada', 'espancar', 'espancou', 'soco', 'socos', 'briga', 'brigas',
+      'kill', 'killed', 'killing', 'murder', 'murdered', 'blood', 'bloody', 'gun', 'guns', 'shoot', 'shot', 'knife', 'stab', 'stabbed', 'fight',
+      'muerte', 'murió', 'asesino', 'asesinato', 'sangre', 'sangriento', 'disparo', 'cuchillo', 'puñetazo', 'pelea',
+    ],
+  },
+  adult: {
+    label: 'Assuntos de adulto',
+    explanation: 'fala de assuntos de gente grande',
+    blockedAt: ALL_LEVELS,
+    terms: ['sexo', 'sexual', 'sensual', 'erótico', 'erótica', 'pornografia', 'pornô', 'porno', 'sex', 'sexy', 'erotic', 'porn', 'pornography'],
+  },
+  substances: {
+    label: 'Bebidas e drogas',
+    explanation: 'fala de bebidas ou de coisas que fazem mal para a saúde',
+    blockedAt: ALL_LEVELS,
+    terms: [
+      'cerveja', 'vodka', 'cachaça', 'bêbado', 'bêbada', 'embriagado', 'droga', 'drogas', 'cocaína', 'maconha', 'cigarro', 'cigarros', 'fumar',
+      'beer', 'drunk', 'drugs', 'cocaine', 'marijuana', 'cigarette', 'cigarettes',
+      'cerveza', 'borracho', 'cigarrillo', 'cigarrillos',
+    ],
+  },
+  language: {
+    label: 'Palavrões',
+    explanation: 'tem palavras feias',
+    blockedAt: ALL_LEVELS,
+    terms: ['merda', 'porra', 'caralho', 'puta', 'foda', 'foder', 'shit', 'fuck', 'fucking', 'bitch', 'mierda', 'joder', 'carajo'],
+  },
+  meanness: {
+    label: 'Ofensas',
+    explanation: 'tem palavras que podem magoar alguém',
+    blockedAt: ['strict', 'standard'],
+    terms: [
+      'idiota', 'imbecil', 'otário', 'estúpido', 'estúpida', 'cala a boca', 'odeio você',
+      'stupid', 'idiot', 'shut up', 'i hate you',
+      'cállate', 'te odio',
+    ],
+  },
+  danger: {
+    label: 'Perigo',
+    explanation: 'fala de coisas perigosas que ninguém deve tentar fazer',
+    blockedAt: ALL_LEVELS,
+    terms: ['suicídio', 'se matar', 'automutilação', 'overdose', 'suicide', 'kill himself', 'kill herself', 'self-harm', 'suicidio', 'suicidarse'],
+  },
+  custom: {
+    label: 'Palavras da família',
+    explanation: 'tem palavras que a sua família pediu para evitar',
+    blockedAt: ALL_LEVELS,
+    terms: [],
+  },
+};
+
+export const STRICTNESS_LEVELS: Record<ModerationStrictness, { label: string; description: string }> = {
+  auto: { label: 'Automático pela idade', description: 'Bem protegido até 5 anos, padrão para 6 e 7 anos e flexível a partir dos 8.' },
+  strict: { label: 'Bem protegido', description: 'Nada de sustos, brigas ou ofensas.' },
+  standard: { label: 'Padrão', description: 'Pode ter um pouco de suspense, mas nada de brigas ou ofensas.' },
+  relaxed: { label: 'Flexível', description: 'Aventuras com perigo e vilões; continua sem palavrões nem assuntos de adulto.' },
+};
+
+const STRICTNESS_BY_READING_LEVEL: Record<ReadingLevel, StrictnessLevel> = {
+  toddler: 'strict',
+  preschool: 'strict',
+  'early-reader': 'standard',
+  independent: 'relaxed',
+};
+
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettings = {
+  strictness: 'auto',
+  blockedTerms: [],
+};
+
+const SETTINGS_STORAGE_KEY = 'fabula-magica:moderation-settings';
+
+export function loadModerationSettings(): ModerationSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_MODERATION_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_MODERATION_SETTINGS;
+  }
+}
+
+export function saveModerationSettings(settings: ModerationSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Sem idade definida, vale o nível mais protegido
+export function resolveStrictness(strictness: ModerationStrictness, readingLevel: ReadingLevel | null): StrictnessLevel {
+  if (strictness !== 'auto') return strictness;
+  return readingLevel ? STRICTNESS_BY_READING_LEVEL[readingLevel] : 'strict';
+}
+
+const normalize = (text: string) => text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLocaleLowerCase('pt-BR');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Palavras inteiras apenas: "arma" não deve pegar "armário"
+function termPattern(term: string): RegExp {
+  const body = normalize(term).trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'u');
+}
+
+const termPatterns = new Map<string, RegExp>();
+const patternFor = (term: string) => {
+  let pattern = termPatterns.get(term);
+  if (!pattern) {
+    pattern = termPattern(term);
+    termPatterns.set(term, pattern);
+  }
+  return pattern;
+};
+
+// Confere os textos contra os temas barrados no nível de proteção e contra as palavras da família
+export function moderateText(texts: string | string[], settings: ModerationSettings, readingLevel: ReadingLevel | null): ModerationResult {
+  const level = resolveStrictness(settings.strictness, readingLevel);
+  const normalized = (Array.isArray(texts) ? texts : [texts]).map(normalize).join('\n');
+  const issues: ModerationIssue[] = [];
+
+  for (const topic of Object.keys(MODERATION_TOPICS) as ModerationTopic[]) {
+    const info = MODERATION_TOPICS[topic];
+    if (!info.blockedAt.includes(level)) continue;
+    const terms = topic === 'custom' ? settings.blockedTerms.filter(term => term.trim()) : info.terms;
+    for (const term of terms) {
+      if (patternFor(term).test(normalized) && !issues.some(issue => issue.term === term)) {
+        issues.push({ topic, term });
+      }
+    }
+  }
+  return { allowed: issues.length === 0, issues };
+}
+
+// Explicação para a criança: nunca repete as palavras barradas, só diz o motivo
+export function explainModeration(issues: ModerationIssue[]): string {
+  const reasons = [...new Set(issues.map(issue => MODERATION_TOPICS[issue.topic].explanation))];
+  const because = reasons.length > 0
+    ? `ela ${reasons.length === 1 ? reasons[0] : `${reasons.slice(0, -1).join(', ')} e também ${reasons[reasons.length - 1]}`}`
+    : 'o guardião mágico achou que ela não combina com uma história para crianças';
+  return `Ops! O Guardião das Histórias pausou esta parte porque ${because}. Que tal contar de um jeito mais gentil?`;
+}
+
+// Lançado quando um texto é barrado, pela lista local ou pelos filtros de segurança do modelo
+export class ModerationBlockedError extends Error {
+  constructor(public readonly issues: ModerationIssue[]) {
+    super(explainModeration(issues));
+    this.name = 'ModerationBlockedError';
+  }
+}
+
+export function assertAllowed(texts: string | string[], settings: ModerationSettings, readingLevel: ReadingLevel | null): void {
+  const result = moderateText(texts, settings, readingLevel);
+  if (!result.allowed) {
+    throw new ModerationBlockedError(result.issues);
+  }
+}
+
+// Percorre a cadeia de `cause`, já que os provedores embrulham o erro original em uma mensagem amigável
+export function findModerationBlock(error: unknown): ModerationBlockedError | null {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof ModerationBlockedError) {
+      return current;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+}
@@ -0,0 +1,249 @@
+import type { BackgroundMusic, MusicLoopId } from '../types';
+import { createAudioContext, decode, encode, float32ToPcm, pcmToFloat32, TTS_SAMPLE_RATE } from './audioUtils';
+
+export interface MusicLoop {
+  id: MusicLoopId;
+  name: string;
+  description: string;
+}
+
+// Composições próprias do app, geradas nota a nota: livres para tocar e exportar
+export const MUSIC_LOOPS: MusicLoop[] = [
+  { id: 'music-box', name: 'Caixinha de música', description: 'Melodia de ninar em valsa lenta' },
+  { id: 'starry-sky', name: 'Céu estrelado', description: 'Acordes longos com estrelinhas cintilando' },
+  { id: 'forest-walk', name: 'Passeio na floresta', description: 'Cordas dedilhadas para aventuras' },
+];
+
+export const DEFAULT_MUSIC_VOLUME = 0.4;
+// Áudios enviados são cortados neste tamanho e repetidos em laço
+export const MAX_UPLOAD_SECONDS = 180;
+
+// Abaixamento automático, o mesmo na reprodução e nas exportações: a música cai para esta fração
+// do volume enquanto alguém fala e só volta depois de um respiro, para não ficar pulsando entre as palavras
+export const DUCK_LEVEL = 0.25;
+export const SPEECH_THRESHOLD = 0.02;
+export const DUCK_HOLD_SECONDS = 0.4;
+export const DUCK_ATTACK_SECONDS = 0.08;
+export const DUCK_RELEASE_SECONDS = 0.5;
+
+const ANALYSIS_FRAME_SECONDS = 0.02;
+const FADE_IN_SECONDS = 1.5;
+const FADE_OUT_SECONDS = 2.5;
+const LOOP_PEAK = 0.5;
+
+type Timbre = (t: number, frequency: number, duration: number) => number;
+
+interface Note {
+  // Em tempos da música
+  beat: number;
+  midi: number;
+  beats: number;
+  gain: number;
+}
+
+interface LoopScore {
+  bpm: number;
+  beats: number;
+  timbre: Timbre;
+  // Quanto o som de cada nota continua depois de ela acabar
+  tailSeconds: number;
+  notes: Note[];
+}
+
+const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+const tone = (t: number, frequency: number) => Math.sin(2 * Math.PI * frequency * t);
+
+const bell: Timbre = (t, f) =>
+  tone(t, f) * Math.exp(-t * 3) + 0.3 * tone(t, f * 2) * Math.exp(-t * 5) + 0.1 * tone(t, f * 3) * Math.exp(-t * 8);
+
+const pad: Timbre = (t, f, duration) => {
+  const envelope = Math.min(1, t / 0.8) * (t > duration ? Math.exp(-(t - duration) * 2.5) : 1);
+  return envelope * (0.5 * tone(t, f * 0.997) + 0.5 * tone(t, f * 1.003) + 0.2 * tone(t, f * 2));
+};
+
+const pluck: Timbre = (t, f) =>
+  Math.min(1, t / 0.005) * (tone(t, f) + 0.25 * tone(t, f * 3) * Math.exp(-t * 6)) * Math.exp(-t * 4);
+
+// Uma frase por compasso; cada entrada é [nota MIDI, duração em tempos]
+const sequence = (phrase: [number, number][], gain: number, startBeat = 0): Note[] => {
+  let beat = startBeat;
+  return phrase.map(([midi, beats]) => {
+    const note = { beat, midi, beats, gain };
+    beat += beats;
+    return note;
+  });
+};
+
+const chord = (midis: number[], beat: number, beats: number, gain: number): Note[] =>
+  midis.map(midi => ({ beat, midi, beats, gain }));
+
+const arpeggio = (root: number, bar: number): Note[] =>
+  [0, 7, 12, 16, 19, 16, 12, 7].map((interval, index) => ({ beat: bar * 4 + index * 0.5, midi: root + interval, beats: 0.5, gain: index === 0 ? 0.5 : 0.35 }));
+
+const SCORES: Record<MusicLoopId, LoopScore> = {
+  'music-box': {
+    bpm: 84,
+    beats: 24,
+    timbre: bell,
+    tailSeconds: 2,
+    notes: [
+      ...sequence([[76, 1], [79, 1], [84, 1], [83, 2], [79, 1], [76, 1], [77, 1], [79, 1], [74, 3]], 0.5),
+      ...sequence([[76, 1], [79, 1], [84, 1], [86, 2], [84, 1], [83, 1], [79, 1], [77, 1], [72, 3]], 0.5, 12),
+      ...[48, 55, 57, 50, 48, 53, 55, 48].map((midi, bar) => ({ beat: bar * 3, midi, beats: 3, gain: 0.3 })),
+    ],
+  },
+  'starry-sky': {
+    bpm: 60,
+    beats: 16,
+    timbre: pad,
+    tailSeconds: 1.5,
+    notes: [
+      ...chord([48, 60, 64, 67], 0, 4, 0.25),
+      ...chord([45, 57, 60, 64], 4, 4, 0.25),
+      ...chord([41, 57, 60, 65], 8, 4, 0.25),
+      ...chord([43, 55, 59, 62], 12, 4, 0.25),
+    ],
+  },
+  'forest-walk': {
+    bpm: 96,
+    beats: 16,
+    timbre: pluck,
+    tailSeconds: 1,
+    notes: [48, 53, 55, 48].flatMap((root, bar) => [...arpeggio(root + 12, bar), { beat: bar * 4, midi: root, beats: 4, gain: 0.4 }]),
+  },
+};
+
+// As estrelinhas do céu estrelado usam outro timbre por cima dos acordes
+const SPARKLES: Note[] = [
+  { beat: 1, midi: 84, beats: 1, gain: 0.15 },
+  { beat: 5.5, midi: 88, beats: 1, gain: 0.12 },
+  { beat: 9, midi: 91, beats: 1, gain: 0.12 },
+  { beat: 13.5, midi: 86, beats: 1, gain: 0.15 },
+];
+
+// O som que passa do fim do laço volta para o começo, para a emenda não ter corte
+function renderNotes(samples: Float32Array, notes: Note[], timbre: Timbre, bpm: number, tailSeconds: number, sampleRate: number) {
+  const secondsPerBeat = 60 / bpm;
+  for (const note of notes) {
+    const frequency = midiToFrequency(note.midi);
+    const duration = note.beats * secondsPerBeat;
+    const start = Math.round(note.beat * secondsPerBeat * sampleRate);
+    const length = Math.min(samples.length, Math.round((duration + tailSeconds) * sampleRate));
+    for (let i = 0; i < length; i++) {
+      samples[(start + i) % samples.length] += timbre(i / sampleRate, frequency, duration) * note.gain;
+    }
+  }
+}
+
+const loopCache = new Map<MusicLoopId, Float32Array>();
+
+export function synthesizeLoop(id: MusicLoopId, sampleRate = TTS_SAMPLE_RATE): Float32Array {
+  const cached = sampleRate === TTS_SAMPLE_RATE ? loopCache.get(id) : undefined;
+  if (cached) return cached;
+
+  const score = SCORES[id];
+  const samples = new Float32Array(Math.round((score.beats * 60 / score.bpm) * sampleRate));
+  renderNotes(samples, score.notes, score.timbre, score.bpm, score.tailSeconds, sampleRate);
+  if (id === 'starry-sky') {
+    renderNotes(samples, SPARKLES, bell, score.bpm, 2, sampleRate);
+  }
+  const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = (samples[i] / peak) * LOOP_PEAK;
+  }
+
+  if (sampleRate === TTS_SAMPLE_RATE) loopCache.set(id, samples);
+  return samples;
+}
+
+// Amostras da música na taxa da narração, prontas para tocar em laço
+export function musicSamples(music: BackgroundMusic): Float32Array {
+  if (music.source === 'upload') {
+    return music.uploadAudioData ? pcmToFloat32(decode(music.uploadAudioData)) : new Float32Array(0);
+  }
+  return synthesizeLoop(music.source);
+}
+
+// Decodifica um áudio enviado (MP3, WAV, OGG...) e o converte para o formato da narração
+export async function decodeMusicUpload(file: Blob): Promise<string> {
+  const ctx = createAudioContext();
+  try {
+    const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+    const duration = Math.min(decoded.duration, MAX_UPLOAD_SECONDS);
+    // Um contexto de um canal só mistura o estéreo e reamostra para a taxa da narração
+    const offline = new OfflineAudioContext(1, Math.ceil(duration * TTS_SAMPLE_RATE), TTS_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return encode(float32ToPcm(rendered.getChannelData(0)));
+  } finally {
+    ctx.close().catch(console.error);
+  }
+}
+
+// Quanto a música deve tocar em cada quadro de análise, de 0 (abaixada ao máximo) a 1
+function duckingEnvelope(narration: Int16Array, frameLength: number): Float32Array {
+  const frames = Math.ceil(narration.length / frameLength);
+  const speaking = new Uint8Array(frames);
+  for (let f = 0; f < frames; f++) {
+    const start = f * frameLength;
+    const end = Math.min(narration.length, start + frameLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const value = narration[i] / 32768;
+      sum += value * value;
+    }
+    speaking[f] = Math.sqrt(sum / Math.max(1, end - start)) > SPEECH_THRESHOLD ? 1 : 0;
+  }
+
+  // A música começa a descer um pouco antes da fala e espera o respiro depois dela
+  const hold = Math.round(DUCK_HOLD_SECONDS / ANALYSIS_FRAME_SECONDS);
+  const lookahead = Math.round(DUCK_ATTACK_SECONDS / ANALYSIS_FRAME_SECONDS);
+  const ducked = new Uint8Array(frames);
+  let lastSpeech = -Infinity;
+  for (let f = 0; f < frames; f++) {
+    if (speaking[f]) lastSpeech = f;
+    if (f - lastSpeech <= hold) ducked[f] = 1;
+  }
+  let nextSpeech = Infinity;
+  for (let f = frames - 1; f >= 0; f--) {
+    if (speaking[f]) nextSpeech = f;
+    if (nextSpeech - f <= lookahead) ducked[f] = 1;
+  }
+
+  const attack = 1 - Math.exp(-ANALYSIS_FRAME_SECONDS / DUCK_ATTACK_SECONDS);
+  const release = 1 - Math.exp(-ANALYSIS_FRAME_SECONDS / DUCK_RELEASE_SECONDS);
+  const envelope = new Float32Array(frames);
+  let level = ducked[0] ? DUCK_LEVEL : 1;
+  for (let f = 0; f < frames; f++) {
+    const target = ducked[f] ? DUCK_LEVEL : 1;
+    level += (target - level) * (target < level ? attack : release);
+    envelope[f] = level;
+  }
+  return envelope;
+}
+
+// Mistura a música em laço por baixo de uma narração já montada, abaixando-a nas falas,
+// com entrada e saída suaves. Usada pelas exportações; a reprodução faz o mesmo ao vivo
+export function mixMusicBed(narration: Int16Array, music: Float32Array, volume: number, sampleRate = TTS_SAMPLE_RATE): Int16Array {
+  if (music.length === 0 || volume <= 0 || narration.length === 0) return narration;
+
+  const frameLength = Math.round(ANALYSIS_FRAME_SECONDS * sampleRate);
+  const envelope = duckingEnvelope(narration, frameLength);
+  const fadeIn = FADE_IN_SECONDS * sampleRate;
+  const fadeOut = FADE_OUT_SECONDS * sampleRate;
+  const mixed = new Int16Array(narration.length);
+  for (let i = 0; i < narration.length; i++) {
+    // Interpola entre quadros para o volume da música não andar em degraus
+    const position = i / frameLength;
+    const frame = Math.min(envelope.length - 1, Math.floor(position));
+    const next = Math.min(envelope.length - 1, frame + 1);
+    const duck = envelope[frame] + (envelope[next] - envelope[frame]) * (position - frame);
+    const fade = Math.min(1, i / fadeIn, (narration.length - i) / fadeOut);
+    const value = narration[i] / 32768 + music[i % music.length] * volume * duck * fade;
+    mixed[i] = Math.max(-1, Math.min(1, value)) * 32767;
+  }
+  return mixed;
+}
@@ -0,0 +1,196 @@
+import type { StoryPageData, PageHistory, PrebuiltVoice, AssetStatus, ImageVersion, NarrationVersion } from '../types';
+
+// Imagens e áudios pesam no armazenamento; só as versões mais recentes de cada recurso são guardadas
+const MAX_VERSIONS_PER_ASSET = 10;
+
+// Limite de opções de ilustração geradas de uma vez para a mesma página
+export const MAX_IMAGE_CANDIDATES = 4;
+
+export type NarrationHistoryTrack = 'primary' | 'secondary';
+
+function emptyHistory(): PageHistory {
+  return { images: [], narrations: [], secondaryNarrations: [], texts: [], current: {} };
+}
+
+function keepRecent<T>(versions: T[]): T[] {
+  return versions.slice(-MAX_VERSIONS_PER_ASSET);
+}
+
+// A ilustração em uso, com os metadados guardados quando ela foi criada
+function currentImageVersion(page: StoryPageData, history: PageHistory): ImageVersion {
+  return {
+    imageUrl: page.imageUrl,
+    prompt: history.current.image?.prompt ?? page.imagePrompt,
+    createdAt: history.current.image?.createdAt ?? 0,
+  };
+}
+
+const narrationFields = {
+  primary: { audio: 'audioData', status: 'audioStatus', text: 'text', versions: 'narrations', current: 'narration' },
+  secondary: { audio: 'secondaryAudioData', status: 'secondaryAudioStatus', text: 'secondaryText', versions: 'secondaryNarrations', current: 'secondaryNarration' },
+} as const;
+
+// Compara a página antes e depois de uma alteração: o que foi substituído entra no histórico
+// e o que é novo passa a ser a versão em uso, criada agora com o prompt e a voz informados
+export function recordPageChange(previous: StoryPageData, next: StoryPageData, voice: PrebuiltVoice, now = Date.now()): StoryPageData {
+  const history = previous.history ?? emptyHistory();
+  const updated: PageHistory = { ...history, current: { ...history.current } };
+  let changed = false;
+
+  if (next.imageUrl !== previous.imageUrl) {
+    if (previous.imageUrl) {
+      updated.images = keepRecent([...history.images, currentImageVersion(previous, history)]);
+    }
+    updated.current.image = next.imageUrl ? { prompt: next.imagePrompt, createdAt: now } : undefined;
+    changed = true;
+  }
+
+  for (const track of ['primary', 'secondary'] as const) {
+    const fields = narrationFields[track];
+    const previousAudio = previous[fields.audio];
+    const nextAudio = next[fields.audio];
+    if (nextAudio === previousAudio) {
+      continue;
+    }
+    const currentNarration = history.current[fields.current];
+    if (previousAudio) {
+      updated[fields.versions] = keepRecent([...history[fields.versions], {
+        audioData: previousAudio,
+        text: currentNarration?.text ?? previous[fields.text] ?? '',
+        voice: currentNarration?.voice,
+        createdAt: currentNarration?.createdAt ?? 0,
+      }]);
+    }
+    updated.current[fields.current] = nextAudio ? { text: next[fields.text] ?? '', voice, createdAt: now } : undefined;
+    changed = true;
+  }
+
+  if (next.text !== previous.text || next.secondaryText !== previous.secondaryText || next.imagePrompt !== previous.imagePrompt) {
+    updated.texts = keepRecent([...history.texts, {
+      text: previous.text,
+      secondaryText: previous.secondaryText,
+      imagePrompt: previous.imagePrompt,
+      createdAt: history.current.text?.createdAt ?? 0,
+    }]);
+    updated.current.text = { createdAt: now };
+    // Recursos mantidos sem metadados foram feitos a partir do conteúdo anterior à edição
+    if (!updated.current.image && next.imageUrl && next.imageUrl === previous.imageUrl) {
+      updated.current.image = { prompt: previous.imagePrompt, createdAt: 0 };
+    }
+    for (const track of ['primary', 'secondary'] as const) {
+      const fields = narrationFields[track];
+      if (!updated.current[fields.current] && next[fields.audio] && next[fields.audio] === previous[fields.audio]) {
+        updated.current[fields.current] = { text: previous[fields.text] ?? '', createdAt: 0 };
+      }
+    }
+    changed = true;
+  }
+
+  return changed ? { ...next, history: updated } : next;
+}
+
+// Um recurso restaurado só fica pronto se foi feito a partir do conteúdo atual da página
+const statusFor = (matches: boolean): AssetStatus => matches ? 'ready' : 'stale';
+
+// As restaurações devolvem só os campos que mudam, para serem aplicados sobre a versão mais recente da página
+
+export function restoreImageVersion(page: StoryPageData, index: number): Partial<StoryPageData> {
+  const history = page.history ?? emptyHistory();
+  const version = history.images[index];
+  if (!version) return {};
+  const images = history.images.filter((_, i) => i !== index);
+  if (page.imageUrl) {
+    images.push(currentImageVersion(page, history));
+  }
+  return {
+    imageUrl: version.imageUrl,
+    imageStatus: statusFor(version.prompt === page.imagePrompt),
+    history: { ...history, images, current: { ...history.current, image: { prompt: version.prompt, createdAt: version.createdAt } } },
+  };
+}
+
+// A opção escolhida passa a ser a ilustração da página; a anterior e as opções descartadas vão para o histórico.
+// Com `index` nulo, a ilustração atual é mantida e todas as opções são descartadas
+export function chooseImageCandidate(page: StoryPageData, index: number | null): StoryPageData {
+  const { imageCandidates = [], ...rest } = page;
+  const history = page.history ?? emptyHistory();
+  const chosen = index === null ? null : imageCandidates[index];
+  const images = [...history.images];
+  if (chosen && page.imageUrl) {
+    images.push(currentImageVersion(page, history));
+  }
+  images.push(...imageCandidates.filter(candidate => candidate !== chosen));
+
+  return {
+    ...rest,
+    imageUrl: chosen ? chosen.imageUrl : page.imageUrl,
+    imageStatus: chosen ? statusFor(chosen.prompt === page.imagePrompt) : page.imageStatus,
+    history: {
+      ...history,
+      images: keepRecent(images),
+      current: chosen ? { ...history.current, image: { prompt: chosen.prompt, createdAt: chosen.createdAt } } : history.current,
+    },
+  };
+}
+
+export function restoreNarrationVersion(page: StoryPageData, track: NarrationHistoryTrack, index: number): Partial<StoryPageData> {
+  const fields = narrationFields[track];
+  const history = page.history ?? emptyHistory();
+  const version = history[fields.versions][index];
+  if (!version) return {};
+  const versions: NarrationVersion[] = history[fields.versions].filter((_, i) => i !== index);
+  const currentAudio = page[fields.audio];
+  const currentNarration = history.current[fields.current];
+  if (currentAudio) {
+    versions.push({
+      audioData: currentAudio,
+      text: currentNarration?.text ?? page[fields.text] ?? '',
+      voice: currentNarration?.voice,
+      createdAt: currentNarration?.createdAt ?? 0,
+    });
+  }
+  return {
+    [fields.audio]: version.audioData,
+    [fields.status]: statusFor(version.text === page[fields.text]),
+    history: {
+      ...history,
+      [fields.versions]: versions,
+      current: { ...history.current, [fields.current]: { text: version.text, voice: version.voice, createdAt: version.createdAt } },
+    },
+  };
+}
+
+// Ilustração e narrações continuam as mesmas; ficam desatualizadas se não combinarem com o texto restaurado
+export function restoreTextVersion(page: StoryPageData, index: number): Partial<StoryPageData> {
+  const history = page.history ?? emptyHistory();
+  const version = history.texts[index];
+  if (!version) return {};
+  const texts = [...history.texts.filter((_, i) => i !== index), {
+    text: page.text,
+    secondaryText: page.secondaryText,
+    imagePrompt: page.imagePrompt,
+    createdAt: history.current.text?.createdAt ?? 0,
+  }];
+  const restored: Partial<StoryPageData> = {
+    text: version.text,
+    secondaryText: version.secondaryText,
+    imagePrompt: version.imagePrompt,
+    history: { ...history, texts, current: { ...history.current, text: { createdAt: version.createdAt } } },
+  };
+
+  if (page.imageUrl) {
+    restored.imageStatus = statusFor((history.current.image?.prompt ?? page.imagePrompt) === version.imagePrompt);
+  }
+  if (page.audioData) {
+    restored.audioStatus = statusFor((history.current.narration?.text ?? page.text) === version.text);
+  }
+  if (page.secondaryAudioData) {
+    restored.secondaryAudioStatus = statusFor((history.current.secondaryNarration?.text ?? page.secondaryText) === version.secondaryText);
+  }
+  return restored;
+}
+
+export function countPageVersions(page: StoryPageData): number {
+  const history = page.history;
+  return history ? history.images.length + history.narrations.length + history.secondaryNarrations.length + history.texts.length : 0;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { movePage, removePage, insertPage, canSplitPage, splitPage, mergePages, hasPendingAssets } from './pageStructure';
+import { decode, encode } from './audioUtils';
+import type { StoryPageData } from '../types';
+
+const page = (pageNumber: number, overrides: Partial<StoryPageData> = {}): StoryPageData => ({
+  pageNumber,
+  text: `Texto ${pageNumber}.`,
+  imagePrompt: `Cena ${pageNumber}`,
+  imageUrl: `data:image/png;base64,${pageNumber}`,
+  audioData: '',
+  ...overrides,
+});
+
+const texts = (pages: StoryPageData[]) => pages.map(p => p.text);
+const numbers = (pages: StoryPageData[]) => pages.map(p => p.pageNumber);
+
+describe('mudanças de ordem', () => {
+  const pages = [page(1), page(2), page(3)];
+
+  it('move, remove e insere renumerando as páginas', () => {
+    const moved = movePage(pages, 0, 2);
+    expect(texts(moved)).toEqual(['Texto 2.', 'Texto 3.', 'Texto 1.']);
+    expect(numbers(moved)).toEqual([1, 2, 3]);
+
+    const removed = removePage(pages, 1);
+    expect(texts(removed)).toEqual(['Texto 1.', 'Texto 3.']);
+    expect(numbers(removed)).toEqual([1, 2]);
+
+    const inserted = insertPage(pages, 1, page(99, { text: 'Nova.' }));
+    expect(texts(inserted)).toEqual(['Texto 1.', 'Nova.', 'Texto 2.', 'Texto 3.']);
+    expect(numbers(inserted)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('mantém o mesmo objeto para páginas que não mudaram de posição', () => {
+    expect(removePage(pages, 2)[0]).toBe(pages[0]);
+  });
+});
+
+describe('splitPage', () => {
+  it('corta na fronteira de frase e deixa os recursos novos pendentes', () => {
+    const original = page(2, { text: 'Lia acordou cedo. Foi ao jardim ver as flores.', audioData: 'AAAA', audioStatus: 'ready', imageStatus: 'ready' });
+    const [first, second] = splitPage(original);
+
+    expect(first.text).toBe('Lia acordou cedo.');
+    expect(second.text).toBe('Foi ao jardim ver as flores.');
+    expect(second.pageNumber).toBe(3);
+    expect(first).toMatchObject({ imageUrl: original.imageUrl, audioData: '', audioStatus: 'pending' });
+    expect(second).toMatchObject({ imageUrl: '', imageStatus: 'pending', audioStatus: 'pending' });
+    expect(hasPendingAssets(first) && hasPendingAssets(second)).toBe(true);
+  });
+
+  it('divide a tradução junto com o texto', () => {
+    const [first, second] = splitPage(page(1, { text: 'Um. Dois.', secondaryText: 'One. Two.' }));
+    expect([first.secondaryText, second.secondaryText]).toEqual(['One.', 'Two.']);
+    expect(second.secondaryAudioStatus).toBe('pending');
+  });
+
+  it('só divide páginas com ao menos duas palavras', () => {
+    expect(canSplitPage(page(1, { text: 'Fim.' }))).toBe(false);
+    expect(canSplitPage(page(1, { text: 'O fim.' }))).toBe(true);
+  });
+});
+
+describe('mergePages', () => {
+  it('emenda as narrações prontas com uma pausa entre elas', () => {
+    const first = page(1, { audioData: encode(new Uint8Array([1, 2])), audioStatus: 'ready', characters: ['Lia'] });
+    const second = page(2, { audioData: encode(new Uint8Array([3, 4])), audioStatus: 'ready', characters: ['Lia', 'Dragão'] });
+    const merged = mergePages(first, second);
+
+    expect(merged.text).toBe('Texto 1. Texto 2.');
+    expect(merged.imageUrl).toBe(first.imageUrl);
+    expect(merged.audioStatus).toBe('ready');
+    const audio = decode(merged.audioData);
+    expect([...audio.slice(0, 2)]).toEqual([1, 2]);
+    expect([...audio.slice(-2)]).toEqual([3, 4]);
+    expect(audio.length).toBeGreaterThan(4);
+    expect(merged.characters).toEqual(['Lia', 'Dragão']);
+  });
+
+  it('refaz a narração quando uma das partes está desatualizada', () => {
+    const merged = mergePages(page(1, { audioData: 'AAAA', audioStatus: 'stale' }), page(2, { audioData: 'AAAA', audioStatus: 'ready' }));
+    expect(merged).toMatchObject({ audioData: '', audioStatus: 'pending' });
+  });
+
+  it('usa a ilustração da segunda página quando a primeira não tem', () => {
+    const merged = mergePages(page(1, { imageUrl: '' }), page(2));
+    expect(merged).toMatchObject({ imageUrl: 'data:image/png;base64,2', imagePrompt: 'Cena 2' });
+  });
+});
@@ -0,0 +1,141 @@
+import type { StoryPageData, AssetStatus } from '../types';
+import { decode, encode, TTS_SAMPLE_RATE, TTS_CHANNELS } from './audioUtils';
+
+// Pausa entre as duas narrações quando páginas são unidas
+const MERGE_GAP_SECONDS = 0.6;
+
+// O número da página é a sua posição no livro; toda mudança de estrutura renumera a lista
+export function renumberPages(pages: StoryPageData[]): StoryPageData[] {
+  return pages.map((page, index) => page.pageNumber === index + 1 ? page : { ...page, pageNumber: index + 1 });
+}
+
+export function movePage(pages: StoryPageData[], from: number, to: number): StoryPageData[] {
+  const moved = [...pages];
+  const [page] = moved.splice(from, 1);
+  moved.splice(to, 0, page);
+  return renumberPages(moved);
+}
+
+export function removePage(pages: StoryPageData[], index: number): StoryPageData[] {
+  return renumberPages(pages.filter((_, i) => i !== index));
+}
+
+// A página nova ocupa a posição `index`, empurrando as seguintes
+export function insertPage(pages: StoryPageData[], index: number, page: StoryPageData): StoryPageData[] {
+  return renumberPages([...pages.slice(0, index), page, ...pages.slice(index)]);
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?…]+(?:[.!?…]+["'”»)]*|$)\s*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Corta o texto na fronteira de frase mais próxima da fração pedida; com uma só frase, corta entre palavras
+function splitTextAt(text: string, ratio: number): [string, string] {
+  let units = splitSentences(text);
+  if (units.length < 2) {
+    units = text.split(/\s+/).filter(Boolean);
+  }
+  if (units.length < 2) {
+    return [text.trim(), ''];
+  }
+
+  const target = text.length * ratio;
+  let best = 1;
+  let bestDistance = Infinity;
+  let length = 0;
+  for (let i = 1; i < units.length; i++) {
+    length += units[i - 1].length + 1;
+    const distance = Math.abs(length - target);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return [units.slice(0, best).join(' '), units.slice(best).join(' ')];
+}
+
+export function canSplitPage(page: StoryPageData): boolean {
+  return page.text.trim().split(/\s+/).length >= 2;
+}
+
+// As narrações antigas não servem para nenhuma das metades e a segunda página ganha uma ilustração própria;
+// os recursos a refazer ficam pendentes
+export function splitPage(page: StoryPageData): [StoryPageData, StoryPageData] {
+  const [firstText, secondText] = splitTextAt(page.text, 0.5);
+  const ratio = firstText.length / Math.max(1, firstText.length + secondText.length);
+  const [firstSecondary, secondSecondary] = page.secondaryText !== undefined ? splitTextAt(page.secondaryText, ratio) : [];
+  const secondaryFields = (secondaryText?: string): Partial<StoryPageData> => secondaryText === undefined
+    ? {}
+    : { secondaryText, secondaryAudioData: '', secondaryAudioStatus: 'pending' };
+
+  return [
+    {
+      ...page,
+      text: firstText,
+      audioData: '',
+      audioStatus: 'pending',
+      ...secondaryFields(firstSecondary),
+    },
+    {
+      ...page,
+      pageNumber: page.pageNumber + 1,
+      // As versões anteriores e as opções de ilustração ficam só com a primeira metade
+      history: undefined,
+      imageCandidates: undefined,
+      text: secondText,
+      imagePrompt: `${page.imagePrompt} Momento seguinte da cena: ${secondText}`,
+      imageUrl: '',
+      imageStatus: 'pending',
+      audioData: '',
+      audioStatus: 'pending',
+      ...secondaryFields(secondSecondary),
+    },
+  ];
+}
+
+function joinPcm(first: string, second: string): string {
+  const a = decode(first);
+  const b = decode(second);
+  const gap = new Uint8Array(Math.round(MERGE_GAP_SECONDS * TTS_SAMPLE_RATE) * TTS_CHANNELS * 2);
+  const joined = new Uint8Array(a.length + gap.length + b.length);
+  joined.set(a, 0);
+  joined.set(b, a.length + gap.length);
+  return encode(joined);
+}
+
+// Narrações prontas das duas páginas são emendadas; se alguma faltar ou estiver desatualizada, a nova é refeita
+function mergeNarration(first?: string, firstStatus?: AssetStatus, second?: string, secondStatus?: AssetStatus) {
+  const usable = (audioData?: string, status?: AssetStatus) => Boolean(audioData) && (status === undefined || status === 'ready');
+  return usable(first, firstStatus) && usable(second, secondStatus)
+    ? { audioData: joinPcm(first!, second!), status: 'ready' as const }
+    : { audioData: '', status: 'pending' as const };
+}
+
+// A página unida fica com a ilustração da primeira (ou da segunda, se a primeira não tiver)
+export function mergePages(first: StoryPageData, second: StoryPageData): StoryPageData {
+  const illustrated = first.imageUrl || !second.imageUrl ? first : second;
+  const narration = mergeNarration(first.audioData, first.audioStatus, second.audioData, second.audioStatus);
+  const merged: StoryPageData = {
+    ...first,
+    text: `${first.text} ${second.text}`,
+    imagePrompt: illustrated.imagePrompt,
+    imageUrl: illustrated.imageUrl,
+    imageStatus: illustrated.imageStatus,
+    audioData: narration.audioData,
+    audioStatus: narration.status,
+    characters: first.characters && second.characters
+      ? [...new Set([...first.characters, ...second.characters])]
+      : undefined,
+  };
+  if (first.secondaryText !== undefined || second.secondaryText !== undefined) {
+    const secondaryNarration = mergeNarration(first.secondaryAudioData, first.secondaryAudioStatus, second.secondaryAudioData, second.secondaryAudioStatus);
+    merged.secondaryText = [first.secondaryText, second.secondaryText].filter(Boolean).join(' ');
+    merged.secondaryAudioData = secondaryNarration.audioData;
+    merged.secondaryAudioStatus = secondaryNarration.status;
+  }
+  return merged;
+}
+
+export function hasPendingAssets(page: StoryPageData): boolean {
+  return page.imageStatus === 'pending' || page.audioStatus === 'pending' || page.secondaryAudioStatus === 'pending';
+}
@@ -0,0 +1,177 @@
+import { jsPDF, GState } from 'jspdf';
+import type { StoryPageData } from '../types';
+import { encode } from './audioUtils';
+import { cropImageToAspect } from './imageUtils';
+
+export type PdfPageSize = 'a4' | 'letter' | 'square';
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  marginMm: number;
+  bleedMm: number;
+}
+
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4 (210 × 297 mm)', widthMm: 210, heightMm: 297 },
+  letter: { label: 'Carta (8,5 × 11 pol)', widthMm: 215.9, heightMm: 279.4 },
+  square: { label: 'Quadrado (8 × 8 pol)', widthMm: 203.2, heightMm: 203.2 },
+};
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = { pageSize: 'a4', marginMm: 15, bleedMm: 0 };
+
+// Fontes do app servidas em TTF, o formato que o jsPDF consegue embutir
+const FONTS = [
+  { family: 'Lora', style: 'bold', file: 'Lora-Bold.ttf', url: 'https://cdn.jsdelivr.net/fontsource/fonts/lora@latest/latin-700-normal.ttf' },
+  { family: 'Nunito', style: 'normal', file: 'Nunito-Regular.ttf', url: 'https://cdn.jsdelivr.net/fontsource/fonts/nunito@latest/latin-400-normal.ttf' },
+] as const;
+
+const PT_TO_MM = 0.3528;
+
+let fontDataPromise: Promise<string[]> | null = null;
+
+function loadFontData(): Promise<string[]> {
+  if (!fontDataPromise) {
+    fontDataPromise = Promise.all(FONTS.map(async font => {
+      const response = await fetch(font.url);
+      if (!response.ok) {
+        throw new Error(`Falha ao baixar a fonte ${font.family}. Status: ${response.status}`);
+      }
+      return encode(new Uint8Array(await response.arrayBuffer()));
+    })).catch(error => {
+      fontDataPromise = null;
+      throw error;
+    });
+  }
+  return fontDataPromise;
+}
+
+async function registerFonts(doc: jsPDF): Promise<{ heading: string; body: string }> {
+  try {
+    const fontData = await loadFontData();
+    FONTS.forEach((font, index) => {
+      doc.addFileToVFS(font.file, fontData[index]);
+      doc.addFont(font.file, font.family, font.style);
+    });
+    return { heading: 'Lora', body: 'Nunito' };
+  } catch (error) {
+    console.error("Erro ao carregar fontes para o PDF, usando fontes padrão:", error);
+    return { heading: 'times', body: 'helvetica' };
+  }
+}
+
+// Reduz a fonte até o texto caber na caixa disponível. Se nem o tamanho mínimo couber,
+// as linhas são divididas em blocos que cabem na caixa, um por página
+function fitText(doc: jsPDF, text: string, maxWidth: number, maxHeight: number, startSize: number, minSize: number) {
+  for (let size = startSize; size >= minSize; size -= 1) {
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, maxWidth);
+    const lineHeight = size * PT_TO_MM * 1.5;
+    if (lines.length * lineHeight <= maxHeight || size === minSize) {
+      const linesPerBlock = Math.max(1, Math.floor(maxHeight / lineHeight));
+      const blocks: string[][] = [];
+      for (let start = 0; start < lines.length; start += linesPerBlock) {
+        blocks.push(lines.slice(start, start + linesPerBlock));
+      }
+      return { blocks: blocks.length > 0 ? blocks : [[]], lineHeight, size };
+    }
+  }
+  throw new Error("Tamanho de fonte inválido.");
+}
+
+export async function generateStoryPdf(title: string, pages: StoryPageData[], options: PdfOptions): Promise<Blob> {
+  const { widthMm, heightMm } = PDF_PAGE_SIZES[options.pageSize];
+  const { marginMm, bleedMm } = options;
+  const pageWidth = widthMm + bleedMm * 2;
+  const pageHeight = heightMm + bleedMm * 2;
+  const aspect = pageWidth / pageHeight;
+
+  const doc = new jsPDF({
+    unit: 'mm',
+    format: [pageWidth, pageHeight],
+    orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+  });
+  doc.setProperties({ title, creator: 'Fábula Mágica AI' });
+  const fonts = await registerFonts(doc);
+
+  // A área segura começa depois da sangria e da margem
+  const safeX = bleedMm + marginMm;
+  const safeWidth = widthMm - marginMm * 2;
+  const safeBottom = pageHeight - bleedMm - marginMm;
+
+  // Capa: ilustração sangrada, véu escuro e título
+  const coverImageUrl = pages.find(page => page.imageUrl)?.imageUrl;
+  if (coverImageUrl) {
+    doc.addImage(await cropImageToAspect(coverImageUrl, aspect), 'JPEG', 0, 0, pageWidth, pageHeight);
+    doc.setGState(new GState({ opacity: 0.55 }));
+    doc.setFillColor(0, 0, 0);
+    doc.rect(0, 0, pageWidth, pageHeight, 'F');
+    doc.setGState(new GState({ opacity: 1 }));
+    doc.setTextColor(255, 255, 255);
+  } else {
+    doc.setTextColor(31, 41, 55);
+  }
+  doc.setFont(fonts.heading, 'bold');
+  const cover = fitText(doc, title, safeWidth, heightMm / 2, 40, 20);
+  // A capa tem uma página só: um título longo demais é cortado com reticências
+  const coverLines = cover.blocks[0].map((line, index) =>
+    cover.blocks.length > 1 && index === cover.blocks[0].length - 1 ? `${line.trimEnd()}…` : line
+  );
+  const coverTop = pageHeight / 2 - (coverLines.length * cover.lineHeight) / 2;
+  doc.text(coverLines, pageWidth / 2, coverTop, { align: 'center', baseline: 'top', lineHeightFactor: 1.5 });
+  doc.setFont(fonts.body, 'normal');
+  doc.setFontSize(12);
+  doc.text('Uma história gerada por Fábula Mágica AI', pageWidth / 2, safeBottom, { align: 'center' });
+
+  // Cada página da história vira uma página dupla: ilustração à esquerda e texto à direita
+  for (const page of pages) {
+    doc.addPage([pageWidth, pageHeight]);
+    if (page.imageUrl) {
+      doc.addImage(await cropImageToAspect(page.imageUrl, aspect), 'JPEG', 0, 0, pageWidth, pageHeight);
+    }
+
+    const pageNumberHeight = 12;
+    const bodyHeight = heightMm - marginMm * 2 - pageNumberHeight;
+    const columnTop = (lineCount: number, lineHeight: number) => bleedMm + marginMm + (bodyHeight - lineCount * lineHeight) / 2;
+    const columnGap = 8;
+    const columnWidth = (safeWidth - columnGap) / 2;
+    doc.setFont(fonts.body, 'normal');
+    let primary: ReturnType<typeof fitText>;
+    let secondary: ReturnType<typeof fitText> | null = null;
+    if (page.secondaryText) {
+      // Páginas bilíngues: os dois idiomas lado a lado, no mesmo tamanho de fonte
+      const size = Math.min(
+        fitText(doc, page.text, columnWidth, bodyHeight, 18, 8).size,
+        fitText(doc, page.secondaryText, columnWidth, bodyHeight, 18, 8).size,
+      );
+      primary = fitText(doc, page.text, columnWidth, bodyHeight, size, size);
+      secondary = fitText(doc, page.secondaryText, columnWidth, bodyHeight, size, size);
+    } else {
+      primary = fitText(doc, page.text, safeWidth, bodyHeight, 22, 10);
+    }
+
+    // Texto que não cabe nem no menor tamanho continua nas páginas seguintes
+    const textPageCount = Math.max(primary.blocks.length, secondary?.blocks.length ?? 0);
+    for (let block = 0; block < textPageCount; block += 1) {
+      doc.addPage([pageWidth, pageHeight]);
+      doc.setFont(fonts.body, 'normal');
+      doc.setFontSize(primary.size);
+      doc.setTextColor(31, 41, 55);
+      const primaryLines = primary.blocks[block] ?? [];
+      if (secondary) {
+        const secondaryLines = secondary.blocks[block] ?? [];
+        doc.text(primaryLines, safeX + columnWidth / 2, columnTop(primaryLines.length, primary.lineHeight), { align: 'center', baseline: 'top', lineHeightFactor: 1.5 });
+        doc.setTextColor(75, 85, 99);
+        doc.text(secondaryLines, safeX + columnWidth + columnGap + columnWidth / 2, columnTop(secondaryLines.length, secondary.lineHeight), { align: 'center', baseline: 'top', lineHeightFactor: 1.5 });
+      } else {
+        doc.text(primaryLines, pageWidth / 2, columnTop(primaryLines.length, primary.lineHeight), { align: 'center', baseline: 'top', lineHeightFactor: 1.5 });
+      }
+
+      doc.setFont(fonts.heading, 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(107, 114, 128);
+      doc.text(`${page.pageNumber} / ${pages.length}`, safeX + safeWidth, safeBottom, { align: 'right' });
+    }
+  }
+
+  return doc.output('blob');
+}
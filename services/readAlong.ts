@@ -0,0 +1,151 @@
+import type { NarrationTimings, WordTiming } from '../types';
+
+// Janela usada para medir a energia do áudio
+const FRAME_SECONDS = 0.02;
+// Silêncios mais curtos que isso são só o espaço natural entre palavras
+const MIN_PAUSE_SECONDS = 0.12;
+const PHRASE_END = /[,.;:!?…]["'”»)]*$/;
+
+export interface WordToken {
+  word: string;
+  // Posição da palavra no texto, para exibi-la com a pontuação e os espaços originais
+  start: number;
+  end: number;
+}
+
+interface Pause {
+  start: number;
+  end: number;
+}
+
+export function tokenizeWords(text: string): WordToken[] {
+  return [...text.matchAll(/\S+/g)].map(match => ({ word: match[0], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+}
+
+// Sílabas aproximadas pelos grupos de vogais: palavras longas levam mais tempo para serem faladas
+function wordWeight(word: string): number {
+  const vowelGroups = word.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase().match(/[aeiouy]+/g);
+  return Math.max(1, vowelGroups?.length ?? 0);
+}
+
+function frameEnergies(samples: Float32Array, sampleRate: number): number[] {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const energies: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    const end = Math.min(samples.length, offset + frameSize);
+    let sum = 0;
+    for (let i = offset; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energies.push(Math.sqrt(sum / (end - offset)));
+  }
+  return energies;
+}
+
+// Trechos de fala e de silêncio, separados por um limiar entre o ruído de fundo e o pico do áudio
+function findSpeech(energies: number[], frameDuration: number): { start: number; end: number; pauses: Pause[] } | null {
+  const sorted = [...energies].sort((a, b) => a - b);
+  const floor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  const peak = sorted[sorted.length - 1] ?? 0;
+  if (peak <= floor) return null;
+  const threshold = floor + (peak - floor) * 0.1;
+
+  const voiced = energies.map(energy => energy > threshold);
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  const pauses: Pause[] = [];
+  let silenceStart = -1;
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i] && silenceStart < 0) {
+      silenceStart = i;
+    } else if (voiced[i] && silenceStart >= 0) {
+      if ((i - silenceStart) * frameDuration >= MIN_PAUSE_SECONDS) {
+        pauses.push({ start: silenceStart * frameDuration, end: i * frameDuration });
+      }
+      silenceStart = -1;
+    }
+  }
+  return { start: first * frameDuration, end: (last + 1) * frameDuration, pauses };
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Reparte o tempo de um trecho de fala entre as palavras, proporcionalmente ao tamanho de cada uma
+function distribute(words: string[], start: number, end: number): WordTiming[] {
+  const weights = words.map(wordWeight);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let elapsed = 0;
+  return words.map((word, index) => {
+    const wordStart = start + (end - start) * (elapsed / total);
+    elapsed += weights[index];
+    return { word, start: roundTime(wordStart), end: roundTime(start + (end - start) * (elapsed / total)) };
+  });
+}
+
+// Estima quando cada palavra é falada a partir da energia do PCM. O fim de cada frase é encaixado
+// na pausa mais próxima do ponto esperado, e dentro da frase o tempo é dividido pelas sílabas
+export function estimateWordTimings(text: string, samples: Float32Array, sampleRate: number): NarrationTimings {
+  const duration = roundTime(samples.length / sampleRate);
+  const words = tokenizeWords(text).map(token => token.word);
+  if (words.length === 0) {
+    return { duration, words: [] };
+  }
+
+  const speech = findSpeech(frameEnergies(samples, sampleRate), FRAME_SECONDS) ?? { start: 0, end: duration, pauses: [] };
+  const speechDuration = speech.end - speech.start;
+  const tolerance = Math.max(0.6, speechDuration * 0.15);
+  const weights = words.map(wordWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const timings: WordTiming[] = [];
+  const unused = [...speech.pauses];
+  let phraseStart = 0;
+  let phraseTime = speech.start;
+  let weightSoFar = 0;
+  words.forEach((word, index) => {
+    weightSoFar += weights[index];
+    const isLast = index === words.length - 1;
+    if (!isLast && !PHRASE_END.test(word)) return;
+
+    let phraseEnd = speech.end;
+    let nextTime = speech.end;
+    if (!isLast) {
+      const expected = speech.start + speechDuration * (weightSoFar / totalWeight);
+      let best = -1;
+      unused.forEach((pause, pauseIndex) => {
+        const distance = Math.abs((pause.start + pause.end) / 2 - expected);
+        if (pause.start > phraseTime && distance <= tolerance && (best < 0 || distance < Math.abs((unused[best].start + unused[best].end) / 2 - expected))) {
+          best = pauseIndex;
+        }
+      });
+      if (best >= 0) {
+        phraseEnd = unused[best].start;
+        nextTime = unused[best].end;
+        unused.splice(0, best + 1);
+      } else {
+        phraseEnd = nextTime = Math.max(phraseTime, expected);
+      }
+    }
+    timings.push(...distribute(words.slice(phraseStart, index + 1), phraseTime, phraseEnd));
+    phraseStart = index + 1;
+    phraseTime = nextTime;
+  });
+
+  return { duration, words: timings };
+}
+
+// As marcações só valem para a mesma narração e o mesmo texto em que foram calculadas
+export function timingsMatch(timings: NarrationTimings | undefined, text: string, duration: number): timings is NarrationTimings {
+  if (!timings || Math.abs(timings.duration - duration) > 0.01) return false;
+  const tokens = tokenizeWords(text);
+  return tokens.length === timings.words.length && tokens.every((token, index) => token.word === timings.words[index].word);
+}
+
+// A palavra destacada continua acesa durante a pausa que vem depois dela
+export function wordIndexAt(timings: NarrationTimings, time: number): number {
+  let index = -1;
+  for (let i = 0; i < timings.words.length && timings.words[i].start <= time; i++) {
+    index = i;
+  }
+  return index;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { countSyllables, splitWords, analyzeReadability, describeFleschIndex, readingLevelIssues } from './readability';
+
+describe('countSyllables', () => {
+  it('conta hiatos e junta ditongos', () => {
+    expect(countSyllables('gato')).toBe(2);
+    expect(countSyllables('borboleta')).toBe(4);
+    expect(countSyllables('saída')).toBe(3);
+    expect(countSyllables('coelho')).toBe(3);
+    expect(countSyllables('água')).toBe(2);
+  });
+
+  it('conta os ditongos nasais como uma sílaba', () => {
+    expect(countSyllables('pão')).toBe(1);
+    expect(countSyllables('mãe')).toBe(1);
+    expect(countSyllables('põe')).toBe(1);
+  });
+
+  it('ignora maiúsculas e nunca devolve zero', () => {
+    expect(countSyllables('GATO')).toBe(2);
+    expect(countSyllables('psst')).toBe(1);
+  });
+});
+
+describe('splitWords', () => {
+  it('mantém palavras com hífen e apóstrofo e descarta pontuação', () => {
+    expect(splitWords('O beija-flor disse: "d\'água", e voou!')).toEqual(['O', 'beija-flor', 'disse', "d'água", 'e', 'voou']);
+  });
+});
+
+describe('analyzeReadability', () => {
+  it('dá nota máxima a frases curtas com palavras curtas', () => {
+    const analysis = analyzeReadability('O gato pulou. A bola caiu!');
+    expect(analysis.words).toBe(6);
+    expect(analysis.sentences).toBe(2);
+    expect(analysis.wordsPerSentence).toBe(3);
+    expect(analysis.fleschIndex).toBe(100);
+    expect(analysis.longWordRatio).toBe(0);
+  });
+
+  it('limita o índice a zero em textos muito difíceis', () => {
+    const analysis = analyzeReadability('Extraordinariamente, as incomensuráveis responsabilidades administrativas complicavam consideravelmente a compreensão institucional dos acontecimentos.');
+    expect(analysis.sentences).toBe(1);
+    expect(analysis.fleschIndex).toBe(0);
+    expect(analysis.longWordRatio).toBeGreaterThan(0.5);
+  });
+
+  it('não divide por zero em textos vazios', () => {
+    const analysis = analyzeReadability('');
+    expect(analysis.words).toBe(0);
+    expect(analysis.sentences).toBe(1);
+    expect(Number.isFinite(analysis.fleschIndex)).toBe(true);
+  });
+});
+
+describe('describeFleschIndex', () => {
+  it('traduz o índice em faixas', () => {
+    expect(describeFleschIndex(90)).toBe('muito fácil');
+    expect(describeFleschIndex(60)).toBe('fácil');
+    expect(describeFleschIndex(30)).toBe('difícil');
+    expect(describeFleschIndex(10)).toBe('muito difícil');
+  });
+});
+
+describe('readingLevelIssues', () => {
+  it('não aponta nada quando o texto está no nível', () => {
+    expect(readingLevelIssues(analyzeReadability('O gato pulou. A bola caiu!'), 'toddler')).toEqual([]);
+  });
+
+  it('explica cada limite ultrapassado', () => {
+    const analysis = analyzeReadability('Extraordinariamente, as incomensuráveis responsabilidades administrativas complicavam consideravelmente a compreensão institucional dos acontecimentos.');
+    expect(readingLevelIssues(analysis, 'toddler')).toEqual([
+      'frases de 12 palavras em média (máximo 6)',
+      '75% de palavras longas (máximo 5%)',
+      'índice de facilidade 0 (mínimo 85)',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import type { ReadingLevel } from '../types';
+import { READING_LEVELS } from './readingLevels';
+
+export interface ReadabilityAnalysis {
+  words: number;
+  sentences: number;
+  syllables: number;
+  wordsPerSentence: number;
+  syllablesPerWord: number;
+  // Índice de Flesch adaptado ao português (Martins et al., 1996), limitado a 0–100: quanto maior, mais fácil
+  fleschIndex: number;
+  // Fração de palavras com quatro sílabas ou mais
+  longWordRatio: number;
+}
+
+const LONG_WORD_SYLLABLES = 4;
+
+// Vogais que formam sílaba sozinhas; i e u sem acento viram semivogais ao lado delas
+const STRONG_VOWELS = 'aeoáéíóúâêôãõà';
+const WEAK_VOWELS = 'iuüy';
+const NASAL_VOWELS = 'ãõ';
+
+// Contagem heurística: cada vogal forte de um grupo de vogais é um núcleo de sílaba (hiato),
+// semivogais se juntam a ela (ditongo) e os ditongos nasais ão, ãe e õe contam como um só núcleo
+export function countSyllables(word: string): number {
+  const letters = word.toLocaleLowerCase('pt-BR');
+  let syllables = 0;
+  let i = 0;
+  while (i < letters.length) {
+    if (!STRONG_VOWELS.includes(letters[i]) && !WEAK_VOWELS.includes(letters[i])) {
+      i++;
+      continue;
+    }
+    let nuclei = 0;
+    let previous = '';
+    for (; i < letters.length && (STRONG_VOWELS.includes(letters[i]) || WEAK_VOWELS.includes(letters[i])); i++) {
+      const vowel = letters[i];
+      const isNasalDiphthong = previous !== '' && NASAL_VOWELS.includes(previous) && 'oe'.includes(vowel);
+      if (STRONG_VOWELS.includes(vowel) && !isNasalDiphthong) nuclei++;
+      previous = vowel;
+    }
+    syllables += Math.max(1, nuclei);
+  }
+  return Math.max(1, syllables);
+}
+
+export function splitWords(text: string): string[] {
+  return text.match(/[\p{L}]+(?:[-'][\p{L}]+)*/gu) ?? [];
+}
+
+export function analyzeReadability(text: string): ReadabilityAnalysis {
+  const words = splitWords(text);
+  const sentenceCount = Math.max(1, (text.match(/[^.!?…]+[.!?…]+|[^.!?…]+$/g) ?? []).filter(s => /\p{L}/u.test(s)).length);
+  const syllableCounts = words.map(countSyllables);
+  const syllables = syllableCounts.reduce((sum, count) => sum + count, 0);
+  const wordCount = Math.max(1, words.length);
+  const wordsPerSentence = words.length / sentenceCount;
+  const syllablesPerWord = syllables / wordCount;
+
+  return {
+    words: words.length,
+    sentences: sentenceCount,
+    syllables,
+    wordsPerSentence,
+    syllablesPerWord,
+    fleschIndex: Math.min(100, Math.max(0, 248.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)),
+    longWordRatio: syllableCounts.filter(count => count >= LONG_WORD_SYLLABLES).length / wordCount,
+  };
+}
+
+export function describeFleschIndex(index: number): string {
+  if (index >= 75) return 'muito fácil';
+  if (index >= 50) return 'fácil';
+  if (index >= 25) return 'difícil';
+  return 'muito difícil';
+}
+
+// Motivos, em linguagem simples, pelos quais o texto passa do nível escolhido; vazio quando está adequado
+export function readingLevelIssues(analysis: ReadabilityAnalysis, level: ReadingLevel): string[] {
+  const target = READING_LEVELS[level];
+  const issues: string[] = [];
+  if (analysis.words > target.maxWordsPerPage) {
+    issues.push(`${analysis.words} palavras (máximo ${target.maxWordsPerPage})`);
+  }
+  if (analysis.wordsPerSentence > target.maxWordsPerSentence) {
+    issues.push(`frases de ${Math.round(analysis.wordsPerSentence)} palavras em média (máximo ${target.maxWordsPerSentence})`);
+  }
+  if (analysis.longWordRatio > target.maxLongWordRatio) {
+    issues.push(`${Math.round(analysis.longWordRatio * 100)}% de palavras longas (máximo ${Math.round(target.maxLongWordRatio * 100)}%)`);
+  }
+  if (analysis.fleschIndex < target.minFleschIndex) {
+    issues.push(`índice de facilidade ${Math.round(analysis.fleschIndex)} (mínimo ${target.minFleschIndex})`);
+  }
+  return issues;
+}
@@ -0,0 +1,53 @@
+import type { ReadingLevel } from '../types';
+
+interface ReadingLevelTarget {
+  label: string;
+  maxWordsPerPage: number;
+  maxWordsPerSentence: number;
+  maxLongWordRatio: number;
+  minFleschIndex: number;
+  vocabulary: string;
+}
+
+export const READING_LEVELS: Record<ReadingLevel, ReadingLevelTarget> = {
+  toddler: {
+    label: 'Bebês (2 a 3 anos)',
+    maxWordsPerPage: 25,
+    maxWordsPerSentence: 6,
+    maxLongWordRatio: 0.05,
+    minFleschIndex: 85,
+    vocabulary: 'apenas palavras do dia a dia de uma criança pequena, com repetições e sons divertidos (onomatopeias)',
+  },
+  preschool: {
+    label: 'Pré-escola (4 a 5 anos)',
+    maxWordsPerPage: 40,
+    maxWordsPerSentence: 9,
+    maxLongWordRatio: 0.08,
+    minFleschIndex: 75,
+    vocabulary: 'palavras simples e concretas, evitando termos abstratos',
+  },
+  'early-reader': {
+    label: 'Primeiras leituras (6 a 7 anos)',
+    maxWordsPerPage: 60,
+    maxWordsPerSentence: 12,
+    maxLongWordRatio: 0.12,
+    minFleschIndex: 65,
+    vocabulary: 'palavras fáceis de decodificar, no máximo uma palavra nova por página, explicada pelo contexto',
+  },
+  independent: {
+    label: 'Leitor independente (8 a 10 anos)',
+    maxWordsPerPage: 100,
+    maxWordsPerSentence: 16,
+    maxLongWordRatio: 0.18,
+    minFleschIndex: 50,
+    vocabulary: 'vocabulário rico, mas claro, com diálogos e algumas palavras novas',
+  },
+};
+
+export const DEFAULT_READING_LEVEL: ReadingLevel = 'preschool';
+
+// Instruções de escrita para o modelo de texto
+export function readingLevelInstructions(level: ReadingLevel): string {
+  const target = READING_LEVELS[level];
+  return `O público é: ${target.label}. Escreva no máximo ${target.maxWordsPerPage} palavras por página, em frases de até ${target.maxWordsPerSentence} palavras, usando ${target.vocabulary}. Prefira palavras curtas, de poucas sílabas.`;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isTransientError, withRetry } from './retry';
+
+describe('isTransientError', () => {
+  it('aceita status HTTP temporários', () => {
+    expect(isTransientError(Object.assign(new Error('Too Many Requests'), { status: 429 }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('Service Unavailable'), { status: 503 }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('Bad Request'), { status: 400 }))).toBe(false);
+  });
+
+  it('aceita status do gRPC só em maiúsculas', () => {
+    expect(isTransientError(new Error('got status: 503 UNAVAILABLE'))).toBe(true);
+    expect(isTransientError(new Error('{"error":{"status":"RESOURCE_EXHAUSTED"}}'))).toBe(true);
+    expect(isTransientError(new Error('internal error in the parser'))).toBe(false);
+    expect(isTransientError(new Error('The model is overloaded. Please try again later.'))).toBe(true);
+  });
+
+  it('repete TypeError apenas quando é falha de rede', () => {
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true);
+    expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'internalState')"))).toBe(false);
+    expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'UNAVAILABLE')"))).toBe(false);
+  });
+
+  it('segue a cadeia de causas dos erros embrulhados', () => {
+    const wrapped = new Error('Falha ao gerar imagem a partir da API Gemini.', { cause: Object.assign(new Error('quota'), { status: 429 }) });
+    expect(isTransientError(wrapped)).toBe(true);
+    expect(isTransientError(new Error('Falha ao gerar imagem.', { cause: new Error('invalid argument') }))).toBe(false);
+  });
+
+  it('ignora valores que não são erros', () => {
+    expect(isTransientError(undefined)).toBe(false);
+    expect(isTransientError('UNAVAILABLE')).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('repete erros temporários até dar certo', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('busy'), { status: 503 }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    const result = withRetry(fn, { onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Error));
+  });
+
+  it('não repete erros permanentes', async () => {
+    const error = new Error('invalid argument');
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(fn)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('desiste depois do número de tentativas', async () => {
+    vi.useFakeTimers();
+    const error = Object.assign(new Error('busy'), { status: 503 });
+    const fn = vi.fn().mockRejectedValue(error);
+
+    const result = withRetry(fn, { retries: 2 });
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,51 @@
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const TRANSIENT_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const NETWORK_ERROR_PATTERN = /Failed to fetch|NetworkError|Load failed|network/i;
+// Os nomes de status do gRPC vêm sempre em maiúsculas; sem distinguir caixa, "internal" casaria com qualquer texto
+const TRANSIENT_STATUS_PATTERN = /\b(?:RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL)\b/;
+const OVERLOADED_PATTERN = /overloaded/i;
+
+// Percorre a cadeia de `cause`, já que os serviços embrulham o erro original em uma mensagem amigável
+export function isTransientError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const status = (current as { status?: unknown }).status;
+    if (typeof status === 'number' && TRANSIENT_STATUS_CODES.has(status)) {
+      return true;
+    }
+    // O fetch sinaliza falhas de rede com TypeError; os demais TypeError são erros de programação
+    if (current instanceof TypeError) {
+      if (NETWORK_ERROR_PATTERN.test(current.message)) return true;
+    } else if (current instanceof Error) {
+      const { message } = current;
+      if (TRANSIENT_STATUS_PATTERN.test(message) || OVERLOADED_PATTERN.test(message) || NETWORK_ERROR_PATTERN.test(message)) {
+        return true;
+      }
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+// Repete a chamada com espera exponencial (e um pouco de aleatoriedade) somente para erros temporários
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      onRetry?.(attempt + 1, error);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
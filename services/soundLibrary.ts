@@ -0,0 +1,191 @@
+import type { PageSoundscape, SoundEffectId } from '../types';
+import { TTS_SAMPLE_RATE } from './audioUtils';
+
+export interface SoundEffect {
+  id: SoundEffectId;
+  name: string;
+  // Palavras do texto (em qualquer idioma do app) que sugerem o som, usadas sem IA
+  keywords: RegExp;
+}
+
+const words = (pattern: string) => new RegExp(`(?<!\\p{L})(?:${pattern})`, 'iu');
+
+export const SOUND_EFFECTS: SoundEffect[] = [
+  { id: 'water', name: 'Água corrente', keywords: words('cachoeira|cascata|riacho|rio(?!\\p{L})|rios(?!\\p{L})|lago|fonte|água|waterfall|river|stream|brook|lake|fountain|water|río|arroyo|agua') },
+  { id: 'rain', name: 'Chuva', keywords: words('chuv|chov|garoa|tempestade|trovão|rain|storm|thunder|drizzle|lluvia|llov|tormenta') },
+  { id: 'wind', name: 'Vento', keywords: words('vent|brisa|ventania|montanha|pipa|wind|breez|mountain|kite|viento|montaña|cometa') },
+  { id: 'birds', name: 'Passarinhos', keywords: words('pássar|passarinh|floresta|bosque|jardim|árvore|amanhecer|bird|forest|wood|garden|tree|sunrise|pájar|árbol|jardín') },
+  { id: 'crickets', name: 'Noite de grilos', keywords: words('noite|lua(?!\\p{L})|luar|estrela|grilo|vaga-lume|night|moon|stars?(?!\\p{L})|cricket|firefl|noche|luna|estrella|grillo') },
+  { id: 'fire', name: 'Fogueira', keywords: words('fogueira|lareira|fogo|chamas?(?!\\p{L})|dragão|fire|campfire|fireplace|flame|dragon|fogata|chimenea|fuego|dragón') },
+  { id: 'waves', name: 'Ondas do mar', keywords: words('mar(?!\\p{L})|praia|oceano|onda|barco|navio|pirata|sea(?!\\p{L})|beach|ocean|wave|boat|ship|pirate|playa|océano|ola(?!\\p{L})|olas(?!\\p{L})') },
+  { id: 'magic', name: 'Brilho mágico', keywords: words('magia|mágic|feitiç|fada|varinha|encant|brilh|magic|spells?(?!\\p{L})|fairy|wand|enchant|sparkl|hechiz|hada|varita') },
+];
+
+export const SOUND_EFFECT_IDS = SOUND_EFFECTS.map(effect => effect.id);
+export const SOUND_EFFECT_NAMES = Object.fromEntries(SOUND_EFFECTS.map(effect => [effect.id, effect.name])) as Record<SoundEffectId, string>;
+
+export const DEFAULT_SOUNDSCAPE_VOLUME = 0.35;
+// Mais que isso vira barulho por baixo da narração
+export const MAX_EFFECTS_PER_PAGE = 2;
+
+// Todos os sons têm o mesmo tamanho, para que vários possam ser somados em um só laço
+const LOOP_SECONDS = 12;
+const CROSSFADE_SECONDS = 0.5;
+const TARGET_RMS = 0.12;
+
+// Gerador determinístico: o mesmo som sai sempre igual, sem depender de arquivos
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Render = (samples: Float32Array, sampleRate: number, random: () => number) => void;
+
+// Ruído suavizado por um filtro passa-baixa de um polo; `smoothing` perto de 1 deixa o som mais grave
+function fillNoise(samples: Float32Array, random: () => number, smoothing: number, gain = 1) {
+  let last = 0;
+  for (let i = 0; i < samples.length; i++) {
+    last = last * smoothing + (random() * 2 - 1) * (1 - smoothing);
+    samples[i] += last * gain;
+  }
+}
+
+// Eventos curtos espalhados ao acaso: gotas, estalos, pios e cintilâncias
+function scatter(samples: Float32Array, sampleRate: number, random: () => number, count: number, event: (t: number, random: () => number) => number, seconds: number) {
+  const length = Math.round(seconds * sampleRate);
+  for (let n = 0; n < count; n++) {
+    const start = Math.floor(random() * samples.length);
+    const variation = createRandom(Math.floor(random() * 1e9));
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      samples[start + i] += event(i / sampleRate, variation);
+    }
+  }
+}
+
+const RENDERS: Record<SoundEffectId, Render> = {
+  water: (samples, sampleRate, random) => {
+    fillNoise(samples, random, 0.6);
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / sampleRate;
+      samples[i] *= 0.8 + 0.2 * Math.sin(2 * Math.PI * 0.5 * t) * Math.sin(2 * Math.PI * 0.13 * t);
+    }
+    scatter(samples, sampleRate, random, 60, (t, r) => Math.sin(2 * Math.PI * (500 + r() * 700 + t * 4000) * t) * Math.exp(-t * 40) * 0.3, 0.1);
+  },
+  rain: (samples, sampleRate, random) => {
+    fillNoise(samples, random, 0.2, 0.6);
+    scatter(samples, sampleRate, random, 500, (t, r) => (r() * 2 - 1) * Math.exp(-t * 300) * 0.8, 0.02);
+  },
+  wind: (samples, sampleRate, random) => {
+    fillNoise(samples, random, 0.98, 6);
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / sampleRate;
+      samples[i] *= 0.55 + 0.45 * Math.sin(2 * Math.PI * (1 / LOOP_SECONDS) * t) * Math.sin(2 * Math.PI * (3 / LOOP_SECONDS) * t + 1);
+    }
+  },
+  birds: (samples, sampleRate, random) => {
+    fillNoise(samples, random, 0.95, 0.3);
+    scatter(samples, sampleRate, random, 14, (t, r) => {
+      const base = 2500 + r() * 1500;
+      const chirp = Math.floor(t / 0.09);
+      const local = t - chirp * 0.09;
+      if (chirp > 2 || local > 0.06) return 0;
+      return Math.sin(2 * Math.PI * (base + local * 12000) * local) * Math.sin(Math.PI * local / 0.06) * 0.5;
+    }, 0.3);
+  },
+  crickets: (samples, sampleRate) => {
+    // Trinados de três pulsos que se repetem, como um grilo perto e outro mais longe
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / sampleRate;
+      [{ frequency: 4400, period: 0.8, gain: 0.4, shift: 0 }, { frequency: 4900, period: 1.1, gain: 0.2, shift: 0.3 }].forEach(cricket => {
+        const local = (t + cricket.shift) % cricket.period;
+        const pulse = Math.floor(local / 0.05);
+        if (pulse > 2) return;
+        const inPulse = local - pulse * 0.05;
+        samples[i] += Math.sin(2 * Math.PI * cricket.frequency * t) * Math.sin(Math.PI * Math.min(1, inPulse / 0.035)) * cricket.gain;
+      });
+    }
+  },
+  fire: (samples, sampleRate, random) => {
+    fillNoise(samples, random, 0.99, 8);
+    scatter(samples, sampleRate, random, 90, (t, r) => (r() * 2 - 1) * Math.exp(-t * 200) * (0.3 + r() * 0.7), 0.03);
+  },
+  waves: (samples, sampleRate, random) => {
+    fillNoise(samples, random, 0.8, 1.5);
+    // Uma onda a cada seis segundos, crescendo devagar e quebrando rápido
+    for (let i = 0; i < samples.length; i++) {
+      const phase = ((i / sampleRate) % 6) / 6;
+      samples[i] *= 0.15 + (phase < 0.7 ? phase / 0.7 : Math.exp(-(phase - 0.7) * 12));
+    }
+  },
+  magic: (samples, sampleRate, random) => {
+    scatter(samples, sampleRate, random, 40, (t, r) => {
+      const frequency = [1568, 1760, 2093, 2349, 2637][Math.floor(r() * 5)];
+      return (Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(2 * Math.PI * frequency * 2.01 * t)) * Math.exp(-t * 4) * 0.4;
+    }, 1.5);
+  },
+};
+
+const effectCache = new Map<SoundEffectId, Float32Array>();
+
+// Renderiza um pouco além do laço e funde a sobra com o começo, para a emenda não estalar
+export function synthesizeEffect(id: SoundEffectId): Float32Array {
+  const cached = effectCache.get(id);
+  if (cached) return cached;
+
+  const sampleRate = TTS_SAMPLE_RATE;
+  const length = LOOP_SECONDS * sampleRate;
+  const fade = Math.round(CROSSFADE_SECONDS * sampleRate);
+  const rendered = new Float32Array(length + fade);
+  RENDERS[id](rendered, sampleRate, createRandom(SOUND_EFFECT_IDS.indexOf(id) + 1));
+
+  const samples = rendered.slice(0, length);
+  for (let i = 0; i < fade; i++) {
+    const mix = i / fade;
+    samples[i] = samples[i] * mix + rendered[length + i] * (1 - mix);
+  }
+  const rms = Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length) || 1;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-0.9, Math.min(0.9, (samples[i] / rms) * TARGET_RMS));
+  }
+
+  effectCache.set(id, samples);
+  return samples;
+}
+
+// Soma os sons da página em um só laço, dividindo o volume para a mistura não estourar
+export function soundscapeSamples(soundscape: PageSoundscape): Float32Array | null {
+  if (!soundscape.enabled || soundscape.effects.length === 0) return null;
+  const layers = soundscape.effects.map(synthesizeEffect);
+  const mixed = new Float32Array(layers[0].length);
+  const gain = 1 / Math.sqrt(layers.length);
+  for (const layer of layers) {
+    for (let i = 0; i < mixed.length; i++) {
+      mixed[i] += layer[i] * gain;
+    }
+  }
+  return mixed;
+}
+
+// Sonoplastia sem IA: os sons cujas palavras mais aparecem na cena
+export function suggestSoundEffects(text: string): SoundEffectId[] {
+  return SOUND_EFFECTS
+    .map(effect => ({ id: effect.id, hits: text.match(new RegExp(effect.keywords.source, 'giu'))?.length ?? 0 }))
+    .filter(match => match.hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, MAX_EFFECTS_PER_PAGE)
+    .map(match => match.id);
+}
+
+// Mantém só sons conhecidos, sem repetição e no limite por página
+export function sanitizeSoundEffects(effects: unknown): SoundEffectId[] {
+  if (!Array.isArray(effects)) return [];
+  return [...new Set(effects.filter((effect): effect is SoundEffectId => SOUND_EFFECT_IDS.includes(effect as SoundEffectId)))].slice(0, MAX_EFFECTS_PER_PAGE);
+}
+
+export const createSoundscape = (effects: SoundEffectId[]): PageSoundscape => ({ effects, enabled: true, volume: DEFAULT_SOUNDSCAPE_VOLUME });
@@ -0,0 +1,39 @@
+import type { CastMember, StoryBible } from '../types';
+import { castForPage, normalizeCharacterName } from './cast';
+
+// Texto do guia visual; com `characters`, deixa de fora as fichas de personagens do elenco que não estão na cena.
+// Fichas sem personagem no elenco (lugares, objetos, bichos) entram sempre
+export function describeBible(bible: StoryBible, cast: CastMember[] = [], characters?: string[]): string {
+  const inScene = characters ? new Set(characters.map(normalizeCharacterName)) : null;
+  const castNames = new Set(cast.map(member => normalizeCharacterName(member.name)));
+  const entries = bible.characters.filter(entry => {
+    const name = normalizeCharacterName(entry.name);
+    return !inScene || !castNames.has(name) || inScene.has(name);
+  });
+  const lines = entries.map(entry =>
+    `- ${entry.name}: ${entry.appearance} Roupa: ${entry.outfit} Cores: ${entry.palette}`
+  );
+  return [
+    ...(lines.length > 0 ? ['Personagens e elementos da história:', ...lines] : []),
+    `Paleta de cores da história: ${bible.palette}`,
+    `Cenário: ${bible.setting}`,
+  ].join('\n');
+}
+
+export function applyBibleToImagePrompt(prompt: string, bible: StoryBible | null | undefined, cast: CastMember[], characters?: string[]): string {
+  if (!bible) return prompt;
+  return `${prompt}\n\nSiga rigorosamente este guia visual para manter a consistência entre as páginas:\n${describeBible(bible, cast, characters)}`;
+}
+
+// Referências de uma página: as imagens dos personagens em cena e, se existir, a folha de personagens
+export function imageReferencesForPage(cast: CastMember[], bible: StoryBible | null | undefined, characters?: string[]): CastMember[] {
+  const references = castForPage(cast, characters);
+  if (!bible?.characterSheet) return references;
+
+  const [header, base64] = bible.characterSheet.split(',');
+  const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
+  return [
+    ...references,
+    { id: 'character-sheet', name: 'a folha de personagens da história', description: '', image: { base64, mimeType } },
+  ];
+}
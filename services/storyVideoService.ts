@@ -0,0 +1,174 @@
+import { createAudioContext, decode, decodeAudioData, TTS_SAMPLE_RATE, TTS_CHANNELS } from './audioUtils';
+
+// Uma cena do desenho animado: o clipe de uma página e a narração que toca por cima dele
+export interface VideoScene {
+  clip: Blob;
+  // PCM em base64; vazio quando a página ainda não tem narração
+  audioData: string;
+}
+
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+const FRAME_RATE = 30;
+// Respiro depois da narração, antes de passar para a próxima cena
+const SCENE_TAIL_SECONDS = 0.75;
+// Quanto esperar o navegador ler um clipe antes de desistir dele
+const CLIP_LOAD_TIMEOUT_MS = 15000;
+
+const VIDEO_MIME_TYPES = ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm'];
+
+interface PreparedScene {
+  video: HTMLVideoElement;
+  url: string;
+  narration: AudioBuffer | null;
+  seconds: number;
+}
+
+// Espera um evento do clipe, desistindo se o arquivo der erro ou demorar demais
+function waitForClip(video: HTMLVideoElement, listen: (resolve: () => void) => void): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = window.setTimeout(() => reject(new Error("Um dos clipes do desenho demorou demais para abrir.")), CLIP_LOAD_TIMEOUT_MS);
+    video.onerror = () => {
+      window.clearTimeout(timeout);
+      reject(new Error("Não foi possível abrir um dos clipes do desenho."));
+    };
+    listen(() => {
+      window.clearTimeout(timeout);
+      resolve();
+    });
+  }).finally(() => {
+    video.onerror = null;
+  });
+}
+
+// Vídeos gravados com MediaRecorder chegam sem duração; pular para o fim obriga o navegador a calculá-la
+async function clipDuration(video: HTMLVideoElement): Promise<number> {
+  if (Number.isFinite(video.duration)) return video.duration;
+  try {
+    await waitForClip(video, resolve => {
+      video.ondurationchange = () => {
+        if (Number.isFinite(video.duration)) resolve();
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    });
+  } finally {
+    video.ondurationchange = null;
+  }
+  video.currentTime = 0;
+  return video.duration;
+}
+
+async function prepareScene(scene: VideoScene, ctx: AudioContext): Promise<PreparedScene> {
+  const url = URL.createObjectURL(scene.clip);
+  const video = document.createElement('video');
+  // O som do clipe fica de fora: quem conta a história é a narração da página
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    await waitForClip(video, resolve => {
+      video.onloadeddata = () => resolve();
+      video.src = url;
+    });
+    video.onloadeddata = null;
+    const duration = await clipDuration(video);
+    const narration = scene.audioData ? await decodeAudioData(decode(scene.audioData), ctx, TTS_SAMPLE_RATE, TTS_CHANNELS) : null;
+    // A cena dura o clipe inteiro ou a narração inteira, o que for mais longo; o clipe repete se precisar
+    const seconds = Math.max(duration, narration ? narration.duration + SCENE_TAIL_SECONDS : 0);
+    video.loop = seconds > duration;
+    return { video, url, narration, seconds };
+  } catch (error) {
+    // Cenas já preparadas são liberadas por quem chamou; esta ainda não chegou à lista
+    video.removeAttribute('src');
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+}
+
+// Desenha o quadro atual do clipe centralizado, com faixas pretas quando a proporção não bate
+function drawFrame(ctx: CanvasRenderingContext2D, video: HTMLVideoElement) {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+  if (!video.videoWidth || !video.videoHeight) return;
+  const scale = Math.min(VIDEO_WIDTH / video.videoWidth, VIDEO_HEIGHT / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  ctx.drawImage(video, (VIDEO_WIDTH - width) / 2, (VIDEO_HEIGHT - height) / 2, width, height);
+}
+
+// Junta os clipes na ordem, com a narração de cada página por cima, gravando um canvas em tempo real.
+// A gravação dura o mesmo que o vídeo final, e a aba precisa ficar aberta enquanto isso.
+export async function stitchStoryVideo(scenes: VideoScene[], onProgress: (message: string) => void): Promise<Blob> {
+  if (scenes.length === 0) {
+    throw new Error("Nenhuma cena para montar o desenho.");
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_WIDTH;
+  canvas.height = VIDEO_HEIGHT;
+  const canvasCtx = canvas.getContext('2d');
+  if (!canvasCtx) {
+    throw new Error("Não foi possível preparar o desenho.");
+  }
+
+  const audioCtx = createAudioContext();
+  const prepared: PreparedScene[] = [];
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  try {
+    onProgress('Juntando os clipes do desenho...');
+    for (const scene of scenes) {
+      prepared.push(await prepareScene(scene, audioCtx));
+    }
+
+    await audioCtx.resume();
+    const audioDestination = audioCtx.createMediaStreamDestination();
+    stream = new MediaStream([...canvas.captureStream(FRAME_RATE).getVideoTracks(), ...audioDestination.stream.getAudioTracks()]);
+    const mimeType = VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+    recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    drawFrame(canvasCtx, prepared[0].video);
+    recorder.start();
+    for (const [index, scene] of prepared.entries()) {
+      onProgress(`Gravando a cena ${index + 1} de ${prepared.length}... Deixe esta aba aberta.`);
+      // O relógio do áudio marca o fim da cena, para a imagem não se adiantar à narração
+      const startedAt = audioCtx.currentTime;
+      if (scene.narration) {
+        const source = audioCtx.createBufferSource();
+        source.buffer = scene.narration;
+        source.connect(audioDestination);
+        source.start(startedAt);
+      }
+      await scene.video.play();
+      await new Promise<void>(resolve => {
+        const tick = () => {
+          drawFrame(canvasCtx, scene.video);
+          if (audioCtx.currentTime - startedAt < scene.seconds) {
+            requestAnimationFrame(tick);
+          } else {
+            resolve();
+          }
+        };
+        requestAnimationFrame(tick);
+      });
+      scene.video.pause();
+    }
+    recorder.stop();
+    await stopped;
+
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    // Se uma cena falhar no meio da gravação, o gravador e a captura do canvas ficariam ligados
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    stream?.getTracks().forEach(track => track.stop());
+    prepared.forEach(scene => {
+      scene.video.pause();
+      URL.revokeObjectURL(scene.url);
+    });
+    audioCtx.close().catch(console.error);
+  }
+}
@@ -0,0 +1,11 @@
+import type { PrebuiltVoice } from '../types';
+
+export const AVAILABLE_VOICES: PrebuiltVoice[] = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
+
+export const VOICE_NAMES: Record<PrebuiltVoice, string> = {
+  Kore: 'Coreia',
+  Puck: 'Puck',
+  Charon: 'Caronte',
+  Fenrir: 'Fenrir',
+  Zephyr: 'Zéfiro',
+};
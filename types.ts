@@ -3,24 +3,276 @@ export interface UploadedImage {
   mimeType: string;
 }
 
+// Personagem do elenco; o nome é como o texto e os prompts se referem a ele
+export interface CastMember {
+  id: string;
+  name: string;
+  description: string;
+  image: UploadedImage | null;
+}
+
+export interface CharacterBibleEntry {
+  name: string;
+  appearance: string;
+  outfit: string;
+  palette: string;
+}
+
+// Guia visual da história, revisado pelo usuário antes da geração e repetido em todos os prompts de imagem
+export interface StoryBible {
+  characters: CharacterBibleEntry[];
+  palette: string;
+  setting: string;
+  // Folha de personagens canônica (data URL), usada como referência nas ilustrações
+  characterSheet: string | null;
+}
+
+export type IllustrationStyleId = 'watercolor' | 'pastel-crayon' | 'paper-cutout' | 'pixel-art' | 'classic-animation' | 'custom';
+
+export interface IllustrationStyle {
+  id: IllustrationStyleId;
+  // Descrição livre do estilo, usada quando `id` é 'custom'
+  custom?: string;
+}
+
+export type ReadingLevel = 'toddler' | 'preschool' | 'early-reader' | 'independent';
+
+export type StoryLanguage = 'pt-BR' | 'en' | 'es';
+
+// Idioma do livro; com `secondary`, cada página ganha o texto e a narração também no segundo idioma
+export interface BookLanguage {
+  primary: StoryLanguage;
+  secondary: StoryLanguage | null;
+}
+
+// O que o modelo de texto precisa para escrever as páginas
+export interface StoryContentRequest {
+  plot: string;
+  numPages: number;
+  cast: CastMember[];
+  bible: StoryBible | null;
+  readingLevel: ReadingLevel | null;
+  language: BookLanguage;
+}
+
+// Pedido de uma página nova entre duas existentes, que continua a narrativa do livro
+export interface InsertedPageRequest extends Omit<StoryContentRequest, 'numPages'> {
+  // Textos das páginas vizinhas; null no início ou no fim do livro
+  previousText: string | null;
+  nextText: string | null;
+}
+
+// O que o formulário pede para gerar
+export interface StoryRequest extends StoryContentRequest {
+  illustrationStyle: IllustrationStyle;
+  // Quantas ilustrações gerar por página para escolher depois; 1 dispensa a escolha
+  imageCandidates: number;
+}
+
+// Nível de proteção escolhido pelos pais; 'auto' segue a idade do leitor
+export type ModerationStrictness = 'auto' | 'strict' | 'standard' | 'relaxed';
+
+export type ModerationTopic = 'scary' | 'violence' | 'adult' | 'substances' | 'language' | 'meanness' | 'danger' | 'custom';
+
+export interface ModerationIssue {
+  topic: ModerationTopic;
+  // Palavra encontrada na lista local; nulo quando o bloqueio veio dos filtros do modelo
+  term: string | null;
+}
+
 export type PrebuiltVoice = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
 
+// Situação de um recurso gerado da página; ausente equivale a 'ready' (livros salvos antes do campo existir).
+// 'stale' indica que o texto ou o prompt foi editado depois da geração e o recurso ainda é o antigo
+export type AssetStatus = 'pending' | 'ready' | 'failed' | 'stale';
+
+export interface ImageVersion {
+  imageUrl: string;
+  prompt: string;
+  // 0 quando o momento da criação não é conhecido (recursos anteriores ao histórico)
+  createdAt: number;
+}
+
+export interface NarrationVersion {
+  audioData: string;
+  text: string;
+  // Ausente quando a voz usada não é conhecida
+  voice?: PrebuiltVoice;
+  createdAt: number;
+}
+
+export interface TextVersion {
+  text: string;
+  secondaryText?: string;
+  imagePrompt: string;
+  createdAt: number;
+}
+
+// Versões anteriores dos recursos da página, da mais antiga para a mais recente.
+// A versão em uso fica na própria página; `current` guarda apenas como ela foi criada
+export interface PageHistory {
+  images: ImageVersion[];
+  narrations: NarrationVersion[];
+  secondaryNarrations: NarrationVersion[];
+  texts: TextVersion[];
+  current: {
+    image?: Omit<ImageVersion, 'imageUrl'>;
+    narration?: Omit<NarrationVersion, 'audioData'>;
+    secondaryNarration?: Omit<NarrationVersion, 'audioData'>;
+    text?: { createdAt: number };
+  };
+}
+
+// Momento (em segundos desde o início da narração) em que cada palavra é falada
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Marcações da leitura acompanhada, estimadas a partir do áudio; `duration` identifica a narração usada
+export interface NarrationTimings {
+  duration: number;
+  words: WordTiming[];
+}
+
+// Trecho do texto da página falado por uma só voz: o narrador (speaker nulo) ou um personagem
+export interface DialogueSegment {
+  speaker: string | null;
+  text: string;
+}
+
+// Voz escolhida para cada personagem, pelo nome; quem não está aqui recebe uma voz automática
+export type VoiceCast = Record<string, PrebuiltVoice>;
+
+// Músicas de fundo que acompanham o app, sintetizadas no próprio navegador
+export type MusicLoopId = 'music-box' | 'starry-sky' | 'forest-walk';
+
+// Música tocada por baixo da narração, que abaixa sozinha quando alguém fala
+export interface BackgroundMusic {
+  // Uma das músicas do app ou 'upload' para um áudio enviado
+  source: MusicLoopId | 'upload';
+  // PCM de 16 bits mono do áudio enviado, no mesmo formato da narração
+  uploadAudioData?: string;
+  uploadName?: string;
+  // De 0 a 1, relativo à narração
+  volume: number;
+}
+
+// Sons ambientes da biblioteca do app, também sintetizados no navegador
+export type SoundEffectId = 'water' | 'rain' | 'wind' | 'birds' | 'crickets' | 'fire' | 'waves' | 'magic';
+
+// Sonoplastia de uma página: os sons escolhidos para a cena, tocados junto com a narração
+export interface PageSoundscape {
+  effects: SoundEffectId[];
+  enabled: boolean;
+  // De 0 a 1, relativo à narração
+  volume: number;
+}
+
 export interface StoryPageData {
   pageNumber: number;
   text: string;
   imagePrompt: string;
   imageUrl: string;
   audioData: string;
+  imageStatus?: AssetStatus;
+  audioStatus?: AssetStatus;
+  // Nomes dos personagens do elenco que aparecem na página; ausente em livros anteriores ao elenco
+  characters?: string[];
+  // Texto e narração no idioma secundário; presentes apenas em livros bilíngues
+  secondaryText?: string;
+  secondaryAudioData?: string;
+  secondaryAudioStatus?: AssetStatus;
+  // 'stale' quando o texto principal mudou sem a tradução acompanhar; só a edição da página resolve
+  secondaryTextStatus?: AssetStatus;
+  // Ausente até a primeira vez que um recurso da página é substituído
+  history?: PageHistory;
+  // Ilustrações alternativas esperando a escolha: a escolhida vira a `imageUrl` e as demais vão para o histórico
+  imageCandidates?: ImageVersion[];
+  // Calculadas na primeira vez que a narração é preparada para tocar
+  wordTimings?: NarrationTimings;
+  secondaryWordTimings?: NarrationTimings;
+  // Falas do texto no idioma principal, marcadas na geração; deixam de valer quando o texto é editado
+  dialogue?: DialogueSegment[];
+  // Ausente em páginas que ainda não passaram pela sonoplastia
+  soundscape?: PageSoundscape;
 }
 
 export interface StoryContentResponse {
     storyText: string;
     imagePrompt: string;
+    characters?: string[];
+    secondaryStoryText?: string;
+    dialogue?: DialogueSegment[];
+    // Preenchido pela etapa de sonoplastia, depois do texto
+    soundEffects?: SoundEffectId[];
+}
+
+// O que a sonoplastia lê de cada página para escolher os sons
+export type SoundscapeRequestPage = Pick<StoryPageData, 'text' | 'imagePrompt'>;
+
+export type PageJobState = 'queued' | 'running' | 'ready' | 'failed';
+
+export interface PageGenerationProgress {
+  pageNumber: number;
+  image: PageJobState;
+  audio: PageJobState;
+  secondaryAudio?: PageJobState;
+}
+
+// Um clipe do desenho animado, feito a partir da ilustração de uma página
+export interface VideoClipProgress {
+  pageNumber: number;
+  state: PageJobState;
+  // Última notícia da operação do clipe, como "animando" ou o motivo da falha
+  message: string;
 }
 
 export interface GenerationStatus {
   isLoading: boolean;
   message: string;
+  pages?: PageGenerationProgress[];
+  clips?: VideoClipProgress[];
+}
+
+export type StoryStatus = 'in-progress' | 'complete';
+
+// Progresso salvo de uma geração em andamento, para que ela possa ser retomada depois de uma interrupção
+export interface GenerationCheckpoint {
+  numPages: number;
+  // Ausente em gerações anteriores às opções de ilustração, que geravam uma só
+  imageCandidates?: number;
+  content: StoryContentResponse[] | null;
+  // Ilustrações e narrações já prontas das páginas que ainda não entraram no livro, por número de página
+  assets: Record<number, { imageUrl?: string; imageCandidates?: string[]; audioData?: string; secondaryAudioData?: string }>;
+}
+
+export interface StoredStory {
+  id: string;
+  title: string;
+  plot: string;
+  pages: StoryPageData[];
+  cast: CastMember[];
+  bible?: StoryBible;
+  // Ausente em livros anteriores aos estilos de ilustração
+  illustrationStyle?: IllustrationStyle;
+  readingLevel?: ReadingLevel;
+  // Ausente em livros anteriores aos idiomas, que são todos em português
+  language?: BookLanguage;
+  voice: PrebuiltVoice;
+  // Ausente em livros anteriores às vozes dos personagens
+  voiceCast?: VoiceCast;
+  // Ausente em livros anteriores à música de fundo
+  music?: BackgroundMusic | null;
+  coverAudioData: string | null;
+  video: Blob | null;
+  // Provedor de IA que gerou o livro; ausente em livros anteriores a este registro
+  provider?: string;
+  status: StoryStatus;
+  generation?: GenerationCheckpoint;
+  createdAt: number;
+  updatedAt: number;
 }
 
 // Adiciona aistudio ao objeto global window para verificação da chave de API do Veo